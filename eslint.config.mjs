@@ -5,6 +5,15 @@ import nextTs from "eslint-config-next/typescript";
 const eslintConfig = defineConfig([
   ...nextVitals,
   ...nextTs,
+  {
+    rules: {
+      // Hiro and Clarity JSON is read loosely on purpose (see parseStacksTx), so
+      // explicit `any` is reported without failing the run.
+      "@typescript-eslint/no-explicit-any": "warn",
+      // `const { a, ...rest } = x` is how fields are dropped from objects.
+      "@typescript-eslint/no-unused-vars": ["warn", { ignoreRestSiblings: true }],
+    },
+  },
   // Override default ignores of eslint-config-next.
   globalIgnores([
     // Default ignores of eslint-config-next:
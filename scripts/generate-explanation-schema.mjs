@@ -0,0 +1,146 @@
+/**
+ * Generates the JSON Schema for `TransactionExplanation` from its TypeScript
+ * definition, so the schema served by `/api/explain/schema` cannot drift from
+ * the type. Run with `npm run schema` after changing the explanation types.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import ts from "typescript";
+
+const root = path.resolve(path.dirname(new URL(import.meta.url).pathname), "..");
+const typesFile = path.join(root, "src/features/explain-transaction/types.ts");
+const outFile = path.join(root, "src/features/explain-transaction/explanation.schema.json");
+const rootType = "TransactionExplanation";
+
+const configPath = path.join(root, "tsconfig.json");
+const config = ts.readConfigFile(configPath, ts.sys.readFile).config;
+const parsed = ts.parseJsonConfigFileContent(config, ts.sys, root);
+
+// Strict null checks keep `| null` in the types instead of widening it away.
+const program = ts.createProgram([typesFile], { ...parsed.options, strict: true, noEmit: true });
+const checker = program.getTypeChecker();
+const source = program.getSourceFile(typesFile);
+
+const defs = {};
+
+function isOwnAlias(type) {
+  const symbol = type.aliasSymbol;
+  if (!symbol || type.aliasTypeArguments?.length) return false;
+  const decl = symbol.declarations?.[0];
+  return Boolean(decl && decl.getSourceFile().fileName.startsWith(path.join(root, "src")));
+}
+
+function describe(symbol) {
+  const text = ts.displayPartsToString(symbol.getDocumentationComment(checker)).trim();
+  return text || undefined;
+}
+
+function literalUnion(types) {
+  return types.every((t) => t.flags & ts.TypeFlags.StringLiteral)
+    ? { type: "string", enum: types.map((t) => t.value) }
+    : null;
+}
+
+function convertObject(type) {
+  const properties = {};
+  const required = [];
+
+  for (const prop of checker.getPropertiesOfType(type)) {
+    const propType = checker.getTypeOfSymbolAtLocation(prop, source);
+    if (propType.getCallSignatures().length) continue;
+
+    const schema = convert(propType);
+    const description = describe(prop);
+    properties[prop.name] = description ? { description, ...schema } : schema;
+
+    if (!(prop.flags & ts.SymbolFlags.Optional)) required.push(prop.name);
+  }
+
+  const out = { type: "object", properties };
+  if (required.length) out.required = required;
+
+  // Objects stay open: new fields are a minor version bump and must not break validators.
+  const index = checker.getIndexInfoOfType(type, ts.IndexKind.String);
+  if (index) out.additionalProperties = convert(index.type);
+  return out;
+}
+
+function convertInner(type) {
+  const { flags } = type;
+
+  if (flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) return {};
+  if (flags & ts.TypeFlags.Boolean) return { type: "boolean" };
+  if (flags & ts.TypeFlags.String) return { type: "string" };
+  if (flags & ts.TypeFlags.Number) return { type: "number" };
+  if (flags & ts.TypeFlags.Null) return { type: "null" };
+  if (flags & ts.TypeFlags.StringLiteral) return { const: type.value };
+  if (flags & ts.TypeFlags.NumberLiteral) return { const: type.value };
+  if (flags & ts.TypeFlags.BooleanLiteral) return { const: checker.typeToString(type) === "true" };
+
+  if (type.isUnion()) {
+    let members = type.types.filter((t) => !(t.flags & ts.TypeFlags.Undefined));
+
+    // `boolean` shows up as `true | false` inside larger unions.
+    const bools = members.filter((t) => t.flags & ts.TypeFlags.BooleanLiteral);
+    const collapsed = bools.length === 2;
+    if (collapsed) members = members.filter((t) => !(t.flags & ts.TypeFlags.BooleanLiteral));
+
+    const variants = [];
+    const literals = members.filter((t) => t.flags & ts.TypeFlags.StringLiteral);
+    if (literals.length > 1) {
+      variants.push(literalUnion(literals));
+      members = members.filter((t) => !(t.flags & ts.TypeFlags.StringLiteral));
+    }
+    if (collapsed) variants.push({ type: "boolean" });
+    variants.push(...members.map(convert));
+
+    return variants.length === 1 ? variants[0] : { anyOf: variants };
+  }
+
+  if (checker.isArrayType(type)) {
+    const [item] = checker.getTypeArguments(type);
+    return { type: "array", items: convert(item) };
+  }
+
+  if (flags & ts.TypeFlags.Object || type.isIntersection()) return convertObject(type);
+
+  return {};
+}
+
+function convert(type) {
+  if (!isOwnAlias(type)) return convertInner(type);
+
+  const name = type.aliasSymbol.name;
+  if (!(name in defs)) {
+    defs[name] = null; // reserve before recursing so self-references resolve
+    defs[name] = convertInner(type);
+  }
+  return { $ref: `#/$defs/${name}` };
+}
+
+const moduleSymbol = checker.getSymbolAtLocation(source);
+const exports = checker.getExportsOfModule(moduleSymbol);
+const rootSymbol = exports.find((s) => s.name === rootType);
+const versionSymbol = exports.find((s) => s.name === "EXPLANATION_SCHEMA_VERSION");
+
+if (!rootSymbol || !versionSymbol) {
+  console.error(`Could not find ${rootType} and EXPLANATION_SCHEMA_VERSION in ${typesFile}`);
+  process.exit(1);
+}
+
+const version = checker.getTypeOfSymbolAtLocation(versionSymbol, source).value;
+const body = convertInner(checker.getDeclaredTypeOfSymbol(rootSymbol));
+
+const schema = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  $id: `urn:explain-my-tx:transaction-explanation:${version}`,
+  title: rootType,
+  description: describe(rootSymbol),
+  "x-schema-version": version,
+  ...body,
+  $defs: Object.fromEntries(Object.entries(defs).sort(([a], [b]) => a.localeCompare(b))),
+};
+
+fs.writeFileSync(outFile, `${JSON.stringify(schema, null, 2)}\n`);
+console.log(`Wrote ${path.relative(root, outFile)} (schema version ${version})`);
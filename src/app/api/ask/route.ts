@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { answerWalletQuestion } from "@/features/wallet-ask";
+import { chatFromEnv } from "@/utils/llm";
+import { priceDataNote } from "@/utils/priceProvider";
+
+type Network = "mainnet" | "testnet";
+
+const MAX_QUESTION_LENGTH = 500;
+
+function isStacksAddress(address: string) {
+  const a = (address || "").trim();
+  return /^(SP|SM|ST)[A-Z0-9]{20,}$/i.test(a);
+}
+
+function jsonSafe<T>(value: T): T {
+  return JSON.parse(
+    JSON.stringify(value, (_key, val) =>
+      typeof val === "bigint" ? val.toString() : val
+    )
+  );
+}
+
+/** Null unless a model endpoint is configured; questions are then parsed by rules only. */
+const chat = chatFromEnv();
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+
+    const address = String(body?.address || "").trim();
+    const question = String(body?.question || "").trim();
+    const network: Network = body?.network === "testnet" ? "testnet" : "mainnet";
+    const utcOffsetMinutes = Number(body?.utcOffsetMinutes);
+
+    if (!address || !isStacksAddress(address)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: "That doesn’t look like a valid Stacks wallet address.",
+          step: "validate",
+          status: 400,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!question || question.length > MAX_QUESTION_LENGTH) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: "Invalid question",
+          step: "validate",
+          status: 400,
+          message: `Ask a question of up to ${MAX_QUESTION_LENGTH} characters.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await answerWalletQuestion(address, network, question, {
+      chat: body?.assist === false ? null : chat,
+      utcOffsetMinutes: Number.isFinite(utcOffsetMinutes) ? utcOffsetMinutes : 0,
+    });
+
+    return NextResponse.json(jsonSafe({ ok: true, data: { ...result, priceNote: priceDataNote() } }), { status: 200 });
+  } catch (err: any) {
+    return NextResponse.json(
+      jsonSafe({
+        ok: false,
+        error: "Server error while answering the question.",
+        step: "fetch",
+        status: err?.status || 500,
+        message: err?.message || "Unknown error",
+        source: err?.source,
+        note: err?.note,
+        raw: err?.raw,
+      }),
+      { status: err?.status || 500 }
+    );
+  }
+}
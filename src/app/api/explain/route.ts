@@ -1,6 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
-import { parseStacksTransaction } from "@/utils/parseStacksTx";
+import {
+  ParsedStacksTx,
+  parseRawStacksTransaction,
+  parseStacksTransaction,
+} from "@/utils/parseStacksTx";
+import { isRawTxHex } from "@/utils/decodeRawTx";
+import { resolveClarityError } from "@/utils/clarityErrors";
 import { explainTransaction } from "@/features/explain-transaction/explainTx";
+import { NarrativeTokens, narratorFromEnv, ruleBasedNarrative } from "@/features/explain-transaction/narrative";
+import type { TransactionExplanation } from "@/features/explain-transaction/types";
+import { lookupProtocol } from "@/utils/protocolRegistry";
+import { createFeeAnalyzer } from "@/utils/feeAnalysis";
+import { optionalDefaultPriceProvider, priceDataNote, quotePrices } from "@/utils/priceProvider";
+import { loadTokenMetadata } from "@/utils/walletActivity";
 
 type Network = "auto" | "mainnet" | "testnet";
 
@@ -49,6 +61,62 @@ async function fetchWithTimeout(url: string, timeoutMs = 15000) {
   }
 }
 
+/** Shared across requests so block fee samples and confirmed analyses are reused. */
+const feeAnalyzer = createFeeAnalyzer({
+  baseUrls: HIRO_BASE,
+  fetchJson: async (url) => {
+    const res = await fetchWithTimeout(url, 10000);
+    if (!res.ok) throw new Error(`Hiro returned ${res.status} for ${url}`);
+    return res.json();
+  },
+});
+
+/** Null unless a model endpoint is configured; see `narratorFromEnv`. */
+const narrator = narratorFromEnv();
+
+async function withNarrative(
+  parsed: ParsedStacksTx,
+  explained: TransactionExplanation,
+  wanted: boolean,
+  tokens: NarrativeTokens = null
+) {
+  if (!wanted) return explained;
+  const narrative = narrator ? await narrator.narrate(parsed, explained, tokens) : ruleBasedNarrative(explained);
+  return { ...explained, narrative };
+}
+
+/**
+ * Daily quotes for STX and every token the transaction moved, on the day of
+ * its block. Unconfirmed transactions get none: there is no block date yet.
+ */
+async function quotesForTransaction(parsed: ParsedStacksTx) {
+  if (parsed.origin === "raw_hex" || typeof parsed.blockHeight !== "number" || !parsed.timestamp) return null;
+
+  const assets = ["STX"];
+  for (const ev of parsed.events) {
+    if (ev.kind === "ft_transfer" || ev.kind === "ft_mint" || ev.kind === "ft_burn") assets.push(ev.asset);
+  }
+
+  const provider = optionalDefaultPriceProvider();
+  return provider ? quotePrices(provider, assets, parsed.timestamp).catch(() => null) : null;
+}
+
+/**
+ * SIP-010 metadata for a called token contract and every token the
+ * transaction moved, so amounts read in whole tokens. Best effort: a token
+ * without metadata is described in base units.
+ */
+async function tokensForTransaction(parsed: ParsedStacksTx, network: "mainnet" | "testnet") {
+  const ids = new Set<string>();
+  if (parsed.contractId && /^transfer(-memo)?$/i.test(parsed.functionName || "")) ids.add(parsed.contractId);
+  for (const ev of parsed.events) {
+    if (ev.kind === "ft_transfer" || ev.kind === "ft_mint" || ev.kind === "ft_burn") ids.add(ev.asset.split("::")[0]);
+  }
+
+  if (ids.size === 0) return null;
+  return loadTokenMetadata(Array.from(ids), network).catch(() => null);
+}
+
 async function fetchTransaction(txid: string, network: "mainnet" | "testnet") {
   const base = HIRO_BASE[network];
   const url = `${base}/extended/v1/tx/${txid}`;
@@ -84,6 +152,139 @@ async function fetchTransaction(txid: string, network: "mainnet" | "testnet") {
   };
 }
 
+/**
+ * Hiro's transaction JSON has no spending-condition details, so multisig
+ * signers are read from the raw bytes. Best effort: a failure here only
+ * means the explanation cannot list the signers.
+ */
+async function fetchRawTransactionHex(txid: string, network: "mainnet" | "testnet") {
+  const url = `${HIRO_BASE[network]}/extended/v1/tx/${txid}/raw`;
+
+  try {
+    const res = await fetchWithTimeout(url, 15000);
+    if (!res.ok) return null;
+    const json = await res.json();
+    return typeof json?.raw_tx === "string" ? json.raw_tx : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads a contract's Clarity source so `(err uN)` results can be matched to
+ * its `define-constant ERR-…` declarations. Best effort, like the raw fetch.
+ */
+async function fetchContractSource(contractId: string, network: "mainnet" | "testnet") {
+  const url = `${HIRO_BASE[network]}/extended/v1/contract/${contractId}`;
+
+  try {
+    const res = await fetchWithTimeout(url, 15000);
+    if (!res.ok) return null;
+    const json = await res.json();
+    return typeof json?.source_code === "string" ? json.source_code : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Contracts the sender called before the given nonce, from their most recent
+ * transactions. Returns null when that page holds nothing older than the
+ * transaction, since "no earlier calls" cannot be told apart from "not loaded".
+ */
+async function fetchPriorContracts(
+  sender: string,
+  beforeNonce: number,
+  network: "mainnet" | "testnet"
+): Promise<string[] | null> {
+  const url = `${HIRO_BASE[network]}/extended/v1/address/${sender}/transactions?limit=50`;
+
+  try {
+    const res = await fetchWithTimeout(url, 15000);
+    if (!res.ok) return null;
+    const json = await res.json();
+    const results: any[] = Array.isArray(json?.results) ? json.results : [];
+
+    const earlier = results.filter(
+      (tx) => tx?.sender_address === sender && typeof tx?.nonce === "number" && tx.nonce < beforeNonce
+    );
+    if (earlier.length === 0) return beforeNonce === 0 ? [] : null;
+
+    return earlier
+      .filter((tx) => tx?.tx_type === "contract_call" && tx?.contract_call?.contract_id)
+      .map((tx) => tx.contract_call.contract_id);
+  } catch {
+    return null;
+  }
+}
+
+function isMultisigAddress(address?: string | null) {
+  return /^(SM|SN)/i.test(String(address || ""));
+}
+
+/** Standard or contract principal, e.g. SP… or SP….contract-name. */
+function isStacksPrincipal(value: string) {
+  return /^S[PMTN][0-9A-Z]{28,40}(\.[a-zA-Z][a-zA-Z0-9-_]{0,127})?$/.test(value);
+}
+
+async function explainRawTransaction(
+  rawTx: string,
+  network: Network,
+  viewer: string | null,
+  wantNarrative: boolean
+) {
+  if (!isRawTxHex(rawTx)) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error: "Invalid raw transaction",
+        step: "validate",
+        status: 400,
+        message: "Raw transactions must be pasted as a hex-encoded serialized transaction.",
+      },
+      { status: 400 }
+    );
+  }
+
+  let parsed;
+
+  try {
+    parsed = parseRawStacksTransaction(rawTx, network === "auto" ? undefined : network);
+  } catch (error: any) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error: "Invalid raw transaction",
+        step: "decode",
+        status: 400,
+        message: "That hex could not be decoded as a Stacks transaction.",
+        note: error?.message || "deserialize failed",
+      },
+      { status: 400 }
+    );
+  }
+
+  const feeAnalysis = await feeAnalyzer.analyze(parsed).catch(() => null);
+  const explained = await withNarrative(
+    parsed,
+    explainTransaction(parsed, { viewer, feeAnalysis }),
+    wantNarrative
+  );
+
+  return NextResponse.json(
+    jsonSafe({
+      ok: true,
+      data: {
+        ...explained,
+        txid: parsed.txid,
+        network: parsed.network,
+        source: "raw transaction hex",
+      },
+    }),
+    { status: 200 }
+  );
+}
+
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json().catch(() => ({}));
@@ -91,6 +292,27 @@ export async function POST(req: NextRequest) {
     const input = String(body?.input || body?.txid || "").trim();
     const network = String(body?.network || "auto") as Network;
 
+    const rawTx = String(body?.rawTx || "").trim() || (isRawTxHex(input) ? input : "");
+    const viewer = String(body?.viewer || "").trim() || null;
+    const wantNarrative = body?.narrative === true;
+
+    if (viewer && !isStacksPrincipal(viewer)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: "Invalid viewer",
+          step: "validate",
+          status: 400,
+          message: "The viewer must be a Stacks address or contract principal.",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (rawTx) {
+      return explainRawTransaction(rawTx, network, viewer, wantNarrative);
+    }
+
     const txid = normalizeTxid(input);
 
     if (!txid) {
@@ -147,8 +369,41 @@ export async function POST(req: NextRequest) {
       detectedNetwork = fixedNetwork;
     }
 
+    if (isMultisigAddress(txJson?.sender_address) && !txJson?.raw_tx) {
+      const rawTx = await fetchRawTransactionHex(txid, detectedNetwork);
+      if (rawTx) txJson = { ...txJson, raw_tx: rawTx };
+    }
+
     const parsed = parseStacksTransaction(txJson, detectedNetwork);
-    const explained = explainTransaction(parsed);
+
+    if (parsed.failureReason?.source === "unknown" && parsed.contractId && parsed.txResult?.errorCode) {
+      const sourceCode = await fetchContractSource(parsed.contractId, detectedNetwork);
+      parsed.failureReason =
+        resolveClarityError(parsed.contractId, parsed.txResult.errorCode, sourceCode) ?? undefined;
+    }
+
+    const knownContract = lookupProtocol(parsed.contractId, detectedNetwork);
+    const priorContracts =
+      parsed.type === "contract_call" && parsed.sender && typeof parsed.nonce === "number" &&
+      knownContract?.confidence !== "high"
+        ? await fetchPriorContracts(parsed.sender, parsed.nonce, detectedNetwork)
+        : undefined;
+
+    const feeAnalysis = await feeAnalyzer.analyze(parsed).catch(() => null);
+    const prices = await quotesForTransaction(parsed);
+    const tokens = await tokensForTransaction(parsed, detectedNetwork);
+    const explained = await withNarrative(
+      parsed,
+      explainTransaction(parsed, {
+        viewer,
+        risk: { priorContracts },
+        feeAnalysis,
+        prices,
+        tokens,
+      }),
+      wantNarrative,
+      tokens
+    );
 
     return NextResponse.json(
       jsonSafe({
@@ -158,6 +413,7 @@ export async function POST(req: NextRequest) {
           txid,
           network: detectedNetwork,
           source,
+          priceNote: priceDataNote(),
         },
       }),
       { status: 200 }
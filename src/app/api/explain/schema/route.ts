@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { EXPLANATION_SCHEMA_VERSION } from "@/features/explain-transaction/types";
+import explanationSchema from "@/features/explain-transaction/explanation.schema.json";
+
+/**
+ * Serves the JSON Schema for `/api/explain` responses (the `data` field).
+ * Clients can compare `x-schema-version` with each response's `schemaVersion`.
+ */
+export async function GET() {
+  return NextResponse.json(explanationSchema, {
+    status: 200,
+    headers: {
+      "cache-control": "public, max-age=3600",
+      "x-schema-version": EXPLANATION_SCHEMA_VERSION,
+    },
+  });
+}
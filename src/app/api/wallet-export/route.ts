@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { EXPORT_FORMATS, ExportFormat, exportWalletActivity } from "@/features/wallet-export";
+
+type Network = "mainnet" | "testnet";
+
+function isStacksAddress(address: string) {
+  const a = (address || "").trim();
+  return /^(SP|SM|ST)[A-Z0-9]{20,}$/i.test(a);
+}
+
+function jsonSafe<T>(value: T): T {
+  return JSON.parse(
+    JSON.stringify(value, (_key, val) =>
+      typeof val === "bigint" ? val.toString() : val
+    )
+  );
+}
+
+function isoOrNull(value: string | null) {
+  return value && !Number.isNaN(Date.parse(value)) ? new Date(value).toISOString() : null;
+}
+
+/** GET so the page can link straight to the download. */
+export async function GET(req: NextRequest) {
+  try {
+    const params = req.nextUrl.searchParams;
+
+    const address = String(params.get("address") || "").trim();
+    const network: Network = params.get("network") === "testnet" ? "testnet" : "mainnet";
+    const format = (params.get("format") || "generic") as ExportFormat;
+
+    if (!address || !isStacksAddress(address)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: "That doesn’t look like a valid Stacks wallet address.",
+          step: "validate",
+          status: 400,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: "Unknown export format",
+          step: "validate",
+          status: 400,
+          message: `Use one of: ${EXPORT_FORMATS.join(", ")}.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await exportWalletActivity(address, network, {
+      format,
+      filters: { from: isoOrNull(params.get("from")), to: isoOrNull(params.get("to")) },
+    });
+
+    return new NextResponse(result.csv, {
+      status: 200,
+      headers: {
+        "content-type": "text/csv; charset=utf-8",
+        "content-disposition": `attachment; filename="${address}-${format}.csv"`,
+        "x-export-truncated": String(result.truncated),
+      },
+    });
+  } catch (err: any) {
+    return NextResponse.json(
+      jsonSafe({
+        ok: false,
+        error: "Server error while exporting wallet activity.",
+        step: "fetch",
+        status: err?.status || 500,
+        message: err?.message || "Unknown error",
+        source: err?.source,
+        note: err?.note,
+        raw: err?.raw,
+      }),
+      { status: err?.status || 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadWalletPortfolio } from "@/features/wallet-portfolio";
+
+type Network = "mainnet" | "testnet";
+
+function isStacksAddress(address: string) {
+  const a = (address || "").trim();
+  return /^(SP|SM|ST)[A-Z0-9]{20,}$/i.test(a);
+}
+
+function jsonSafe<T>(value: T): T {
+  return JSON.parse(
+    JSON.stringify(value, (_key, val) =>
+      typeof val === "bigint" ? val.toString() : val
+    )
+  );
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+
+    const address = String(body?.address || "").trim();
+    const network: Network = body?.network === "testnet" ? "testnet" : "mainnet";
+
+    if (!address || !isStacksAddress(address)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: "That doesn’t look like a valid Stacks wallet address.",
+          step: "validate",
+          status: 400,
+        },
+        { status: 400 }
+      );
+    }
+
+    const portfolio = await loadWalletPortfolio(address, network);
+
+    return NextResponse.json(jsonSafe({ ok: true, data: portfolio }), { status: 200 });
+  } catch (err: any) {
+    return NextResponse.json(
+      jsonSafe({
+        ok: false,
+        error: "Server error while loading the wallet portfolio.",
+        step: "fetch",
+        status: err?.status || 500,
+        message: err?.message || "Unknown error",
+        source: err?.source,
+        note: err?.note,
+        raw: err?.raw,
+      }),
+      { status: err?.status || 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { COST_BASIS_METHODS, CostBasisMethod, loadWalletReport } from "@/features/wallet-report";
+import { PriceProvider, createLocalPriceProvider, getDefaultPriceProvider } from "@/utils/priceProvider";
+import { replayFetchPage } from "@/utils/walletFilters";
+
+type Network = "mainnet" | "testnet";
+
+function isStacksAddress(address: string) {
+  const a = (address || "").trim();
+  return /^(SP|SM|ST)[A-Z0-9]{20,}$/i.test(a);
+}
+
+function jsonSafe<T>(value: T): T {
+  return JSON.parse(
+    JSON.stringify(value, (_key, val) =>
+      typeof val === "bigint" ? val.toString() : val
+    )
+  );
+}
+
+/**
+ * `recording` (from a previous `record: true` response) replays Hiro pages
+ * instead of fetching them, and `prices` ({ assets }, as in the local price
+ * file) replaces the configured price source, so a report can be rebuilt
+ * exactly.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+
+    const address = String(body?.address || "").trim();
+    const network: Network = body?.network === "testnet" ? "testnet" : "mainnet";
+    const method = (body?.method || "fifo") as CostBasisMethod;
+    const asOf = body?.asOf && !Number.isNaN(Date.parse(body.asOf)) ? String(body.asOf) : undefined;
+
+    if (!address || !isStacksAddress(address)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: "That doesn’t look like a valid Stacks wallet address.",
+          step: "validate",
+          status: 400,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!COST_BASIS_METHODS.includes(method)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: "Unknown cost basis method",
+          step: "validate",
+          status: 400,
+          message: `Use one of: ${COST_BASIS_METHODS.join(", ")}.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Gains cannot be worked out without prices, so missing price data is an error here.
+    let priceProvider: PriceProvider;
+    try {
+      priceProvider = body?.prices?.assets ? createLocalPriceProvider(body.prices, "request") : getDefaultPriceProvider();
+    } catch (error: any) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: "No price data",
+          step: "prices",
+          status: 503,
+          message: error?.message || "Prices are not configured.",
+        },
+        { status: 503 }
+      );
+    }
+
+    const report = await loadWalletReport(address, network, {
+      method,
+      asOf,
+      record: body?.record === true,
+      fetchPage: body?.recording ? replayFetchPage(body.recording) : undefined,
+      priceProvider,
+    });
+
+    return NextResponse.json(jsonSafe({ ok: true, data: report }), { status: 200 });
+  } catch (err: any) {
+    return NextResponse.json(
+      jsonSafe({
+        ok: false,
+        error: "Server error while building the wallet report.",
+        step: "fetch",
+        status: err?.status || 500,
+        message: err?.message || "Unknown error",
+        source: err?.source,
+        note: err?.note,
+        raw: err?.raw,
+      }),
+      { status: err?.status || 500 }
+    );
+  }
+}
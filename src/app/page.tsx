@@ -1,10 +1,61 @@
 "use client";
 
-import React, { useMemo, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { PROTOCOL_CATEGORY_LABELS, ProtocolCategory, listProtocols } from "@/utils/protocolRegistry";
 
 type Network = "auto" | "mainnet" | "testnet";
 type Mode = "transaction" | "wallet";
 
+type WalletFilterState = {
+  days: number | null;
+  types: string[];
+  direction: "in" | "out" | null;
+  statuses: string[];
+  assets: string[];
+  protocol: string;
+};
+
+const EMPTY_WALLET_FILTERS: WalletFilterState = {
+  days: null,
+  types: [],
+  direction: null,
+  statuses: [],
+  assets: [],
+  protocol: "",
+};
+
+const WALLET_TYPE_CHIPS = [
+  { value: "token_transfer", label: "STX transfers" },
+  { value: "contract_call", label: "Contract calls" },
+  { value: "smart_contract", label: "Deploys" },
+];
+
+const WALLET_ASSET_CHIPS = ["STX", "sBTC", "stSTX", "ALEX", "USDA"];
+
+function toggle(list: string[], value: string) {
+  return list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+}
+
+/** Body `filters` for `/api/explain-wallet`. */
+function walletFilterParams(state: WalletFilterState) {
+  return {
+    from: state.days ? new Date(Date.now() - state.days * 86_400_000).toISOString() : null,
+    types: state.types,
+    direction: state.direction,
+    statuses: state.statuses,
+    assets: state.assets,
+    protocols: state.protocol ? [state.protocol] : [],
+  };
+}
+
+/** Download link for `/api/wallet-export`; only the date filter applies to exports. */
+function walletExportHref(address: string, walletNetwork: string, format: string, state: WalletFilterState) {
+  const params = new URLSearchParams({ address, network: walletNetwork || "mainnet", format });
+  const from = walletFilterParams(state).from;
+  if (from) params.set("from", from);
+  return `/api/wallet-export?${params.toString()}`;
+}
+
 function cx(...classes: Array<string | false | null | undefined>) {
   return classes.filter(Boolean).join(" ");
 }
@@ -20,6 +71,12 @@ function isStacksAddress(address: string) {
   return /^(SP|SM|ST)[A-Z0-9]{20,}$/i.test(a);
 }
 
+function isRawTxHex(input: string) {
+  const t = (input || "").trim();
+  const s = t.startsWith("0x") || t.startsWith("0X") ? t.slice(2) : t;
+  return s.length > 64 && s.length % 2 === 0 && /^[0-9a-fA-F]+$/.test(s);
+}
+
 function extractTxid(input: string) {
   const raw = (input || "").trim();
 
@@ -69,6 +126,38 @@ function formatKind(kind: string) {
   return kind.split("_").join(" ");
 }
 
+/** " (~$41.20 at the time)" for historical USD values, "" when unknown. */
+function usdSuffix(value: any): string {
+  if (typeof value !== "number" || !Number.isFinite(value)) return "";
+  if (value > 0 && value < 0.01) return " (<$0.01 at the time)";
+  return ` (~$${value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} at the time)`;
+}
+
+/** Whole units for an activity card movement, or its base units when decimals are unknown. */
+function movementAmount(m: any): string {
+  return m.formattedAmount ?? m.amountStx ?? `${m.amount} base units of`;
+}
+
+/** "$1,234.50" or "−$12.00"; null when unknown. */
+function formatUsd(value: any): string | null {
+  if (typeof value !== "number" || !Number.isFinite(value)) return null;
+  const abs = Math.abs(value).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return `${value < 0 ? "−" : ""}$${abs}`;
+}
+
+function riskTone(severity?: string | null): "red" | "amber" | "blue" | "neutral" {
+  if (severity === "high") return "red";
+  if (severity === "medium") return "amber";
+  if (severity === "low") return "blue";
+  return "neutral";
+}
+
+function formatAsset(asset: string) {
+  if (!asset) return "token";
+  const [contractId, assetName] = String(asset).split("::");
+  return assetName || contractId.split(".")[1] || contractId;
+}
+
 function safeText(value: any): string {
   if (value === null || value === undefined) return "—";
   if (typeof value === "string") return value;
@@ -80,9 +169,35 @@ function safeText(value: any): string {
   }
 }
 
+const LIFECYCLE_EVENT_KINDS = new Set(["ft_mint", "ft_burn", "nft_mint", "nft_burn", "stx_burn", "stx_lock"]);
+
 function eventLine(ev: any): string {
   if (!ev || typeof ev !== "object") return safeText(ev);
 
+  if (ev.kind === "contract_log") {
+    const label = ev.action || ev.topic || "log";
+    return `${safeText(label)}: ${safeText(ev.repr ?? ev.value)}`;
+  }
+  if (ev.kind === "nft_mint") {
+    return `Minted NFT ${safeText(ev.tokenId || "")} of ${safeText(ev.asset)} to ${safeText(ev.recipient || "?")}`;
+  }
+  if (ev.kind === "nft_burn") {
+    return `Burned NFT ${safeText(ev.tokenId || "")} of ${safeText(ev.asset)} from ${safeText(ev.sender || "?")}`;
+  }
+  if (ev.kind === "ft_mint") {
+    return `Minted ${safeText(ev.amount)} of ${safeText(ev.asset)} to ${safeText(ev.recipient || "?")}`;
+  }
+  if (ev.kind === "ft_burn") {
+    return `Burned ${safeText(ev.amount)} of ${safeText(ev.asset)} from ${safeText(ev.sender || "?")}`;
+  }
+  if (ev.kind === "stx_burn") {
+    return `Burned ${safeText(ev.amountStx ?? ev.amountMicroStx)} STX from ${safeText(ev.sender || "?")}`;
+  }
+  if (ev.kind === "stx_lock") {
+    const unlock = ev.unlockHeight ? ` until burn block ${safeText(ev.unlockHeight)}` : "";
+    return `Locked ${safeText(ev.lockedAmountStx ?? ev.lockedAmountMicroStx)} STX for ${safeText(ev.lockedAddress || "?")}${unlock}`;
+  }
+
   if (ev.contractId) return safeText(ev.contractId);
   if (ev.asset) return safeText(ev.asset);
 
@@ -130,6 +245,31 @@ function Badge({
   );
 }
 
+function FilterChip({
+  active,
+  onClick,
+  children,
+}: {
+  active: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={cx(
+        "rounded-full border px-3 py-1 text-xs font-semibold transition",
+        active
+          ? "border-white/30 bg-white text-black"
+          : "border-white/10 bg-white/[0.04] text-white/70 hover:bg-white/[0.08]"
+      )}
+    >
+      {children}
+    </button>
+  );
+}
+
 function Card({
   title,
   subtitle,
@@ -226,16 +366,91 @@ function renderMemoCard(rawMemo?: string, decodedMemo?: string) {
   );
 }
 
+/** Wallet in the middle, counterparties on a ring around it. */
+function CounterpartyGraphView({
+  graph,
+  selected,
+  onSelect,
+}: {
+  graph: any;
+  selected: string | null;
+  onSelect: (principal: string | null) => void;
+}) {
+  const width = 560;
+  const height = 420;
+  const cxm = width / 2;
+  const cym = height / 2;
+  const radius = 160;
+  const nodes: any[] = graph.counterparties;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full">
+      {nodes.map((node, i) => {
+        const angle = (2 * Math.PI * i) / nodes.length - Math.PI / 2;
+        const x = cxm + radius * Math.cos(angle);
+        const y = cym + radius * Math.sin(angle);
+        const net = BigInt(node.stxReceivedMicro) - BigInt(node.stxSentMicro);
+        const stroke = net > 0n ? "#34d399" : net < 0n ? "#fbbf24" : "#7dd3fc";
+        const active = selected === node.principal;
+        const label = String(node.label);
+
+        return (
+          <g key={node.principal} onClick={() => onSelect(active ? null : node.principal)} className="cursor-pointer">
+            <line
+              x1={cxm}
+              y1={cym}
+              x2={x}
+              y2={y}
+              stroke={stroke}
+              strokeOpacity={active ? 0.9 : 0.45}
+              strokeWidth={1 + Math.min(6, Math.log2(node.txCount + 1) * 1.5)}
+            />
+            <circle cx={x} cy={y} r={active ? 9 : 7} fill={node.kind === "contract" ? "#a78bfa" : "#e2e8f0"} />
+            <text
+              x={x}
+              y={y + (y < cym ? -14 : 20)}
+              textAnchor="middle"
+              className="fill-white/70 text-[11px]"
+            >
+              {label.length > 22 ? `${label.slice(0, 21)}…` : label}
+            </text>
+          </g>
+        );
+      })}
+      <circle cx={cxm} cy={cym} r={12} fill="#38bdf8" />
+      <text x={cxm} y={cym + 28} textAnchor="middle" className="fill-white/80 text-[11px]">
+        {shortenAddr(graph.address)}
+      </text>
+    </svg>
+  );
+}
+
 export default function Page() {
   const [mode, setMode] = useState<Mode>("transaction");
   const [input, setInput] = useState("");
   const [network, setNetwork] = useState<Network>("auto");
+  const [wantNarrative, setWantNarrative] = useState(false);
+  const [question, setQuestion] = useState("");
+  const [walletFilters, setWalletFilters] = useState<WalletFilterState>(EMPTY_WALLET_FILTERS);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [walletTab, setWalletTab] = useState<"activity" | "story" | "counterparties" | "gains">("activity");
+  const [story, setStory] = useState<any | null>(null);
+  const [storyLoading, setStoryLoading] = useState(false);
+  const [portfolio, setPortfolio] = useState<any | null>(null);
+  const [graph, setGraph] = useState<any | null>(null);
+  const [graphLoading, setGraphLoading] = useState(false);
+  const [selectedParty, setSelectedParty] = useState<string | null>(null);
+  const [report, setReport] = useState<any | null>(null);
+  const [reportLoading, setReportLoading] = useState(false);
+  const [portfolioLoading, setPortfolioLoading] = useState(false);
+  const activityEndRef = useRef<HTMLDivElement | null>(null);
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<any | null>(null);
   const [walletResult, setWalletResult] = useState<any | null>(null);
   const [error, setError] = useState<any | null>(null);
 
   const extracted = useMemo(() => extractTxid(input), [input]);
+  const rawTxInput = useMemo(() => isRawTxHex(input), [input]);
 
   async function onExplain() {
     setError(null);
@@ -257,12 +472,16 @@ export default function Page() {
       try {
         const fixedNetwork = network === "testnet" ? "testnet" : "mainnet";
 
-        const res = await fetch("/api/explain-wallet", {
+        const asking = question.trim().length > 0;
+        const res = await fetch(asking ? "/api/ask" : "/api/explain-wallet", {
           method: "POST",
           headers: { "content-type": "application/json" },
           body: JSON.stringify({
             address: input.trim(),
             network: fixedNetwork,
+            ...(asking
+              ? { question: question.trim(), utcOffsetMinutes: -new Date().getTimezoneOffset() }
+              : { filters: walletFilterParams(walletFilters) }),
           }),
         });
 
@@ -274,6 +493,12 @@ export default function Page() {
         }
 
         setWalletResult(payload.data ?? payload);
+        setStory(null);
+        setGraph(null);
+        setSelectedParty(null);
+        setReport(null);
+        setWalletTab("activity");
+        loadPortfolio(input.trim(), fixedNetwork);
       } catch (e: any) {
         setError({
           error: "Network error while explaining wallet activity.",
@@ -290,7 +515,7 @@ export default function Page() {
 
     const txid = extracted.txid;
 
-    if (!txid || !isStacksTxid(txid)) {
+    if (!rawTxInput && (!txid || !isStacksTxid(txid))) {
       setError({
         error: "That doesn’t look like a valid Stacks transaction ID (64 hex characters).",
         step: "validate",
@@ -305,11 +530,16 @@ export default function Page() {
       const res = await fetch("/api/explain", {
         method: "POST",
         headers: { "content-type": "application/json" },
-        body: JSON.stringify({
-          input: input.trim(),
-          txid,
-          network,
-        }),
+        body: JSON.stringify(
+          rawTxInput
+            ? { rawTx: input.trim(), network, narrative: wantNarrative }
+            : {
+                input: input.trim(),
+                txid,
+                network,
+                narrative: wantNarrative,
+              }
+        ),
       });
 
       const ct = res.headers.get("content-type") || "";
@@ -345,6 +575,193 @@ export default function Page() {
     }
   }
 
+  const activityAddress = walletResult?.address;
+  const activityNetwork = walletResult?.network;
+
+  /** Fetches wallet activity for the current result's address; `cursor` appends, `all` walks every page. */
+  const loadWalletActivity = useCallback(async (options: { filters: WalletFilterState; cursor?: string; all?: boolean }) => {
+    if (!activityAddress) return;
+
+    const appending = Boolean(options.cursor);
+    if (appending) setLoadingMore(true);
+    else setLoading(true);
+
+    try {
+      const res = await fetch("/api/explain-wallet", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          address: activityAddress,
+          network: activityNetwork,
+          filters: walletFilterParams(options.filters),
+          cursor: options.cursor,
+          all: options.all,
+        }),
+      });
+
+      const payload = await res.json();
+
+      if (!res.ok || payload?.ok === false) {
+        setError(payload);
+        return;
+      }
+
+      const data = payload.data ?? payload;
+      setWalletResult((prev: any) => {
+        if (!appending || !prev) return data;
+        const activities = [...(prev.activities || []), ...(data.activities || [])];
+        return { ...data, activities, count: activities.length, scanned: (prev.scanned || 0) + (data.scanned || 0) };
+      });
+    } catch (e: any) {
+      setError({
+        error: "Network error while explaining wallet activity.",
+        step: "fetch",
+        message: e?.message || "Unknown error",
+        status: 0,
+      });
+    } finally {
+      if (appending) setLoadingMore(false);
+      else setLoading(false);
+    }
+  }, [activityAddress, activityNetwork]);
+
+  /** Holdings load beside the activity; a failure leaves the activity on screen. */
+  async function loadPortfolio(address: string, walletNetwork: string) {
+    setPortfolio(null);
+    setPortfolioLoading(true);
+    try {
+      const res = await fetch("/api/wallet-portfolio", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ address, network: walletNetwork }),
+      });
+      const payload = await res.json();
+      setPortfolio(!res.ok || payload?.ok === false ? { error: payload } : payload.data ?? payload);
+    } catch (e: any) {
+      setPortfolio({ error: { error: "Network error while loading holdings.", message: e?.message || "Unknown error" } });
+    } finally {
+      setPortfolioLoading(false);
+    }
+  }
+
+  async function openStoryTab() {
+    setWalletTab("story");
+    if (story || storyLoading || !walletResult?.address) return;
+
+    setStoryLoading(true);
+    try {
+      const res = await fetch("/api/wallet-story", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ address: walletResult.address, network: walletResult.network }),
+      });
+      const payload = await res.json();
+
+      if (!res.ok || payload?.ok === false) {
+        setError(payload);
+        return;
+      }
+
+      setStory(payload.data ?? payload);
+    } catch (e: any) {
+      setError({
+        error: "Network error while building the wallet story.",
+        step: "fetch",
+        message: e?.message || "Unknown error",
+        status: 0,
+      });
+    } finally {
+      setStoryLoading(false);
+    }
+  }
+
+  async function openGraphTab() {
+    setWalletTab("counterparties");
+    if (graph || graphLoading || !walletResult?.address) return;
+
+    setGraphLoading(true);
+    try {
+      const res = await fetch("/api/wallet-counterparties", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ address: walletResult.address, network: walletResult.network }),
+      });
+      const payload = await res.json();
+
+      if (!res.ok || payload?.ok === false) {
+        setError(payload);
+        return;
+      }
+
+      setGraph(payload.data ?? payload);
+    } catch (e: any) {
+      setError({
+        error: "Network error while building the counterparty graph.",
+        step: "fetch",
+        message: e?.message || "Unknown error",
+        status: 0,
+      });
+    } finally {
+      setGraphLoading(false);
+    }
+  }
+
+  /** Loads the gains report; changing `method` recomputes it. */
+  async function openGainsTab(method: string = report?.method || "fifo") {
+    setWalletTab("gains");
+    if (reportLoading || !walletResult?.address || report?.method === method) return;
+
+    setReportLoading(true);
+    try {
+      const res = await fetch("/api/wallet-report", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ address: walletResult.address, network: walletResult.network, method }),
+      });
+      const payload = await res.json();
+
+      if (!res.ok || payload?.ok === false) {
+        setError(payload);
+        return;
+      }
+
+      setReport(payload.data ?? payload);
+    } catch (e: any) {
+      setError({
+        error: "Network error while building the wallet report.",
+        step: "fetch",
+        message: e?.message || "Unknown error",
+        status: 0,
+      });
+    } finally {
+      setReportLoading(false);
+    }
+  }
+
+  function applyWalletFilters(next: WalletFilterState) {
+    setWalletFilters(next);
+    loadWalletActivity({ filters: next });
+  }
+
+  // Infinite scroll: load the next page once the end of the list comes into view.
+  const nextCursor = walletResult?.nextCursor;
+  useEffect(() => {
+    const node = activityEndRef.current;
+    if (!node || !nextCursor || loadingMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          loadWalletActivity({ filters: walletFilters, cursor: nextCursor });
+        }
+      },
+      { rootMargin: "400px" }
+    );
+
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [nextCursor, loadingMore, walletFilters, loadWalletActivity]);
+
   function onKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
     if (e.key === "Enter") {
       e.preventDefault();
@@ -352,7 +769,7 @@ export default function Page() {
     }
   }
 
-  async function openWalletTxInTransactionMode(txid: string, txNetwork?: string) {
+  async function openWalletTxInTransactionMode(txid: string, txNetwork?: string, viewer?: string) {
   if (!txid) return;
 
   const nextNetwork: Network =
@@ -376,6 +793,8 @@ export default function Page() {
         input: txid,
         txid,
         network: nextNetwork,
+        viewer,
+        narrative: wantNarrative,
       }),
     });
 
@@ -421,6 +840,8 @@ export default function Page() {
   const sender = result?.sender as string | undefined;
   const recipient = result?.recipientOrTarget as string | undefined;
   const contract = result?.contract as string | undefined;
+  const functionName = result?.functionName as string | undefined;
+  const functionArgs: any[] = Array.isArray(result?.functionArgs) ? result.functionArgs : [];
   const blockHeight = result?.blockHeight as number | undefined;
   const timeIso = result?.timeIso as string | undefined;
   const networkDetected = result?.network as string | undefined;
@@ -428,6 +849,12 @@ export default function Page() {
     result?.eventsCount ?? (Array.isArray(result?.events) ? result.events.length : 0);
   const events: any[] = Array.isArray(result?.events) ? result.events : [];
   const swapSummary = result?.swapSummary;
+  const riskFlags: any[] = Array.isArray(result?.riskFlags) ? result.riskFlags : [];
+  const balanceDeltas: any[] = Array.isArray(result?.balanceDeltas?.principals)
+    ? result.balanceDeltas.principals
+    : [];
+
+  const intentOnly = Boolean(result?.intentOnly);
 
   const postConditionMode = result?.postConditionMode as string | undefined;
   const postConditions: any[] = Array.isArray(result?.postConditions) ? result.postConditions : [];
@@ -436,7 +863,7 @@ export default function Page() {
   const topMemo = result?.memo as string | undefined;
   const topMemoDecoded = result?.memoDecoded as string | undefined;
 
-  const explorerUrl = txid
+  const explorerUrl = txid && !intentOnly
     ? `https://explorer.hiro.so/txid/${txid}${networkDetected === "testnet" ? "?chain=testnet" : ""}`
     : "";
 
@@ -520,16 +947,32 @@ export default function Page() {
                   className="w-full bg-transparent font-mono text-[13px] text-white/85 outline-none placeholder:text-white/25"
                   placeholder={
                     mode === "transaction"
-                      ? "0x... or https://explorer.hiro.so/txid/0x..."
+                      ? "0x... txid, https://explorer.hiro.so/txid/0x..., or raw tx hex"
                       : "SP... wallet address"
                   }
                 />
               </div>
+              {mode === "wallet" ? (
+                <div className="mt-2 rounded-2xl border border-white/10 bg-black/40 px-4 py-3">
+                  <input
+                    value={question}
+                    onChange={(e) => setQuestion(e.target.value)}
+                    onKeyDown={onKeyDown}
+                    className="w-full bg-transparent text-[13px] text-white/85 outline-none placeholder:text-white/25"
+                    placeholder="Optional question, e.g. What happened in my wallet yesterday?"
+                  />
+                </div>
+              ) : null}
               <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-white/40">
                 {mode === "transaction" ? (
                   <>
-                    <span>Tip: paste a txid or full explorer link.</span>
-                    {extracted.txid ? (
+                    <span>Tip: paste a txid, full explorer link, or raw transaction hex.</span>
+                    {rawTxInput ? (
+                      <>
+                        <span className="text-white/20">•</span>
+                        <span>Raw transaction detected, explained offline without Hiro.</span>
+                      </>
+                    ) : extracted.txid ? (
                       <>
                         <span className="text-white/20">•</span>
                         <span>Normalized:</span>
@@ -561,6 +1004,16 @@ export default function Page() {
                   ? "Auto tries mainnet → testnet."
                   : "Wallet mode uses mainnet unless testnet is selected."}
               </div>
+              {mode === "transaction" ? (
+                <label className="mt-2 flex items-center gap-2 text-xs text-white/55">
+                  <input
+                    type="checkbox"
+                    checked={wantNarrative}
+                    onChange={(e) => setWantNarrative(e.target.checked)}
+                  />
+                  Longer AI narrative
+                </label>
+              ) : null}
             </div>
 
             <button
@@ -627,123 +1080,647 @@ export default function Page() {
                 <CopyButton text={walletResult.address} />
               </div>
 
-              <div className="mt-4 text-lg font-semibold text-white/92">
-                Recent wallet activity for {shortenAddr(walletResult.address)}
-              </div>
+              {walletResult.answer ? (
+                <>
+                  <div className="mt-4 text-sm text-white/55">{safeText(walletResult.question)}</div>
+                  <div className="mt-2 text-lg font-semibold leading-relaxed text-white/92">
+                    {safeText(walletResult.answer)}
+                  </div>
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    <Badge>{safeText(walletResult.query?.range?.label)}</Badge>
+                    {(walletResult.query?.protocols || []).map((id: string) => (
+                      <Badge key={id} tone="purple">{safeText(id)}</Badge>
+                    ))}
+                    {(walletResult.query?.assets || []).map((asset: string) => (
+                      <Badge key={asset} tone="blue">{safeText(asset.toUpperCase())}</Badge>
+                    ))}
+                    {walletResult.query?.direction ? (
+                      <Badge tone={walletResult.query.direction === "in" ? "green" : "amber"}>
+                        {walletResult.query.direction === "in" ? "incoming" : "outgoing"}
+                      </Badge>
+                    ) : null}
+                    <Badge>{safeText(walletResult.scanned)} scanned</Badge>
+                  </div>
+                </>
+              ) : (
+                <div className="mt-4 text-lg font-semibold text-white/92">
+                  Recent wallet activity for {shortenAddr(walletResult.address)}
+                </div>
+              )}
             </div>
 
-            <Card
-              title="Wallet Activity"
-              subtitle="Most recent actions in plain English"
-              right={<Badge>{safeText(walletResult.count)}</Badge>}
-            >
-              {Array.isArray(walletResult.activities) && walletResult.activities.length > 0 ? (
-                <div className="space-y-4">
-                  {walletResult.activities.map((item: any, i: number) => (
-                    <div
-                      key={i}
-                      className="rounded-3xl border border-white/10 bg-gradient-to-r from-white/[0.04] to-white/[0.02] p-5"
-                    >
-                      <div className="flex flex-wrap items-start justify-between gap-3">
-                        <div>
-                          <div className="text-base font-semibold text-white/90">
-                            {safeText(item.action)}
-                          </div>
-                          <div className="mt-1 text-sm text-white/70">
-                            {safeText(item.summary)}
+            {!walletResult.answer ? (
+              <div className="flex gap-3">
+                <FilterChip active={walletTab === "activity"} onClick={() => setWalletTab("activity")}>
+                  Activity
+                </FilterChip>
+                <FilterChip active={walletTab === "story"} onClick={openStoryTab}>
+                  Story
+                </FilterChip>
+                <FilterChip active={walletTab === "counterparties"} onClick={openGraphTab}>
+                  Counterparties
+                </FilterChip>
+                <FilterChip active={walletTab === "gains"} onClick={() => openGainsTab()}>
+                  Gains
+                </FilterChip>
+              </div>
+            ) : null}
+
+            {walletTab === "story" && !walletResult.answer ? (
+              storyLoading ? (
+                <div className="rounded-3xl border border-white/10 bg-white/[0.03] p-5 text-sm text-white/65">
+                  Reading the wallet’s history…
+                </div>
+              ) : story ? (
+                <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+                  {story.sections.length === 0 ? (
+                    <div className="rounded-3xl border border-white/10 bg-black/25 p-6 text-sm text-white/55">
+                      This wallet has no history to tell a story about yet.
+                    </div>
+                  ) : null}
+                  {story.sections.map((section: any) => (
+                    <Card key={section.id} title={section.title} subtitle={section.description}>
+                      {(section.items || []).map((item: any, idx: number) => (
+                        <Row
+                          key={idx}
+                          k={item.label}
+                          v={
+                            item.txid ? (
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  openWalletTxInTransactionMode(item.txid, walletResult.network, walletResult.address)
+                                }
+                                className="text-sky-300 underline underline-offset-4 hover:text-sky-200"
+                              >
+                                {safeText(item.value)}
+                              </button>
+                            ) : (
+                              safeText(item.value)
+                            )
+                          }
+                        />
+                      ))}
+                    </Card>
+                  ))}
+                  {story.truncated ? (
+                    <div className="text-xs text-white/40 lg:col-span-2">
+                      Built from the most recent {safeText(story.transactionCount)} transactions; older history was not read.
+                    </div>
+                  ) : null}
+                </div>
+              ) : null
+            ) : null}
+
+            {walletTab === "counterparties" && !walletResult.answer ? (
+              graphLoading ? (
+                <div className="rounded-3xl border border-white/10 bg-white/[0.03] p-5 text-sm text-white/65">
+                  Reading the wallet’s history…
+                </div>
+              ) : graph ? (
+                <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+                  <Card
+                    title="Counterparty graph"
+                    subtitle="Line width grows with transactions; green lines brought in more STX than they took"
+                    right={<Badge>{safeText(graph.counterparties.length)}</Badge>}
+                  >
+                    {graph.counterparties.length === 0 ? (
+                      <div className="text-sm text-white/55">This wallet has not interacted with anyone yet.</div>
+                    ) : (
+                      <CounterpartyGraphView graph={graph} selected={selectedParty} onSelect={setSelectedParty} />
+                    )}
+                    {graph.omitted > 0 || graph.truncated ? (
+                      <div className="mt-3 text-xs text-white/40">
+                        {graph.omitted > 0 ? `${safeText(graph.omitted)} less frequent counterparties are not shown. ` : ""}
+                        {graph.truncated ? `Built from the latest ${safeText(graph.transactionCount)} transactions.` : ""}
+                      </div>
+                    ) : null}
+                  </Card>
+
+                  <Card title="Counterparties" subtitle="Select one to see what moved each way">
+                    {graph.counterparties.map((node: any) => (
+                      <div key={node.principal} className="border-b border-white/5 py-2 last:border-0">
+                        <button
+                          type="button"
+                          onClick={() => setSelectedParty(selectedParty === node.principal ? null : node.principal)}
+                          className="flex w-full items-center justify-between gap-3 text-left"
+                        >
+                          <span className={cx("text-sm", selectedParty === node.principal ? "text-sky-200" : "text-white/85")}>
+                            {safeText(node.label)}
+                          </span>
+                          <span className="flex gap-2">
+                            {node.protocol ? <Badge tone="purple">{safeText(node.protocol)}</Badge> : null}
+                            <Badge>{safeText(node.txCount)} tx</Badge>
+                          </span>
+                        </button>
+                        {selectedParty === node.principal ? (
+                          <div className="mt-2">
+                            <Row k="Principal" v={node.principal} mono />
+                            <Row k="STX sent" v={`${safeText(node.stxSent)} STX`} />
+                            <Row k="STX received" v={`${safeText(node.stxReceived)} STX`} />
+                            {node.assets
+                              .filter((a: any) => a.asset !== "STX")
+                              .map((a: any) => (
+                                <Row
+                                  key={a.asset}
+                                  k={a.nft ? `${safeText(a.symbol)} (NFT)` : safeText(a.symbol)}
+                                  v={`sent ${safeText(a.sent)} · received ${safeText(a.received)}`}
+                                />
+                              ))}
+                            <Row k="First seen" v={node.firstSeen ? new Date(node.firstSeen).toLocaleString() : "—"} />
+                            <Row k="Last seen" v={node.lastSeen ? new Date(node.lastSeen).toLocaleString() : "—"} />
+                            <div className="mt-2 flex flex-wrap gap-2">
+                              {node.txids.slice(0, 5).map((txid: string) => (
+                                <button
+                                  key={txid}
+                                  type="button"
+                                  onClick={() => openWalletTxInTransactionMode(txid, walletResult.network, walletResult.address)}
+                                  className="font-mono text-xs text-sky-300 underline underline-offset-4 hover:text-sky-200"
+                                >
+                                  {shortHash(txid)}
+                                </button>
+                              ))}
+                            </div>
                           </div>
+                        ) : null}
+                      </div>
+                    ))}
+                  </Card>
+                </div>
+              ) : null
+            ) : null}
+
+            {walletTab === "gains" && !walletResult.answer ? (
+              <div className="space-y-6">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="w-16 text-xs text-white/45">Method</span>
+                  {(["fifo", "lifo", "hifo"] as const).map((method) => (
+                    <FilterChip
+                      key={method}
+                      active={report?.method === method}
+                      onClick={() => openGainsTab(method)}
+                    >
+                      {method.toUpperCase()}
+                    </FilterChip>
+                  ))}
+                </div>
+
+                {reportLoading ? (
+                  <div className="rounded-3xl border border-white/10 bg-white/[0.03] p-5 text-sm text-white/65">
+                    Working out cost basis…
+                  </div>
+                ) : report ? (
+                  <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+                    <Card title="Totals" subtitle={`In USD, positions valued on ${safeText(report.asOf)}`}>
+                      <Row k="Realized gain" v={formatUsd(report.totals.realizedUsd) || "—"} />
+                      <Row k="Unrealized gain" v={formatUsd(report.totals.unrealizedUsd) || "—"} />
+                      <Row
+                        k="Fees paid"
+                        v={`${safeText(report.totals.feesStx)} STX${usdSuffix(report.totals.feesUsd)}`}
+                      />
+                      {report.totals.unresolvedDisposals > 0 ? (
+                        <div className="mt-2 text-xs text-amber-200/80">
+                          {safeText(report.totals.unresolvedDisposals)} disposals lack a price or an earlier purchase, so
+                          their gain is not counted.
                         </div>
+                      ) : null}
+                      <div className="mt-2 text-xs text-white/40">
+                        Prices from {safeText(report.priceSource)}.
+                        {report.truncated ? ` Built from the latest ${safeText(report.transactionCount)} transactions.` : ""}
+                      </div>
+                    </Card>
+
+                    <Card title="Positions" subtitle="Still held, with cost basis and unrealized gain">
+                      {report.positions.length === 0 ? (
+                        <div className="text-sm text-white/55">Nothing left from this history.</div>
+                      ) : (
+                        report.positions.map((p: any) => (
+                          <Row
+                            key={p.asset}
+                            k={`${safeText(p.formattedAmount ?? p.amount)} ${safeText(p.symbol)}`}
+                            v={`cost ${formatUsd(p.costBasisUsd) || "—"} · value ${formatUsd(p.valueUsd) || "—"} · ${
+                              formatUsd(p.unrealizedUsd) || "—"
+                            }`}
+                          />
+                        ))
+                      )}
+                    </Card>
+
+                    <Card title="Disposals" subtitle="Each asset given up, newest first" className="lg:col-span-2">
+                      {report.disposals.length === 0 ? (
+                        <div className="text-sm text-white/55">No disposals in this history.</div>
+                      ) : (
+                        report.disposals.map((d: any, idx: number) => (
+                          <Row
+                            key={idx}
+                            k={`${new Date(d.date).toLocaleDateString()} · ${d.kind} · ${safeText(
+                              d.formattedAmount ?? d.amount
+                            )} ${safeText(d.symbol)}`}
+                            v={
+                              <button
+                                type="button"
+                                onClick={() => openWalletTxInTransactionMode(d.txid, walletResult.network, walletResult.address)}
+                                className={cx(
+                                  "underline underline-offset-4",
+                                  d.gainUsd === null ? "text-white/55" : d.gainUsd < 0 ? "text-rose-200" : "text-emerald-200"
+                                )}
+                              >
+                                {d.gainUsd === null
+                                  ? "gain unknown"
+                                  : `${formatUsd(d.proceedsUsd)} − ${formatUsd(d.costBasisUsd)} = ${formatUsd(d.gainUsd)}`}
+                              </button>
+                            }
+                          />
+                        ))
+                      )}
+                    </Card>
+                  </div>
+                ) : null}
+              </div>
+            ) : null}
 
-                        <div className="flex flex-wrap gap-2">
-                          {item.amountStx !== null && item.amountStx !== undefined ? (
-                            <Badge tone="green">{safeText(item.amountStx)} STX</Badge>
-                          ) : null}
-                          {item.protocol ? <Badge tone="purple">{safeText(item.protocol)}</Badge> : null}
-                          {item.status ? (
-                            <Badge
-                              tone={String(item.status).toLowerCase().includes("fail") ? "red" : "green"}
-                            >
-                              {safeText(item.status)}
-                            </Badge>
-                          ) : null}
+            {walletTab === "activity" && !walletResult.answer ? (
+              <Card
+                title="Holdings"
+                subtitle="What this wallet holds now, and the activity that brought it in"
+                right={portfolio?.stx ? <Badge tone="green">{safeText(portfolio.stx.total)} STX</Badge> : null}
+              >
+                {portfolioLoading ? (
+                  <div className="text-sm text-white/65">Loading balances…</div>
+                ) : portfolio?.error ? (
+                  <div className="text-sm text-rose-200/80">
+                    {safeText(portfolio.error.error)} {safeText(portfolio.error.message)}
+                  </div>
+                ) : portfolio?.stx ? (
+                  <div className="space-y-4">
+                    <div className="grid gap-3 md:grid-cols-3">
+                      {[
+                        ["Total", portfolio.stx.total],
+                        ["Unlocked", portfolio.stx.unlocked],
+                        ["Locked", portfolio.stx.locked],
+                      ].map(([label, value]) => (
+                        <div key={label} className="rounded-2xl border border-white/10 bg-black/25 p-4">
+                          <div className="text-xs text-white/45">{label}</div>
+                          <div className="mt-2 text-sm text-white/85">{safeText(value)} STX</div>
                         </div>
+                      ))}
+                    </div>
+                    {portfolio.stx.unlockHeight ? (
+                      <div className="text-xs text-white/45">
+                        Locked STX unlock at Bitcoin block {safeText(portfolio.stx.unlockHeight)}.
                       </div>
+                    ) : null}
 
-                      <div className="mt-4 grid gap-3 md:grid-cols-2">
-                        <div className="rounded-2xl border border-white/10 bg-black/25 p-4">
-                          <div className="text-xs text-white/45">Transaction</div>
-                          <div className="mt-2 flex items-center justify-between gap-3">
-                            <div className="font-mono text-xs text-white/75">
-                              {shortHash(safeText(item.txid))}
+                    <div>
+                      <div className="text-xs text-white/45">Tokens</div>
+                      {portfolio.tokens.length === 0 ? (
+                        <div className="mt-2 text-sm text-white/55">No SIP-010 tokens.</div>
+                      ) : (
+                        portfolio.tokens.map((token: any) => (
+                          <Row
+                            key={token.asset}
+                            k={token.name}
+                            v={
+                              <div className="flex flex-wrap items-center justify-end gap-2">
+                                <span>
+                                  {safeText(token.formatted)} {token.decimals === null ? "base units of " : ""}
+                                  {safeText(token.symbol)}
+                                </span>
+                                {token.acquiredIn.map((src: any) => (
+                                  <button
+                                    key={src.txid}
+                                    type="button"
+                                    onClick={() =>
+                                      openWalletTxInTransactionMode(src.txid, walletResult.network, walletResult.address)
+                                    }
+                                    className="font-mono text-xs text-sky-300 underline underline-offset-4 hover:text-sky-200"
+                                  >
+                                    {shortHash(src.txid)}
+                                  </button>
+                                ))}
+                              </div>
+                            }
+                          />
+                        ))
+                      )}
+                    </div>
+
+                    <div>
+                      <div className="text-xs text-white/45">NFTs</div>
+                      {portfolio.nftCollections.length === 0 ? (
+                        <div className="mt-2 text-sm text-white/55">No NFTs.</div>
+                      ) : (
+                        portfolio.nftCollections.map((collection: any) => (
+                          <div key={collection.asset} className="mt-2 rounded-2xl border border-white/10 bg-black/25 p-4">
+                            <div className="flex items-center justify-between gap-3">
+                              <div className="text-sm text-white/85">{safeText(collection.name)}</div>
+                              <Badge tone="purple">{safeText(collection.count)}</Badge>
+                            </div>
+                            <div className="mt-2 flex flex-wrap gap-2">
+                              {collection.items.map((nft: any) =>
+                                nft.acquiredIn ? (
+                                  <button
+                                    key={nft.tokenId}
+                                    type="button"
+                                    onClick={() =>
+                                      openWalletTxInTransactionMode(
+                                        nft.acquiredIn.txid,
+                                        walletResult.network,
+                                        walletResult.address
+                                      )
+                                    }
+                                    className="rounded-full border border-sky-500/25 bg-sky-500/10 px-3 py-1 text-xs text-sky-200 hover:bg-sky-500/15"
+                                  >
+                                    {safeText(nft.tokenId)}
+                                  </button>
+                                ) : (
+                                  <Badge key={nft.tokenId}>{safeText(nft.tokenId)}</Badge>
+                                )
+                              )}
                             </div>
-                            {item.txid ? <CopyButton text={item.txid} /> : null}
                           </div>
-                        </div>
+                        ))
+                      )}
+                    </div>
 
-                        <div className="rounded-2xl border border-white/10 bg-black/25 p-4">
-                          <div className="text-xs text-white/45">Time</div>
-                          <div className="mt-2 text-sm text-white/75">
-                            {item.timeIso ? new Date(item.timeIso).toLocaleString() : "—"}
+                    {portfolio.historyTruncated ? (
+                      <div className="text-xs text-white/40">
+                        Sources come from the latest {safeText(portfolio.historyScanned)} transactions; older holdings may not link to one.
+                      </div>
+                    ) : null}
+                  </div>
+                ) : null}
+              </Card>
+            ) : null}
+
+            {walletTab === "activity" && !walletResult.answer ? (
+              <div className="rounded-3xl border border-white/10 bg-white/[0.03] p-5">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="w-16 text-xs text-white/45">When</span>
+                  {[null, 7, 30, 90].map((days) => (
+                    <FilterChip
+                      key={String(days)}
+                      active={walletFilters.days === days}
+                      onClick={() => applyWalletFilters({ ...walletFilters, days })}
+                    >
+                      {days ? `${days} days` : "Any time"}
+                    </FilterChip>
+                  ))}
+                </div>
+                <div className="mt-3 flex flex-wrap items-center gap-2">
+                  <span className="w-16 text-xs text-white/45">Type</span>
+                  {WALLET_TYPE_CHIPS.map((chip) => (
+                    <FilterChip
+                      key={chip.value}
+                      active={walletFilters.types.includes(chip.value)}
+                      onClick={() => applyWalletFilters({ ...walletFilters, types: toggle(walletFilters.types, chip.value) })}
+                    >
+                      {chip.label}
+                    </FilterChip>
+                  ))}
+                  {(["in", "out"] as const).map((direction) => (
+                    <FilterChip
+                      key={direction}
+                      active={walletFilters.direction === direction}
+                      onClick={() =>
+                        applyWalletFilters({
+                          ...walletFilters,
+                          direction: walletFilters.direction === direction ? null : direction,
+                        })
+                      }
+                    >
+                      {direction === "in" ? "Incoming" : "Outgoing"}
+                    </FilterChip>
+                  ))}
+                  {["success", "failed"].map((status) => (
+                    <FilterChip
+                      key={status}
+                      active={walletFilters.statuses.includes(status)}
+                      onClick={() =>
+                        applyWalletFilters({ ...walletFilters, statuses: toggle(walletFilters.statuses, status) })
+                      }
+                    >
+                      {status === "success" ? "Succeeded" : "Failed"}
+                    </FilterChip>
+                  ))}
+                </div>
+                <div className="mt-3 flex flex-wrap items-center gap-2">
+                  <span className="w-16 text-xs text-white/45">Asset</span>
+                  {WALLET_ASSET_CHIPS.map((asset) => (
+                    <FilterChip
+                      key={asset}
+                      active={walletFilters.assets.includes(asset.toLowerCase())}
+                      onClick={() =>
+                        applyWalletFilters({ ...walletFilters, assets: toggle(walletFilters.assets, asset.toLowerCase()) })
+                      }
+                    >
+                      {asset}
+                    </FilterChip>
+                  ))}
+                  <select
+                    value={walletFilters.protocol}
+                    onChange={(e) => applyWalletFilters({ ...walletFilters, protocol: e.target.value })}
+                    className="rounded-full border border-white/10 bg-black/40 px-3 py-1 text-xs text-white/75 outline-none"
+                  >
+                    <option value="">Any protocol</option>
+                    {listProtocols().map((protocol) => (
+                      <option key={protocol.id} value={protocol.id}>
+                        {protocol.name}
+                      </option>
+                    ))}
+                  </select>
+                  {JSON.stringify(walletFilters) !== JSON.stringify(EMPTY_WALLET_FILTERS) ? (
+                    <button
+                      type="button"
+                      onClick={() => applyWalletFilters(EMPTY_WALLET_FILTERS)}
+                      className="text-xs text-sky-300 underline underline-offset-4 hover:text-sky-200"
+                    >
+                      Clear filters
+                    </button>
+                  ) : null}
+                </div>
+                <div className="mt-3 flex flex-wrap items-center gap-2">
+                  <span className="w-16 text-xs text-white/45">Export</span>
+                  {[
+                    ["generic", "CSV"],
+                    ["koinly", "Koinly"],
+                    ["cointracker", "CoinTracker"],
+                  ].map(([format, label]) => (
+                    <a
+                      key={format}
+                      href={walletExportHref(walletResult.address, walletResult.network, format, walletFilters)}
+                      className="rounded-full border border-white/10 bg-white/5 px-3 py-1 text-xs text-white/70 transition hover:bg-white/10"
+                    >
+                      {label}
+                    </a>
+                  ))}
+                </div>
+              </div>
+            ) : null}
+
+            {walletTab === "activity" || walletResult.answer ? (
+              <Card
+                title="Wallet Activity"
+                subtitle="Most recent actions in plain English"
+                right={<Badge>{safeText(walletResult.count)}</Badge>}
+              >
+                {Array.isArray(walletResult.activities) && walletResult.activities.length > 0 ? (
+                  <div className="space-y-4">
+                    {walletResult.activities.map((item: any, i: number) => (
+                      <div
+                        key={i}
+                        className="rounded-3xl border border-white/10 bg-gradient-to-r from-white/[0.04] to-white/[0.02] p-5"
+                      >
+                        <div className="flex flex-wrap items-start justify-between gap-3">
+                          <div>
+                            <div className="text-base font-semibold text-white/90">
+                              {safeText(item.action)}
+                            </div>
+                            <div className="mt-1 text-sm text-white/70">
+                              {safeText(item.summary)}
+                            </div>
                           </div>
-                        </div>
 
-                        <div className="rounded-2xl border border-white/10 bg-black/25 p-4">
-                          <div className="text-xs text-white/45">Sender</div>
-                          <div className="mt-2 font-mono text-xs text-white/75">
-                            {item.sender ? shortenAddr(item.sender) : "—"}
+                          <div className="flex flex-wrap gap-2">
+                            {(item.sent || []).map((m: any, idx: number) => (
+                              <Badge key={`sent-${idx}`} tone="amber">
+                                −{safeText(movementAmount(m))} {safeText(m.symbol)}{usdSuffix(m.usd)}
+                              </Badge>
+                            ))}
+                            {(item.received || []).map((m: any, idx: number) => (
+                              <Badge key={`received-${idx}`} tone="green">
+                                +{safeText(movementAmount(m))} {safeText(m.symbol)}{usdSuffix(m.usd)}
+                              </Badge>
+                            ))}
+                            {(item.nftsLost || []).map((n: any, idx: number) => (
+                              <Badge key={`nft-lost-${idx}`} tone="amber">
+                                −NFT {safeText(n.tokenId)}
+                              </Badge>
+                            ))}
+                            {(item.nftsGained || []).map((n: any, idx: number) => (
+                              <Badge key={`nft-gained-${idx}`} tone="green">
+                                +NFT {safeText(n.tokenId)}
+                              </Badge>
+                            ))}
+                            {item.protocol ? (
+                              <Badge tone={item.protocolInfo?.confidence === "low" ? "amber" : "purple"}>
+                                {safeText(item.protocol)}
+                              </Badge>
+                            ) : null}
+                            {item.status ? (
+                              <Badge
+                                tone={String(item.status).toLowerCase().includes("fail") ? "red" : "green"}
+                              >
+                                {safeText(item.status)}
+                              </Badge>
+                            ) : null}
                           </div>
                         </div>
 
-                        <div className="rounded-2xl border border-white/10 bg-black/25 p-4">
-                          <div className="text-xs text-white/45">Recipient / Contract</div>
-                          <div className="mt-2 font-mono text-xs text-white/75">
-                            {item.recipient
-                              ? shortenAddr(item.recipient)
-                              : item.contract
-                              ? shortenAddr(item.contract)
-                              : "—"}
+                        {Array.isArray(item.riskFlags) && item.riskFlags.length > 0 ? (
+                          <div className="mt-3 space-y-1">
+                            {item.riskFlags.map((flag: any, idx: number) => (
+                              <div key={idx} className="flex flex-wrap items-center gap-2 text-xs text-white/65">
+                                <Badge tone={riskTone(flag.severity)}>{safeText(flag.severity)}</Badge>
+                                <span>{safeText(flag.title)}</span>
+                              </div>
+                            ))}
+                          </div>
+                        ) : null}
+
+                        <div className="mt-4 grid gap-3 md:grid-cols-2">
+                          <div className="rounded-2xl border border-white/10 bg-black/25 p-4">
+                            <div className="text-xs text-white/45">Transaction</div>
+                            <div className="mt-2 flex items-center justify-between gap-3">
+                              <div className="font-mono text-xs text-white/75">
+                                {shortHash(safeText(item.txid))}
+                              </div>
+                              {item.txid ? <CopyButton text={item.txid} /> : null}
+                            </div>
+                          </div>
+
+                          <div className="rounded-2xl border border-white/10 bg-black/25 p-4">
+                            <div className="text-xs text-white/45">Time</div>
+                            <div className="mt-2 text-sm text-white/75">
+                              {item.timeIso ? new Date(item.timeIso).toLocaleString() : "—"}
+                            </div>
+                          </div>
+
+                          <div className="rounded-2xl border border-white/10 bg-black/25 p-4">
+                            <div className="text-xs text-white/45">Sender</div>
+                            <div className="mt-2 font-mono text-xs text-white/75">
+                              {item.sender ? shortenAddr(item.sender) : "—"}
+                            </div>
+                          </div>
+
+                          <div className="rounded-2xl border border-white/10 bg-black/25 p-4">
+                            <div className="text-xs text-white/45">Recipient / Contract</div>
+                            <div className="mt-2 font-mono text-xs text-white/75">
+                              {item.recipient
+                                ? shortenAddr(item.recipient)
+                                : item.contract
+                                ? shortenAddr(item.contract)
+                                : "—"}
+                            </div>
                           </div>
                         </div>
-                      </div>
 
-                      <div className="mt-4 flex flex-wrap gap-3">
-                        {item.txid ? (
-                          <button
-                            type="button"
-                            onClick={() =>
-                              openWalletTxInTransactionMode(
-                                item.txid,
-                                walletResult?.network
-                              )
-                            }
-                            className="rounded-2xl border border-sky-500/25 bg-sky-500/10 px-4 py-2 text-sm font-semibold text-sky-200 transition hover:bg-sky-500/15"
-                          >
-                            Explain this tx
-                          </button>
-                        ) : null}
+                        <div className="mt-4 flex flex-wrap gap-3">
+                          {item.txid ? (
+                            <button
+                              type="button"
+                              onClick={() =>
+                                openWalletTxInTransactionMode(
+                                  item.txid,
+                                  walletResult?.network,
+                                  walletResult?.address
+                                )
+                              }
+                              className="rounded-2xl border border-sky-500/25 bg-sky-500/10 px-4 py-2 text-sm font-semibold text-sky-200 transition hover:bg-sky-500/15"
+                            >
+                              Explain this tx
+                            </button>
+                          ) : null}
 
-                        {item.txid ? (
-                          <a
-                            href={`https://explorer.hiro.so/txid/${item.txid}${
-                              walletResult?.network === "testnet" ? "?chain=testnet" : ""
-                            }`}
-                            target="_blank"
-                            rel="noreferrer"
-                            className="rounded-2xl border border-white/10 bg-white/5 px-4 py-2 text-sm font-semibold text-white/75 transition hover:bg-white/10"
-                          >
-                            Open in Hiro
-                          </a>
-                        ) : null}
+                          {item.txid ? (
+                            <a
+                              href={`https://explorer.hiro.so/txid/${item.txid}${
+                                walletResult?.network === "testnet" ? "?chain=testnet" : ""
+                              }`}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="rounded-2xl border border-white/10 bg-white/5 px-4 py-2 text-sm font-semibold text-white/75 transition hover:bg-white/10"
+                            >
+                              Open in Hiro
+                            </a>
+                          ) : null}
+                        </div>
                       </div>
-                    </div>
-                  ))}
-                </div>
-              ) : (
-                <div className="rounded-3xl border border-white/10 bg-black/25 p-6 text-sm text-white/55">
-                  No recent wallet activity found.
-                </div>
-              )}
-            </Card>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="rounded-3xl border border-white/10 bg-black/25 p-6 text-sm text-white/55">
+                    No recent wallet activity found.
+                  </div>
+                )}
+
+                {walletResult.hasMore ? (
+                  <div ref={activityEndRef} className="mt-4 flex items-center justify-between gap-3 text-xs text-white/45">
+                    <span>
+                      {loadingMore ? "Loading more…" : `${safeText(walletResult.scanned)} transactions scanned so far.`}
+                    </span>
+                    <button
+                      type="button"
+                      disabled={loading || loadingMore}
+                      onClick={() => loadWalletActivity({ filters: walletFilters, all: true })}
+                      className="rounded-xl border border-white/10 bg-white/5 px-3 py-2 font-semibold text-white/75 transition hover:bg-white/10 disabled:cursor-not-allowed"
+                    >
+                      Load all
+                    </button>
+                  </div>
+                ) : null}
+              </Card>
+            ) : null}
           </div>
         ) : null}
 
@@ -758,6 +1735,10 @@ export default function Page() {
                   </Badge>
                 ) : null}
                 {status ? <Badge tone={failed ? "red" : "green"}>{status}</Badge> : null}
+                {intentOnly ? <Badge tone="amber">Intent only · not broadcast</Badge> : null}
+                {result?.viewer ? (
+                  <Badge tone="blue">Viewing as {shortenAddr(String(result.viewer))}</Badge>
+                ) : null}
               </div>
 
               {txid ? (
@@ -772,6 +1753,23 @@ export default function Page() {
               {summary}
             </div>
 
+            {result?.narrative?.source === "llm" ? (
+              <div className="mt-4 rounded-2xl border border-white/10 bg-black/25 p-4">
+                <div className="flex items-center gap-2">
+                  <Badge tone="purple">AI narrative</Badge>
+                  {result.narrative.model ? (
+                    <span className="text-xs text-white/40">{safeText(result.narrative.model)}</span>
+                  ) : null}
+                </div>
+                <p className="mt-2 text-sm leading-relaxed text-white/80">{safeText(result.narrative.text)}</p>
+                <div className="mt-2 text-xs text-white/35">Every number was checked against the transaction data.</div>
+              </div>
+            ) : result?.narrative?.fallbackReason ? (
+              <div className="mt-3 text-xs text-white/40">
+                Showing the rule-based summary: {safeText(result.narrative.fallbackReason)}.
+              </div>
+            ) : null}
+
             <div className="mt-4 flex flex-wrap gap-2">
               {type ? <Badge>{formatKind(type)}</Badge> : null}
               {feeStx ? <Badge>{safeText(feeStx)} STX fee</Badge> : null}
@@ -808,8 +1806,44 @@ export default function Page() {
                 mono
               />
               <Row k="Type" v={type ? formatKind(type) : "—"} />
-              <Row k="Fee" v={feeStx ? `${safeText(feeStx)} STX` : "—"} />
-              <Row k="Amount" v={amountStx ? `${safeText(amountStx)} STX` : "—"} />
+              <Row
+                k="Fee"
+                v={
+                  feeStx ? (
+                    <span className="inline-flex flex-col items-end">
+                      <span>{safeText(feeStx)} STX</span>
+                      {result?.feeAnalysis && result.feeAnalysis.basis !== "none" ? (
+                        <span className="text-xs text-white/45">{safeText(result.feeAnalysis.label)}</span>
+                      ) : null}
+                    </span>
+                  ) : (
+                    "—"
+                  )
+                }
+              />
+              {typeof result?.feeAnalysis?.feePerByteMicroStx === "number" ? (
+                <Row
+                  k="Fee per byte"
+                  v={`${safeText(result.feeAnalysis.feePerByteMicroStx)} µSTX · ${safeText(result.feeAnalysis.sizeBytes)} bytes`}
+                />
+              ) : null}
+              <Row
+                k="Amount"
+                v={amountStx ? `${safeText(amountStx)} STX${usdSuffix(result?.amountUsd)}` : "—"}
+              />
+              {result?.txResult?.repr ? (
+                <Row
+                  k="Result"
+                  v={
+                    result.failureLabel ? (
+                      <span className="text-rose-200">failed with {safeText(result.failureLabel)}</span>
+                    ) : (
+                      <span className="font-mono">{safeText(result.txResult.repr)}</span>
+                    )
+                  }
+                />
+              ) : null}
+              <Row k="Nonce" v={typeof result?.nonce === "number" ? result.nonce : "—"} />
               <Row k="Block" v={typeof blockHeight === "number" ? blockHeight : "—"} />
               <Row k="Time" v={timeIso ? new Date(timeIso).toLocaleString() : "—"} />
               <Row
@@ -843,8 +1877,90 @@ export default function Page() {
                 v={contract ? <span className="font-mono">{shortenAddr(contract)}</span> : "—"}
                 mono
               />
+              {result?.protocolInfo ? (
+                <Row
+                  k="Protocol"
+                  v={
+                    <span className="inline-flex flex-wrap items-center gap-2">
+                      <a
+                        className="text-sky-300 underline underline-offset-4 hover:text-sky-200"
+                        href={result.protocolInfo.website}
+                        target="_blank"
+                        rel="noreferrer"
+                      >
+                        {safeText(result.protocolInfo.name)}
+                      </a>
+                      <Badge tone="purple">
+                        {safeText(PROTOCOL_CATEGORY_LABELS[result.protocolInfo.category as ProtocolCategory])}
+                      </Badge>
+                      {result.protocolInfo.confidence === "low" ? (
+                        <Badge tone="amber">Name match only</Badge>
+                      ) : null}
+                    </span>
+                  }
+                />
+              ) : null}
+              {result?.sponsored ? (
+                <Row
+                  k="Fee paid by sponsor"
+                  v={
+                    result?.sponsor ? (
+                      <span className="font-mono">{shortenAddr(String(result.sponsor))}</span>
+                    ) : (
+                      "Unknown sponsor"
+                    )
+                  }
+                  mono
+                />
+              ) : null}
+              {result?.spendingCondition?.type === "multi_sig" ? (
+                <Row
+                  k="Signers"
+                  v={
+                    Array.isArray(result.spendingCondition.signers) &&
+                    result.spendingCondition.signers.length > 0
+                      ? `${safeText(result.spendingCondition.signatureCount)} of ${
+                          result.spendingCondition.signers.length
+                        } signed${
+                          result.spendingCondition.signaturesRequired
+                            ? ` · ${safeText(result.spendingCondition.signaturesRequired)} required`
+                            : ""
+                        }`
+                      : "Multisig account"
+                  }
+                />
+              ) : null}
             </Card>
 
+            {functionArgs.length > 0 ? (
+              <div className="lg:col-span-2">
+                <Card
+                  title="Function Arguments"
+                  subtitle={functionName ? `Decoded arguments passed to ${functionName}` : "Decoded contract call arguments"}
+                  right={<Badge>{functionArgs.length}</Badge>}
+                >
+                  <div className="space-y-3">
+                    {functionArgs.map((arg, i) => (
+                      <div
+                        key={i}
+                        className="flex flex-wrap items-start justify-between gap-3 rounded-2xl border border-white/10 bg-black/25 p-4"
+                      >
+                        <div>
+                          <div className="text-sm font-semibold text-white/90">
+                            {safeText(arg.name || `Argument #${i + 1}`)}
+                          </div>
+                          <div className="mt-1 break-all font-mono text-xs text-white/70">
+                            {safeText(arg.display)}
+                          </div>
+                        </div>
+                        {arg.type ? <Badge tone="blue">{safeText(arg.type)}</Badge> : null}
+                      </div>
+                    ))}
+                  </div>
+                </Card>
+              </div>
+            ) : null}
+
             {(topMemo || topMemoDecoded) ? (
               <div className="lg:col-span-2">
                 <Card
@@ -861,7 +1977,7 @@ export default function Page() {
               <div className="lg:col-span-2">
                 <Card
                   title="Swap Summary"
-                  subtitle="Detected from transaction events"
+                  subtitle="Computed from net balance changes"
                   right={<Badge tone="purple">Swap</Badge>}
                   className="bg-gradient-to-r from-fuchsia-500/[0.08] via-white/[0.04] to-emerald-500/[0.08]"
                 >
@@ -874,6 +1990,9 @@ export default function Page() {
                       <div className="mt-1 font-mono text-xs text-white/55">
                         {safeText(swapSummary.tokenIn?.asset || "—")}
                       </div>
+                      {usdSuffix(swapSummary.tokenIn?.usd) ? (
+                        <div className="mt-1 text-xs text-white/45">{usdSuffix(swapSummary.tokenIn?.usd).trim()}</div>
+                      ) : null}
                     </div>
 
                     <div className="flex items-center justify-center text-3xl text-white/65">→</div>
@@ -886,9 +2005,61 @@ export default function Page() {
                       <div className="mt-1 font-mono text-xs text-white/55">
                         {safeText(swapSummary.tokenOut?.asset || "—")}
                       </div>
+                      {usdSuffix(swapSummary.tokenOut?.usd) ? (
+                        <div className="mt-1 text-xs text-white/45">{usdSuffix(swapSummary.tokenOut?.usd).trim()}</div>
+                      ) : null}
                     </div>
                   </div>
 
+                  {swapSummary.route?.path?.length > 1 ? (
+                    <div className="mt-4 space-y-3 rounded-2xl border border-white/10 bg-black/30 p-4">
+                      <div className="flex flex-wrap items-center gap-2 text-sm text-white/85">
+                        {swapSummary.route.path.map((token: string, idx: number) => (
+                          <React.Fragment key={`${token}-${idx}`}>
+                            {idx > 0 ? <span className="text-white/40">→</span> : null}
+                            <Badge tone="blue">{formatAsset(token)}</Badge>
+                          </React.Fragment>
+                        ))}
+                      </div>
+
+                      {swapSummary.route.hops.map((hop: any, idx: number) => (
+                        <div key={idx} className="flex flex-wrap items-center gap-2 text-xs text-white/60">
+                          <span className="text-white/40">Hop {idx + 1}</span>
+                          <span>
+                            {safeText(hop.amountIn ?? "?")} {formatAsset(hop.tokenIn)} →{" "}
+                            {safeText(hop.amountOut ?? "?")} {formatAsset(hop.tokenOut)}
+                          </span>
+                          {hop.pool ? <span className="font-mono text-white/45">{shortenAddr(hop.pool)}</span> : null}
+                          {!hop.observed ? <Badge tone="amber">From arguments</Badge> : null}
+                        </div>
+                      ))}
+
+                      {swapSummary.route.effectivePrice ? (
+                        <Row
+                          k="Effective price"
+                          v={`${swapSummary.route.effectivePrice} ${formatAsset(
+                            swapSummary.route.path[swapSummary.route.path.length - 1]
+                          )} per ${formatAsset(swapSummary.route.path[0])}`}
+                        />
+                      ) : null}
+                      {swapSummary.route.minimumReceived ? (
+                        <Row
+                          k="Minimum received"
+                          v={
+                            typeof swapSummary.route.slippageMarginPct === "number"
+                              ? `${swapSummary.route.minimumReceived} (settled ${swapSummary.route.slippageMarginPct}% above)`
+                              : swapSummary.route.minimumReceived
+                          }
+                        />
+                      ) : null}
+                      {swapSummary.route.mismatches?.map((m: string, idx: number) => (
+                        <div key={idx} className="text-xs text-amber-200">
+                          {safeText(m)}
+                        </div>
+                      ))}
+                    </div>
+                  ) : null}
+
                   {swapSummary.note ? (
                     <div className="mt-4 text-xs text-white/45">{safeText(swapSummary.note)}</div>
                   ) : null}
@@ -896,6 +2067,83 @@ export default function Page() {
               </div>
             ) : null}
 
+            {riskFlags.length > 0 ? (
+              <div className="lg:col-span-2">
+                <Card
+                  title="Risk & Safety"
+                  subtitle="Warnings worth a second look"
+                  right={<Badge tone={riskTone(result?.riskLevel)}>{safeText(result?.riskLevel)}</Badge>}
+                >
+                  <div className="space-y-3">
+                    {riskFlags.map((flag: any, idx: number) => (
+                      <div key={idx} className="rounded-2xl border border-white/10 bg-black/30 p-4">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Badge tone={riskTone(flag.severity)}>{safeText(flag.severity)}</Badge>
+                          <span className="text-sm font-semibold text-white/90">{safeText(flag.title)}</span>
+                        </div>
+                        <div className="mt-2 text-sm text-white/70">{safeText(flag.explanation)}</div>
+                      </div>
+                    ))}
+                  </div>
+                </Card>
+              </div>
+            ) : null}
+
+            {balanceDeltas.length > 0 ? (
+              <div className="lg:col-span-2">
+                <Card
+                  title="Balance Changes"
+                  subtitle="Net change per address, fee shown separately"
+                  right={
+                    result?.balanceDeltas?.fee ? (
+                      <Badge tone="neutral">Fee {safeText(result.balanceDeltas.fee.amountStx)} STX</Badge>
+                    ) : null
+                  }
+                >
+                  <div className="space-y-3">
+                    {balanceDeltas.map((row: any) => {
+                      const changes: string[] = [];
+                      if (row.stxMicro && row.stxMicro !== "0") {
+                        changes.push(`${row.stx.startsWith("-") ? "" : "+"}${row.stx} STX`);
+                      }
+                      for (const ft of row.fts || []) {
+                        const amount = ft.formattedAmount ?? `${ft.amount} base units of`;
+                        changes.push(`${ft.amount.startsWith("-") ? "" : "+"}${amount} ${formatAsset(ft.asset)}`);
+                      }
+                      for (const nft of row.nftsGained || []) {
+                        changes.push(`+ ${formatAsset(nft.asset)}${nft.tokenId ? ` ${nft.tokenId}` : ""}`);
+                      }
+                      for (const nft of row.nftsLost || []) {
+                        changes.push(`− ${formatAsset(nft.asset)}${nft.tokenId ? ` ${nft.tokenId}` : ""}`);
+                      }
+
+                      return (
+                        <div
+                          key={row.principal}
+                          className="flex flex-col gap-2 rounded-2xl border border-white/10 bg-black/30 p-4 md:flex-row md:items-start md:justify-between"
+                        >
+                          <div className="font-mono text-xs text-white/70">
+                            {shortenAddr(row.principal)}
+                            {row.principal === sender ? <span className="ml-2 text-white/40">(sender)</span> : null}
+                          </div>
+                          <div className="flex flex-wrap gap-2">
+                            {changes.map((change, idx) => (
+                              <Badge
+                                key={idx}
+                                tone={change.startsWith("-") || change.startsWith("−") ? "red" : "green"}
+                              >
+                                {change}
+                              </Badge>
+                            ))}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </Card>
+              </div>
+            ) : null}
+
             {postConditionSummary || postConditions.length > 0 ? (
               <div className="lg:col-span-2">
                 <Card
@@ -952,6 +2200,19 @@ export default function Page() {
                             </div>
 
                             <div className="flex flex-wrap gap-2">
+                              {pc.result ? (
+                                <Badge
+                                  tone={
+                                    pc.result === "satisfied"
+                                      ? "green"
+                                      : pc.result === "violated"
+                                      ? "red"
+                                      : "neutral"
+                                  }
+                                >
+                                  {pc.result === "not_evaluable" ? "not checked" : safeText(pc.result)}
+                                </Badge>
+                              ) : null}
                               {pc.type ? (
                                 <Badge tone="amber">{safeText(pc.type)}</Badge>
                               ) : null}
@@ -964,6 +2225,36 @@ export default function Page() {
                             </div>
                           </div>
 
+                          {pc.resultSummary ? (
+                            <div
+                              className={cx(
+                                "mt-2 text-xs",
+                                pc.result === "violated" ? "text-rose-200" : "text-white/55"
+                              )}
+                            >
+                              {safeText(pc.resultSummary)}
+                            </div>
+                          ) : null}
+
+                          {pc.observedAmount !== undefined ? (
+                            <div className="mt-3 grid gap-3 md:grid-cols-2">
+                              <div className="rounded-xl border border-white/10 bg-white/[0.03] p-3">
+                                <div className="text-xs text-white/45">Allowed</div>
+                                <div className="mt-1 font-mono text-xs text-white/75">
+                                  {pc.amountStx ? `${safeText(pc.amountStx)} STX` : safeText(pc.amount)}
+                                </div>
+                              </div>
+                              <div className="rounded-xl border border-white/10 bg-white/[0.03] p-3">
+                                <div className="text-xs text-white/45">Observed</div>
+                                <div className="mt-1 font-mono text-xs text-white/75">
+                                  {pc.observedAmountStx
+                                    ? `${safeText(pc.observedAmountStx)} STX`
+                                    : safeText(pc.observedAmount)}
+                                </div>
+                              </div>
+                            </div>
+                          ) : null}
+
                           {(pc.asset || pc.principal || pc.conditionCode || pc.tokenId) ? (
                             <div className="mt-3 grid gap-3 md:grid-cols-2">
                               {pc.asset ? (
@@ -1037,8 +2328,11 @@ export default function Page() {
                     {events.slice(0, 24).map((ev, i) => {
                       const kind = String(ev?.kind || ev?.event_type || ev?.type || "event");
                       const title = formatKind(kind);
+                      const lifecycle = LIFECYCLE_EVENT_KINDS.has(kind);
                       const amountLabel = ev?.amountStx
                         ? `${safeText(ev.amountStx)} STX`
+                        : ev?.lockedAmountStx
+                        ? `${safeText(ev.lockedAmountStx)} STX`
                         : ev?.amount
                         ? safeText(ev.amount)
                         : ev?.amountMicroStx
@@ -1071,7 +2365,13 @@ export default function Page() {
                             </div>
                           </div>
 
-                          {(senderText || recipientText) ? (
+                          {lifecycle ? (
+                            <div className="mt-4 rounded-2xl border border-white/10 bg-black/25 p-4 text-sm text-white/85">
+                              {eventLine(ev)}
+                            </div>
+                          ) : null}
+
+                          {!lifecycle && (senderText || recipientText) ? (
                             <div className="mt-4 rounded-2xl border border-white/10 bg-black/25 p-4">
                               <div className="text-xs text-white/45">Flow</div>
                               <div className="mt-2 flex flex-wrap items-center gap-2 text-sm text-white/85">
@@ -1099,7 +2399,7 @@ export default function Page() {
                             </div>
                           ) : null}
 
-                          {!senderText && !recipientText && !functionText && !memoText && !memoDecodedText && !amountLabel ? (
+                          {!lifecycle && !senderText && !recipientText && !functionText && !memoText && !memoDecodedText && !amountLabel ? (
                             <div className="mt-4 rounded-2xl border border-white/10 bg-black/25 p-4 text-sm text-white/55">
                               {eventLine(ev)}
                             </div>
@@ -0,0 +1,262 @@
+import { formatMicroStx } from "@/utils/balanceDeltas";
+import { ParsedEvent, parseStacksTransaction } from "@/utils/parseStacksTx";
+import { ProtocolMatch, lookupProtocol, protocolDisplayName } from "@/utils/protocolRegistry";
+import { WalletNetwork, fetchBnsNames, shortAddr, withTransferEvents } from "@/utils/walletActivity";
+import {
+  FetchTransfersPage,
+  WalletTransferItem,
+  fetchTransferHistory,
+  mapWithConcurrency,
+  txTime,
+} from "@/utils/walletFilters";
+
+/**
+ * Counterparty graph
+ *
+ * Answers "who does this wallet interact with?". Every item in the
+ * address's history is parsed into asset events, and each event the wallet
+ * is part of is credited to the principal or contract on the other side.
+ * Mints and burns have no other side and are credited to the token's
+ * contract. Contracts the wallet called are counted even when nothing moved.
+ *
+ * `buildCounterpartyGraph` is pure over recorded history;
+ * `loadCounterpartyGraph` fetches it and looks up BNS names.
+ */
+
+export type CounterpartyAsset = {
+  /** "STX" or a full asset identifier. */
+  asset: string;
+  symbol: string;
+  /** Base units (micro-STX for STX) for fungible assets, token count for NFTs. */
+  sent: string;
+  received: string;
+  nft: boolean;
+};
+
+export type CounterpartyNode = {
+  principal: string;
+  kind: "contract" | "address";
+  /** BNS name, else protocol and contract name, else the short address. */
+  label: string;
+  bnsName: string | null;
+  protocol: string | null;
+  protocolInfo: ProtocolMatch | null;
+  /** STX the wallet sent to and received from this counterparty. */
+  stxSentMicro: string;
+  stxReceivedMicro: string;
+  stxSent: string;
+  stxReceived: string;
+  assets: CounterpartyAsset[];
+  txCount: number;
+  /** Transaction ids, newest first. */
+  txids: string[];
+  firstSeen: string | null;
+  lastSeen: string | null;
+};
+
+export type CounterpartyGraph = {
+  address: string;
+  network?: WalletNetwork;
+  /** Most transactions first. */
+  counterparties: CounterpartyNode[];
+  /** Counterparties left out past `maxNodes`. */
+  omitted: number;
+  transactionCount: number;
+  truncated: boolean;
+};
+
+export type CounterpartyGraphOptions = {
+  network?: WalletNetwork;
+  truncated?: boolean;
+  /** BNS name per standard address. */
+  names?: Record<string, string | null>;
+  maxNodes?: number;
+};
+
+const DEFAULT_MAX_NODES = 25;
+
+type Flow = { sent: bigint; received: bigint; nft: boolean };
+
+type Accumulator = {
+  flows: Map<string, Flow>;
+  txids: string[];
+  first: number | null;
+  last: number | null;
+};
+
+function toBigInt(value: any): bigint {
+  try {
+    return value === null || value === undefined || value === "" ? 0n : BigInt(value);
+  } catch {
+    return 0n;
+  }
+}
+
+function assetSymbol(asset: string) {
+  if (asset === "STX") return "STX";
+  const [contractId, name] = String(asset).split("::");
+  return name || contractId.split(".")[1] || contractId;
+}
+
+/** The other side of an event the wallet is part of, with what moved each way. */
+function eventSides(ev: ParsedEvent, wallet: string) {
+  switch (ev.kind) {
+    case "stx_transfer":
+    case "ft_transfer":
+    case "nft_transfer": {
+      const amount = ev.kind === "stx_transfer" ? toBigInt(ev.amountMicroStx) : ev.kind === "ft_transfer" ? toBigInt(ev.amount) : 1n;
+      const asset = ev.kind === "stx_transfer" ? "STX" : ev.asset;
+      const nft = ev.kind === "nft_transfer";
+      if (ev.sender === wallet && ev.recipient) return { party: ev.recipient, asset, sent: amount, received: 0n, nft };
+      if (ev.recipient === wallet && ev.sender) return { party: ev.sender, asset, sent: 0n, received: amount, nft };
+      return null;
+    }
+
+    case "ft_mint":
+    case "nft_mint":
+      if (ev.recipient !== wallet) return null;
+      return { party: ev.asset.split("::")[0], asset: ev.asset, sent: 0n, received: ev.kind === "ft_mint" ? toBigInt(ev.amount) : 1n, nft: ev.kind === "nft_mint" };
+
+    case "ft_burn":
+    case "nft_burn":
+      if (ev.sender !== wallet) return null;
+      return { party: ev.asset.split("::")[0], asset: ev.asset, sent: ev.kind === "ft_burn" ? toBigInt(ev.amount) : 1n, received: 0n, nft: ev.kind === "nft_burn" };
+
+    default:
+      return null;
+  }
+}
+
+function nodeLabel(principal: string, bnsName: string | null, protocol: string | null) {
+  if (bnsName) return bnsName;
+  const [address, contractName] = principal.split(".");
+  if (protocol) return `${protocol} ${contractName || `(${shortAddr(address)})`}`;
+  return contractName ? `${contractName} (${shortAddr(address)})` : shortAddr(principal);
+}
+
+/** Aggregates an address's history (newest first) per counterparty. */
+export function buildCounterpartyGraph(
+  address: string,
+  history: WalletTransferItem[] = [],
+  options: CounterpartyGraphOptions = {}
+): CounterpartyGraph {
+  const network = options.network;
+  const parties = new Map<string, Accumulator>();
+
+  function touch(principal: string, txid: string, time: number | null) {
+    let acc = parties.get(principal);
+    if (!acc) {
+      acc = { flows: new Map(), txids: [], first: null, last: null };
+      parties.set(principal, acc);
+    }
+    if (txid && !acc.txids.includes(txid)) acc.txids.push(txid);
+    if (time !== null) {
+      acc.first = acc.first === null ? time : Math.min(acc.first, time);
+      acc.last = acc.last === null ? time : Math.max(acc.last, time);
+    }
+    return acc;
+  }
+
+  for (const item of history) {
+    const txid = item.tx?.tx_id || "";
+    const time = txTime(item.tx);
+    const parsed = parseStacksTransaction(withTransferEvents(item, address), network ?? "mainnet");
+
+    for (const ev of parsed.events) {
+      if (ev.kind === "contract_call" && item.tx?.sender_address === address) {
+        touch(ev.contractId, txid, time);
+        continue;
+      }
+
+      const side = eventSides(ev, address);
+      if (!side || side.party === address) continue;
+
+      const acc = touch(side.party, txid, time);
+      const flow = acc.flows.get(side.asset) ?? { sent: 0n, received: 0n, nft: side.nft };
+      flow.sent += side.sent;
+      flow.received += side.received;
+      acc.flows.set(side.asset, flow);
+    }
+  }
+
+  const nodes: CounterpartyNode[] = Array.from(parties.entries()).map(([principal, acc]) => {
+    const stx = acc.flows.get("STX") ?? { sent: 0n, received: 0n, nft: false };
+    const kind = principal.includes(".") ? "contract" : "address";
+    const protocolInfo = lookupProtocol(principal, network);
+    const protocol = protocolDisplayName(protocolInfo);
+    const bnsName = options.names?.[principal] ?? null;
+
+    return {
+      principal,
+      kind,
+      label: nodeLabel(principal, bnsName, protocol),
+      bnsName,
+      protocol,
+      protocolInfo,
+      stxSentMicro: stx.sent.toString(),
+      stxReceivedMicro: stx.received.toString(),
+      stxSent: formatMicroStx(stx.sent),
+      stxReceived: formatMicroStx(stx.received),
+      assets: Array.from(acc.flows.entries()).map(([asset, flow]) => ({
+        asset,
+        symbol: assetSymbol(asset),
+        sent: flow.sent.toString(),
+        received: flow.received.toString(),
+        nft: flow.nft,
+      })),
+      txCount: acc.txids.length,
+      txids: acc.txids,
+      firstSeen: acc.first === null ? null : new Date(acc.first).toISOString(),
+      lastSeen: acc.last === null ? null : new Date(acc.last).toISOString(),
+    };
+  });
+
+  nodes.sort((a, b) => b.txCount - a.txCount || String(b.lastSeen).localeCompare(String(a.lastSeen)));
+  const maxNodes = options.maxNodes ?? DEFAULT_MAX_NODES;
+
+  return {
+    address,
+    network,
+    counterparties: nodes.slice(0, maxNodes),
+    omitted: Math.max(0, nodes.length - maxNodes),
+    transactionCount: history.length,
+    truncated: options.truncated ?? false,
+  };
+}
+
+export type LoadCounterpartyGraphOptions = Omit<CounterpartyGraphOptions, "names" | "network" | "truncated"> & {
+  fetchPage?: FetchTransfersPage;
+  fetchNames?: typeof fetchBnsNames;
+  /** Hiro pages of 50 to read at most. */
+  maxPages?: number;
+};
+
+/** Fetches the address's history, builds the graph, then names its standard-address nodes through BNS. */
+export async function loadCounterpartyGraph(
+  address: string,
+  network: WalletNetwork,
+  options: LoadCounterpartyGraphOptions = {}
+): Promise<CounterpartyGraph> {
+  const history = await fetchTransferHistory(address, network, {
+    maxPages: options.maxPages ?? 10,
+    fetchPage: options.fetchPage,
+  });
+
+  const graph = buildCounterpartyGraph(address, history.items, { ...options, network, truncated: history.hasMore });
+
+  const fetchNames = options.fetchNames ?? fetchBnsNames;
+  const addresses = graph.counterparties.filter((node) => node.kind === "address").map((node) => node.principal);
+  // A missing name only costs the label.
+  const names = await mapWithConcurrency(addresses, 4, (principal) =>
+    fetchNames(principal, network).then(({ json }) => (Array.isArray(json?.names) && json.names[0]) || null, () => null)
+  );
+  const byPrincipal = new Map(addresses.map((principal, i) => [principal, names[i]]));
+
+  return {
+    ...graph,
+    counterparties: graph.counterparties.map((node) => {
+      const bnsName = byPrincipal.get(node.principal) || null;
+      return bnsName ? { ...node, bnsName, label: bnsName } : node;
+    }),
+  };
+}
@@ -1,14 +1,102 @@
-export function explainTransaction(tx: any) {
-  if (!tx) {
-    return {
-      summary: "Transaction could not be parsed.",
-      type: "unknown",
-      events: [],
-      eventsCount: 0,
-      postConditions: [],
-      postConditionSummary: null,
-    };
-  }
+import { ProtocolMatch, lookupProtocol, protocolDisplayName } from "@/utils/protocolRegistry";
+import {
+  NftMovement,
+  PrincipalDelta,
+  computeBalanceDeltas,
+  deltaForPrincipal,
+  formatMicroStx,
+  formatUnits,
+} from "@/utils/balanceDeltas";
+import { SwapRoute, decodeSwapRoute, tokenKey } from "@/utils/swapRoute";
+import type { ParsedStacksTx } from "@/utils/parseStacksTx";
+import { RiskContext, analyzeRisk, topRiskSeverity } from "@/utils/riskAnalyzer";
+import type { FeeAnalysis } from "@/utils/feeAnalysis";
+import { PriceQuote, fiatSuffix, usdValue } from "@/utils/priceProvider";
+import type { TokenMetadata } from "@/utils/walletActivity";
+import {
+  EXPLANATION_SCHEMA_VERSION,
+  SwapSummary,
+  TransactionExplanation,
+} from "@/features/explain-transaction/types";
+
+export type ExplainOptions = {
+  /**
+   * Principal the summary is written for. The sender reads "You sent…", the
+   * recipient "You received…"; without a viewer the summary is third person.
+   */
+  viewer?: string | null;
+  /** History and denylist used by the risk analyzer. */
+  risk?: RiskContext;
+  /** Precomputed by `createFeeAnalyzer`, which needs the network. */
+  feeAnalysis?: FeeAnalysis | null;
+  /** Daily quotes for the block's date, keyed by `priceAssetKey`; see `quotePrices`. */
+  prices?: Record<string, PriceQuote> | null;
+  /** SIP-010 metadata keyed by token contract id, for symbols and decimals. */
+  tokens?: Record<string, TokenMetadata | null> | null;
+};
+
+function unparsedExplanation(): TransactionExplanation {
+  return {
+    schemaVersion: EXPLANATION_SCHEMA_VERSION,
+    summary: "Transaction could not be parsed.",
+    txid: null,
+    network: null,
+    type: "unknown",
+    status: null,
+    intentOnly: false,
+    nonce: null,
+    txResult: null,
+    failureReason: null,
+    failureLabel: null,
+    feeStx: null,
+    feePayer: null,
+    sponsored: false,
+    sponsor: null,
+    sponsorNonce: null,
+    spendingCondition: null,
+    amountStx: null,
+    sender: null,
+    recipientOrTarget: null,
+    contract: null,
+    contractName: null,
+    protocol: null,
+    protocolInfo: null,
+    functionName: null,
+    functionArgs: [],
+    callDescription: null,
+    coinbase: null,
+    tenureChange: null,
+    poisonMicroblock: null,
+    blockHeight: null,
+    timeIso: null,
+    events: [],
+    eventsCount: 0,
+    eventHighlights: [],
+    balanceDeltas: null,
+    viewer: null,
+    perspective: "third_party",
+    protocolLogs: [],
+    swapSummary: null,
+    riskFlags: [],
+    riskLevel: null,
+    feeAnalysis: null,
+    amountUsd: null,
+    prices: [],
+    postConditionMode: null,
+    postConditions: [],
+    postConditionSummary: null,
+  };
+}
+
+export function explainTransaction(
+  parsed: ParsedStacksTx | null | undefined,
+  options: ExplainOptions = {}
+): TransactionExplanation {
+  if (!parsed) return unparsedExplanation();
+
+  // Older callers still pass Hiro-shaped JSON, so fields are read loosely below.
+  const tx: any = parsed;
+  const prices = options.prices ?? null;
 
   function shortAddr(addr?: string | null) {
     if (!addr) return "";
@@ -23,38 +111,14 @@ export function explainTransaction(tx: any) {
     return num / 1_000_000;
   }
 
-  function normalizeContractName(contractId?: string | null) {
+  function normalizeContractName(contractId?: string | null, match?: ProtocolMatch | null) {
     if (!contractId) return null;
+    if (match?.contractLabel) return match.contractLabel;
 
     const contractPart = contractId.split(".")[1] || contractId;
-    const lower = contractPart.toLowerCase();
-
-    if (lower.includes("velar")) return "Velar router";
-    if (lower.includes("alex")) return "ALEX router";
-    if (lower.includes("bitflow")) return "Bitflow router";
-    if (lower.includes("arkadiko")) return "Arkadiko contract";
-    if (lower.includes("zest")) return "Zest contract";
-    if (lower.includes("granite")) return "Granite contract";
-    if (lower.includes("stacking-dao") || lower.includes("stackingdao")) return "StackingDAO contract";
-    if (lower.includes("wrapper")) return contractPart.replace(/-/g, " ");
-
     return contractPart.replace(/-/g, " ");
   }
 
-  function detectProtocol(contractId?: string | null, functionName?: string | null) {
-    const source = `${contractId || ""} ${functionName || ""}`.toLowerCase();
-
-    if (source.includes("velar")) return "Velar";
-    if (source.includes("alex")) return "ALEX";
-    if (source.includes("bitflow")) return "Bitflow";
-    if (source.includes("arkadiko")) return "Arkadiko";
-    if (source.includes("zest")) return "Zest";
-    if (source.includes("granite")) return "Granite";
-    if (source.includes("stacking-dao") || source.includes("stackingdao")) return "StackingDAO";
-
-    return null;
-  }
-
   function isFailedStatus(status?: string | null) {
     const s = String(status || "").toLowerCase();
     return (
@@ -71,9 +135,43 @@ export function explainTransaction(tx: any) {
     return s.includes("post_condition") || s.includes("post-condition");
   }
 
+  function shortAssetName(asset?: string | null) {
+    if (!asset) return "token";
+    const [contractId, assetName] = String(asset).split("::");
+    return assetName || contractId.split(".")[1] || contractId;
+  }
+
+  function describeLifecycleEvent(ev: any) {
+    if (!ev) return null;
+
+    const to = ev.recipient ? ` to ${shortAddr(ev.recipient)}` : "";
+
+    if (ev.kind === "ft_mint") return `minted ${ev.amount} ${shortAssetName(ev.asset)}${to}`;
+    if (ev.kind === "ft_burn") return `burned ${ev.amount} ${shortAssetName(ev.asset)}`;
+    if (ev.kind === "nft_mint") {
+      return `minted NFT ${ev.tokenId ? `${ev.tokenId} ` : ""}of ${shortAssetName(ev.asset)}${to}`;
+    }
+    if (ev.kind === "nft_burn") {
+      return `burned NFT ${ev.tokenId ? `${ev.tokenId} ` : ""}of ${shortAssetName(ev.asset)}`;
+    }
+    if (ev.kind === "stx_burn") return `burned ${eventAmountLabel(ev) || "some STX"}`;
+    if (ev.kind === "stx_lock") {
+      const unlock = ev.unlockHeight ? ` until burn block ${ev.unlockHeight}` : "";
+      return `locked ${eventAmountLabel(ev) || "some STX"}${unlock}`;
+    }
+
+    return null;
+  }
+
+  function joinClauses(clauses: string[]) {
+    if (clauses.length <= 1) return clauses[0] || "";
+    return `${clauses.slice(0, -1).join(", ")} and ${clauses[clauses.length - 1]}`;
+  }
+
   function eventAmountLabel(ev: any) {
     if (!ev) return null;
     if (ev.amountStx) return `${ev.amountStx} STX`;
+    if (ev.lockedAmountStx) return `${ev.lockedAmountStx} STX`;
     if (ev.amountMicroStx) {
       const stx = microToStx(ev.amountMicroStx);
       return stx !== null ? `${stx} STX` : `${ev.amountMicroStx} microSTX`;
@@ -82,35 +180,175 @@ export function explainTransaction(tx: any) {
     return null;
   }
 
-  function detectSwapFromEvents(events: any[]) {
-    if (!Array.isArray(events) || events.length === 0) return null;
+  function deltaMovements(delta: PrincipalDelta | null) {
+    const sent: any[] = [];
+    const received: any[] = [];
+    if (!delta) return { sent, received };
+
+    const stxMicro = BigInt(delta.stxMicro);
+    if (stxMicro !== 0n) {
+      const abs = stxMicro < 0n ? -stxMicro : stxMicro;
+      const item = {
+        asset: "STX",
+        amount: abs.toString(),
+        amountStx: formatMicroStx(abs),
+        usd: usdValue(prices, "STX", abs),
+      };
+      (stxMicro < 0n ? sent : received).push(item);
+    }
 
-    const transfers = events.filter(
-      (ev) =>
-        ev &&
-        (ev.kind === "stx_transfer" || ev.kind === "ft_transfer" || ev.kind === "token_transfer")
-    );
+    for (const ft of delta.fts) {
+      const negative = ft.amount.startsWith("-");
+      const amount = negative ? ft.amount.slice(1) : ft.amount;
+      const item = { asset: ft.asset, amount, amountStx: null, usd: usdValue(prices, ft.asset, amount) };
+      (negative ? sent : received).push(item);
+    }
+
+    return { sent, received };
+  }
+
+  /** "2.5 aeUSDC" when the token's decimals are known, else "2500000 base units of aeUSDC". */
+  function ftAmountLabel(asset: string, amount: string) {
+    const meta = options.tokens?.[tokenKey(asset)];
+    const symbol = meta?.symbol || shortAssetName(asset);
+    if (/^\d+$/.test(amount) && typeof meta?.decimals === "number") return `${formatUnits(BigInt(amount), meta.decimals)} ${symbol}`;
+    return `${amount} base units of ${symbol}`;
+  }
+
+  function movementLabel(item: any) {
+    if (item.amountStx) return `${item.amountStx} STX${fiatSuffix(item.usd)}`;
+    return `${ftAmountLabel(item.asset, item.amount)}${fiatSuffix(item.usd)}`;
+  }
 
-    if (transfers.length < 2) return null;
+  function nftLabel(item: NftMovement) {
+    return `${shortAssetName(item.asset)}${item.tokenId ? ` ${item.tokenId}` : ""}`;
+  }
 
-    const first = transfers[0];
-    const second = transfers[1];
+  function describeViewerDelta(delta: PrincipalDelta | null, subject: string) {
+    if (!delta) return null;
+    const { sent, received } = deltaMovements(delta);
+
+    const out = [...sent.map(movementLabel), ...delta.nftsLost.map(nftLabel)];
+    const inn = [...received.map(movementLabel), ...delta.nftsGained.map(nftLabel)];
+
+    if (out.length && inn.length) return `${subject} sent ${joinClauses(out)} and received ${joinClauses(inn)}.`;
+    if (out.length) return `${subject} sent ${joinClauses(out)}.`;
+    if (inn.length) return `${subject} received ${joinClauses(inn)}.`;
+    return null;
+  }
+
+  function swapFromDelta(delta: PrincipalDelta | null) {
+    const { sent, received } = deltaMovements(delta);
+    if (sent.length === 0 || received.length === 0) return null;
 
     return {
-      tokenIn: {
-        asset: first.asset || "Asset",
-        amount: first.amount ?? first.amountMicroStx ?? null,
-        amountStx: first.amountStx ?? null,
-      },
-      tokenOut: {
-        asset: second.asset || "Asset",
-        amount: second.amount ?? second.amountMicroStx ?? null,
-        amountStx: second.amountStx ?? null,
-      },
-      note: "Swap inferred from transaction events.",
+      tokenIn: sent[0],
+      tokenOut: received[0],
+      sent,
+      received,
+      note: "Swap computed from the sender's net balance changes.",
     };
   }
 
+  function routeTokenLabel(asset: string) {
+    return tokenKey(asset) === "STX" ? "STX" : options.tokens?.[tokenKey(asset)]?.symbol || shortAssetName(asset);
+  }
+
+  function describeRoute(route: SwapRoute | null | undefined, owner: { possessive: string; pronoun: string }) {
+    if (!route || route.path.length < 2) return null;
+
+    const parts: string[] = [];
+    if (route.path.length > 2) {
+      parts.push(`It routed ${route.path.map(routeTokenLabel).join(" → ")} across ${route.hops.length} hops.`);
+    }
+    if (route.effectivePrice) {
+      parts.push(
+        `Effective price: ${route.effectivePrice} ${routeTokenLabel(route.path[route.path.length - 1])} per ${routeTokenLabel(route.path[0])}.`
+      );
+    }
+    if (route.minimumReceived) {
+      const tokenOut = route.path[route.path.length - 1];
+      const minimum =
+        tokenKey(tokenOut) === "STX"
+          ? `${formatMicroStx(BigInt(route.minimumReceived))} STX`
+          : ftAmountLabel(tokenOut, route.minimumReceived);
+      parts.push(
+        typeof route.slippageMarginPct === "number"
+          ? `${owner.possessive} minimum was ${minimum}, and ${owner.pronoun} received ${route.slippageMarginPct}% more than that.`
+          : `It would accept no less than ${minimum}.`
+      );
+    }
+    if (route.mismatches.length > 0) {
+      parts.push(`Warning: ${route.mismatches[0]}`);
+    }
+
+    return parts.join(" ") || null;
+  }
+
+  /** "1.5 ALEX" when the token's decimals are known, else "150000000 base units of ALEX". */
+  function tokenAmountLabel(contractId: string | null, arg: any) {
+    const meta = contractId ? options.tokens?.[contractId] : null;
+    const symbol = meta?.symbol || shortAssetName(contractId);
+    // Decoded args carry the digits; Hiro's repr-only args read "u1500000".
+    const digits = String(arg?.value ?? "").replace(/^u/, "");
+    const base = /^\d+$/.test(digits) ? BigInt(digits) : null;
+
+    if (base !== null && typeof meta?.decimals === "number") return `${formatUnits(base, meta.decimals)} ${symbol}`;
+    return `${base !== null && String(arg.display).startsWith("u") ? digits : arg.display} base units of ${symbol}`;
+  }
+
+  function findFunctionArg(args: any[], names: string[]) {
+    return args.find((arg) => names.includes(String(arg?.name || "").toLowerCase())) || null;
+  }
+
+  function describeFunctionCall(fn?: string | null, args?: any[] | null, contractId: string | null = null) {
+    if (!fn || !Array.isArray(args) || args.length === 0) return null;
+
+    const lowerFn = fn.toLowerCase();
+    const unnamed = args.every((arg) => !arg?.name);
+
+    // Raw transactions carry no ABI names: fall back to SIP-010 (amount, sender,
+    // recipient, memo) and SIP-009 (id, sender, recipient) argument positions.
+    const positionalTransfer = unnamed && lowerFn === "transfer" && args.length >= 3;
+    const amountArg = positionalTransfer && args.length === 4
+      ? args[0]
+      : findFunctionArg(args, ["amount", "amt", "value"]);
+    const recipientArg = positionalTransfer
+      ? args[2]
+      : findFunctionArg(args, ["recipient", "to", "receiver"]);
+    const tokenIdArg = positionalTransfer && args.length === 3
+      ? args[0]
+      : findFunctionArg(args, ["id", "token-id", "token_id", "nft-id", "item-id"]);
+    const ustxArg = findFunctionArg(args, ["amount-ustx", "amount_ustx", "ustx"]);
+    const delegateArg = findFunctionArg(args, ["delegate-to", "delegate_to", "pool", "pox-addr"]);
+
+    if (lowerFn === "transfer" || lowerFn === "transfer-memo") {
+      const to = recipientArg ? shortAddr(String(recipientArg.value ?? recipientArg.display)) : null;
+
+      if (amountArg) {
+        return `transfer ${tokenAmountLabel(contractId, amountArg)}${to ? ` to ${to}` : ""}`;
+      }
+
+      if (tokenIdArg) {
+        return `transfer NFT #${tokenIdArg.display}${to ? ` to ${to}` : ""}`;
+      }
+    }
+
+    if (lowerFn === "delegate-stx" && ustxArg) {
+      const stx = microToStx(ustxArg.value);
+      const delegate = delegateArg ? shortAddr(String(delegateArg.value ?? delegateArg.display)) : null;
+      return `delegate ${stx !== null ? `${stx} STX` : ustxArg.display}${delegate ? ` to ${delegate}` : ""} for stacking`;
+    }
+
+    if (lowerFn === "stack-stx" && ustxArg) {
+      const stx = microToStx(ustxArg.value);
+      const periodArg = findFunctionArg(args, ["lock-period", "lock_period"]);
+      return `stack ${stx !== null ? `${stx} STX` : ustxArg.display}${periodArg ? ` for ${periodArg.display} cycles` : ""}`;
+    }
+
+    return null;
+  }
+
   function normalizePostConditionMode(mode?: string | null) {
     const s = String(mode || "").toLowerCase();
     if (!s) return null;
@@ -119,6 +357,17 @@ export function explainTransaction(tx: any) {
     return s;
   }
 
+  function findBrokenRule(postConditions: any[]) {
+    const index = postConditions.findIndex((pc) => pc?.result === "violated");
+    if (index === -1) return null;
+
+    const pc = postConditions[index];
+    return {
+      index,
+      text: `Rule #${index + 1} broke: ${pc?.resultSummary || pc?.summary || "a safety rule was not satisfied."}`,
+    };
+  }
+
   function buildPostConditionSummary(postConditions: any[], mode?: string | null, failed?: boolean) {
     if (!Array.isArray(postConditions) || postConditions.length === 0) return null;
 
@@ -126,6 +375,11 @@ export function explainTransaction(tx: any) {
     const first = postConditions[0];
     const firstRule = first?.summary || "This transaction included a safety rule.";
 
+    const satisfiedCount = postConditions.filter((pc) => pc?.result === "satisfied").length;
+    const violatedCount = postConditions.filter((pc) => pc?.result === "violated").length;
+    const evaluatedCount = satisfiedCount + violatedCount;
+    const brokenRule = findBrokenRule(postConditions);
+
     let title = "Post conditions detected";
     let statusLabel = failed ? "Failed" : "Present";
 
@@ -134,7 +388,13 @@ export function explainTransaction(tx: any) {
     if (failed) {
       title = "Post condition failure";
       statusLabel = "Failed";
-      summary = `This transaction failed because one of its safety rules was not satisfied. ${firstRule}`;
+      summary = brokenRule
+        ? `This transaction failed because one of its safety rules was not satisfied. ${brokenRule.text}`
+        : evaluatedCount === postConditions.length && normalizedMode === "deny"
+        ? "This transaction failed a post condition check. Every listed rule held, so an asset moved that no rule covered, which strict (deny) mode does not allow."
+        : evaluatedCount === 0
+        ? "This transaction failed a post condition check. Its transfers were rolled back and not recorded, so which rule broke is not known."
+        : "This transaction failed a post condition check. Every rule that could be checked held, so the one that broke is among those that could not be checked.";
     } else if (normalizedMode === "deny") {
       title = "Strict safety rules";
       summary = `This transaction used strict post conditions. ${firstRule}`;
@@ -147,12 +407,19 @@ export function explainTransaction(tx: any) {
       summary += ` It included ${postConditions.length} safety rules in total.`;
     }
 
+    if (evaluatedCount > 0) {
+      summary += ` ${satisfiedCount} of ${evaluatedCount} checked rules held against the actual transfers.`;
+    }
+
     return {
       title,
       status: statusLabel,
       mode: normalizedMode,
       count: postConditions.length,
       summary,
+      satisfiedCount,
+      violatedCount,
+      brokenRuleIndex: brokenRule ? brokenRule.index : null,
       rules: postConditions.map((pc) => pc?.summary || "Post condition rule"),
     };
   }
@@ -162,6 +429,7 @@ export function explainTransaction(tx: any) {
   const recipientOrTarget = tx.recipientOrTarget || null;
   const contract = tx.contractId || tx.contract || null;
   const functionName = tx.functionName || null;
+  const functionArgs = Array.isArray(tx.functionArgs) ? tx.functionArgs : [];
 
   const feeMicro = tx.feeMicroStx ?? tx.fee ?? tx.fee_rate ?? null;
   const feeStx = tx.feeStx ?? microToStx(feeMicro);
@@ -172,6 +440,8 @@ export function explainTransaction(tx: any) {
   const block = tx.blockHeight ?? tx.block_height ?? null;
   const time = tx.timestamp ?? tx.timeIso ?? tx.burn_block_time_iso ?? tx.block_time_iso ?? null;
   const status = tx.status ?? tx.tx_status ?? null;
+  const nonce = tx.nonce ?? null;
+  const intentOnly = tx.origin === "raw_hex";
 
   const events = Array.isArray(tx.events) ? tx.events : [];
   const eventsCount = events.length;
@@ -179,83 +449,184 @@ export function explainTransaction(tx: any) {
   const postConditions = Array.isArray(tx.postConditions) ? tx.postConditions : [];
   const postConditionMode = tx.postConditionMode ?? null;
 
-  const prettyContractName = normalizeContractName(contract);
-  const protocol = detectProtocol(contract, functionName);
+  const network = tx.network === "testnet" ? "testnet" : tx.network === "mainnet" ? "mainnet" : undefined;
+  const protocolMatch = lookupProtocol(contract, network);
+  const prettyContractName = normalizeContractName(contract, protocolMatch);
+  const protocol = protocolDisplayName(protocolMatch);
+  const callDescription = type === "contract_call" ? describeFunctionCall(functionName, functionArgs, contract) : null;
 
-  let swapSummary: any = null;
+  const tokenDecimals = Object.fromEntries(
+    Object.entries(options.tokens || {}).map(([contractId, meta]) => [contractId, meta?.decimals])
+  );
+  const balanceDeltas = intentOnly ? null : computeBalanceDeltas(tx, tokenDecimals);
+  const viewer = options.viewer || null;
+  const senderDelta = deltaForPrincipal(balanceDeltas, sender);
+  const viewerDelta = deltaForPrincipal(balanceDeltas, viewer);
+  const perspective: "sender" | "recipient" | "third_party" = !viewer
+    ? "third_party"
+    : viewer === sender
+    ? "sender"
+    : viewer === recipientOrTarget || viewerDelta
+    ? "recipient"
+    : "third_party";
+
+  let swapSummary: SwapSummary | null = null;
 
   if (type === "contract_call") {
     const lowerFn = String(functionName || "").toLowerCase();
     const looksLikeDex =
-      Boolean(protocol && ["Velar", "ALEX", "Bitflow"].includes(protocol)) ||
+      protocolMatch?.category === "dex" ||
       lowerFn.includes("swap") ||
       lowerFn.includes("route") ||
       lowerFn.includes("trade");
 
     if (looksLikeDex) {
-      const fromEvents = detectSwapFromEvents(events);
+      const fromEvents = swapFromDelta(senderDelta);
+      const route = decodeSwapRoute(tx, sender, {
+        protocolId: protocolMatch?.id,
+        decimals: tokenDecimals,
+      });
       swapSummary = fromEvents
         ? {
             protocol: protocol || "DEX",
             ...fromEvents,
+            route,
           }
         : {
             protocol: protocol || "DEX",
+            route,
             note: "Possible swap detected through a DEX router contract.",
           };
     }
   }
 
   const failed = isFailedStatus(status);
+  const txResult = tx.txResult || null;
+  const failureReason = tx.failureReason || null;
+  const failureLabel = failureReason
+    ? failureReason.name
+      ? `${failureReason.name} (${failureReason.code})`
+      : `error ${failureReason.code}`
+    : txResult && txResult.ok === false && txResult.repr
+    ? txResult.repr
+    : null;
   const failedByPostCondition = isPostConditionFailure(status);
 
   const fromLabel = shortAddr(sender);
+  const actor = perspective === "sender" ? "You" : fromLabel || "The sender";
+  const routeOwner =
+    perspective === "sender"
+      ? { possessive: "Your", pronoun: "you" }
+      : { possessive: "The sender's", pronoun: "they" };
   const toLabel = shortAddr(recipientOrTarget);
   const contractLabel = prettyContractName || "a smart contract";
-  const feeLabel = feeStx !== null ? `${feeStx} STX in fees` : "a network fee";
-  const amountLabel = amountStx !== null ? `${amountStx} STX` : "some STX";
+  const sponsored = Boolean(tx.sponsored);
+  const sponsor = tx.sponsor || null;
+  const spendingCondition = tx.spendingCondition || null;
+
+  const feeLabel = sponsored
+    ? "no fee"
+    : feeStx !== null
+    ? `${feeStx} STX in fees`
+    : "a network fee";
+  const amountUsd = usdValue(prices, "STX", amountMicro);
+  const amountLabel = amountStx !== null ? `${amountStx} STX${fiatSuffix(amountUsd)}` : "some STX";
 
   let summary = "This transaction was processed on the Stacks network.";
 
-  if (failedByPostCondition && postConditions.length > 0) {
-    const firstRule = postConditions[0]?.summary || "A safety rule was not satisfied.";
-    summary = `This transaction failed because one of its post conditions was not satisfied. ${firstRule}`;
+  if (intentOnly) {
+    if (type === "token_transfer") {
+      summary = `This transaction would send ${amountLabel} to ${toLabel}, paying ${feeLabel}.`;
+    } else if (type === "contract_call") {
+      const target = callDescription
+        ? ` to ${callDescription}`
+        : functionName
+        ? ` (${functionName})`
+        : "";
+      summary = `This transaction would call ${contractLabel}${target}, paying ${feeLabel}.`;
+
+      const routeText = describeRoute(swapSummary?.route, routeOwner);
+      if (routeText) summary += ` ${routeText}`;
+    } else if (type === "smart_contract") {
+      summary = `This transaction would deploy ${contractLabel}, paying ${feeLabel}.`;
+    } else {
+      summary = `This transaction would be processed on the Stacks network, paying ${feeLabel}.`;
+    }
+
+    summary += " It has not been confirmed on-chain, so this describes its intent, not its outcome.";
+  } else if (failedByPostCondition && postConditions.length > 0) {
+    const brokenRule = findBrokenRule(postConditions);
+    summary = brokenRule
+      ? `This transaction failed because one of its post conditions was not satisfied. ${brokenRule.text}`
+      : "This transaction failed a post condition check, so none of its transfers happened. The chain does not record which rule broke.";
   } else if (failed) {
     if (type === "contract_call") {
-      summary = `This transaction attempted to call ${contractLabel}${functionName ? ` (${functionName})` : ""}, but it failed.`;
+      const failedWith = failureLabel ? ` with ${failureLabel}` : "";
+      summary = callDescription
+        ? `This transaction attempted to call ${contractLabel} to ${callDescription}, but it failed${failedWith}.`
+        : `This transaction attempted to call ${contractLabel}${functionName ? ` (${functionName})` : ""}, but it failed${failedWith}.`;
+      if (failureReason?.description) summary += ` ${failureReason.description}`;
     } else if (type === "token_transfer" || type === "stx_transfer") {
       summary = `This transaction attempted to transfer ${amountLabel} from ${fromLabel} to ${toLabel}, but it failed.`;
     } else {
       summary = "This transaction failed before completing successfully.";
     }
   } else if (type === "token_transfer") {
-    summary = `You sent ${amountLabel} to ${toLabel}, paying ${feeLabel}.`;
+    summary = perspective === "recipient"
+      ? `You received ${amountLabel} from ${fromLabel}.`
+      : `${actor} sent ${amountLabel} to ${toLabel}, paying ${feeLabel}.`;
   } else if (type === "stx_transfer") {
-    summary = `You transferred ${amountLabel} to ${toLabel}.`;
+    summary = `${actor} transferred ${amountLabel} to ${toLabel}.`;
   } else if (type === "contract_call") {
     if (swapSummary?.tokenIn && swapSummary?.tokenOut) {
-      const inAmount = swapSummary.tokenIn.amountStx
-        ? `${swapSummary.tokenIn.amountStx} STX`
-        : swapSummary.tokenIn.amount
-        ? `${swapSummary.tokenIn.amount} ${swapSummary.tokenIn.asset || ""}`.trim()
-        : "an asset";
-
-      const outAmount = swapSummary.tokenOut.amountStx
-        ? `${swapSummary.tokenOut.amountStx} STX`
-        : swapSummary.tokenOut.amount
-        ? `${swapSummary.tokenOut.amount} ${swapSummary.tokenOut.asset || ""}`.trim()
-        : "another asset";
-
-      summary = `You swapped ${inAmount} for ${outAmount}${protocol ? ` on ${protocol}` : ""}, paying ${feeLabel}.`;
+      const inAmount = swapSummary.tokenIn.amount ? movementLabel(swapSummary.tokenIn) : "an asset";
+      const outAmount = swapSummary.tokenOut.amount ? movementLabel(swapSummary.tokenOut) : "another asset";
+
+      summary = `${actor} swapped ${inAmount} for ${outAmount}${protocol ? ` on ${protocol}` : ""}, paying ${feeLabel}.`;
+
+      const routeText = describeRoute(swapSummary.route, routeOwner);
+      if (routeText) summary += ` ${routeText}`;
+    } else if (callDescription) {
+      summary = `${actor} called ${contractLabel}${protocol ? ` on ${protocol}` : ""} to ${callDescription}, paying ${feeLabel}.`;
     } else if (protocol) {
-      summary = `You called ${contractLabel}${functionName ? ` (${functionName})` : ""} on ${protocol}, paying ${feeLabel}.`;
+      summary = `${actor} called ${contractLabel}${functionName ? ` (${functionName})` : ""} on ${protocol}, paying ${feeLabel}.`;
     } else {
-      summary = `You called ${contractLabel}${functionName ? ` (${functionName})` : ""}, paying ${feeLabel}.`;
+      summary = `${actor} called ${contractLabel}${functionName ? ` (${functionName})` : ""}, paying ${feeLabel}.`;
+    }
+
+    const movement = swapSummary?.tokenIn ? null : describeViewerDelta(senderDelta, actor);
+    if (movement) summary += ` ${movement}`;
+
+    if (perspective === "recipient") {
+      const own = describeViewerDelta(viewerDelta, "You");
+      if (own) summary += ` ${own}`;
     }
   } else if (type === "smart_contract") {
-    summary = `You deployed ${contractLabel}, paying ${feeLabel}.`;
+    summary = `${actor} deployed ${contractLabel}, paying ${feeLabel}.`;
+  } else if (type === "coinbase") {
+    const coinbase = tx.coinbase || {};
+    summary = coinbase.altRecipient
+      ? `${actor} mined a Stacks block and directed its coinbase reward to ${shortAddr(coinbase.altRecipient)}.`
+      : `${actor} mined a Stacks block and claimed its coinbase reward.`;
+    summary += coinbase.hasVrfProof
+      ? " It includes a VRF proof, as Nakamoto coinbases do."
+      : " It carries no VRF proof, so it predates Nakamoto.";
+  } else if (type === "tenure_change") {
+    const tenure = tx.tenureChange || {};
+    summary = `This tenure change marks that ${tenure.causeLabel || "the mining tenure changed"}.`;
+    if (tenure.tenureConsensusHash) {
+      summary += ` Tenure consensus hash ${shortAddr(tenure.tenureConsensusHash)}.`;
+    }
+    if (typeof tenure.previousTenureBlocks === "number") {
+      summary += ` The previous tenure produced ${tenure.previousTenureBlocks} blocks.`;
+    }
+    if (tenure.signerPubkeyHash) {
+      summary += ` Miner signing key hash ${shortAddr(tenure.signerPubkeyHash)}.`;
+    }
+  } else if (type === "poison_microblock") {
+    summary = `${actor} reported a miner for producing two conflicting microblocks (poison microblock). If valid, the offending miner loses its block reward and the reporter receives a share.`;
   } else if (type === "ft_transfer") {
-    summary = `You transferred tokens${recipientOrTarget ? ` to ${toLabel}` : ""}.`;
+    summary = `${actor} transferred tokens${recipientOrTarget ? ` to ${toLabel}` : ""}.`;
   } else {
     const firstTransfer = events.find(
       (ev: any) => ev?.kind === "stx_transfer" || ev?.kind === "ft_transfer"
@@ -271,6 +642,66 @@ export function explainTransaction(tx: any) {
     }
   }
 
+  const riskFlags = analyzeRisk(parsed, options.risk);
+
+  const feeAnalysis = options.feeAnalysis ?? null;
+  if (feeAnalysis && feeAnalysis.basis !== "none" && !failed) {
+    summary += ` The fee was ${feeAnalysis.label}.`;
+  }
+
+  const protocolLogs = events
+    .filter((ev: any) => ev?.kind === "contract_log")
+    .map((ev: any) => ({
+      contractId: ev.contractId || null,
+      action: ev.action || null,
+      payload: ev.payload ?? ev.value ?? null,
+      repr: ev.repr || null,
+    }));
+
+  const loggedAction = protocolLogs.find((log: any) => log.action)?.action || null;
+
+  if (type === "contract_call" && loggedAction && !failed && !intentOnly) {
+    summary += ` The contract reported a "${loggedAction}" action.`;
+  }
+
+  const eventHighlights = events
+    .map((ev: any) => describeLifecycleEvent(ev))
+    .filter((line: string | null): line is string => Boolean(line));
+
+  if (eventHighlights.length > 0 && !failed && !intentOnly) {
+    const shown = eventHighlights.slice(0, 3);
+    const extra = eventHighlights.length - shown.length;
+    summary += ` It ${joinClauses(shown)}${extra > 0 ? ` (plus ${extra} more)` : ""}.`;
+  }
+
+  const authorizationNotes: string[] = [];
+
+  if (sponsored) {
+    const sponsorFee = feeStx !== null ? `Fee of ${feeStx} STX` : "The fee";
+    authorizationNotes.push(
+      `${sponsorFee} ${intentOnly ? "would be" : "was"} paid by sponsor ${sponsor ? shortAddr(sponsor) : "a third party"}.`
+    );
+  }
+
+  if (spendingCondition?.type === "multi_sig") {
+    const signerCount = Array.isArray(spendingCondition.signers) ? spendingCondition.signers.length : 0;
+    const signed = spendingCondition.signatureCount;
+
+    if (signerCount > 0 && typeof signed === "number") {
+      authorizationNotes.push(
+        `It was approved by ${signed} of ${signerCount} signers${
+          spendingCondition.signaturesRequired ? ` (${spendingCondition.signaturesRequired} required)` : ""
+        }.`
+      );
+    } else {
+      authorizationNotes.push("It was sent from a multisig account.");
+    }
+  }
+
+  if (authorizationNotes.length > 0) {
+    summary += ` ${authorizationNotes.join(" ")}`;
+  }
+
   const postConditionSummary = buildPostConditionSummary(
     postConditions,
     postConditionMode,
@@ -278,22 +709,51 @@ export function explainTransaction(tx: any) {
   );
 
   return {
+    schemaVersion: EXPLANATION_SCHEMA_VERSION,
     summary,
-    txid: tx.txid || tx.tx_id,
+    txid: tx.txid || tx.tx_id || null,
+    network: tx.network || null,
     type,
     status,
+    intentOnly,
+    nonce,
+    txResult,
+    failureReason,
+    failureLabel,
     feeStx,
+    feePayer: tx.feePayer || sender,
+    sponsored,
+    sponsor,
+    sponsorNonce: tx.sponsorNonce ?? null,
+    spendingCondition,
     amountStx,
     sender,
     recipientOrTarget,
     contract,
     contractName: prettyContractName,
+    protocol,
+    protocolInfo: protocolMatch,
     functionName,
+    functionArgs,
+    callDescription,
+    coinbase: tx.coinbase || null,
+    tenureChange: tx.tenureChange || null,
+    poisonMicroblock: tx.poisonMicroblock || null,
     blockHeight: block,
     timeIso: time,
     events,
     eventsCount,
+    eventHighlights,
+    balanceDeltas,
+    viewer,
+    perspective,
+    protocolLogs,
     swapSummary,
+    riskFlags,
+    riskLevel: topRiskSeverity(riskFlags),
+    feeAnalysis,
+    amountUsd,
+    prices: prices ? Object.values(prices) : [],
     postConditionMode,
     postConditions,
     postConditionSummary,
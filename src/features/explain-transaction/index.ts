@@ -1,29 +1,27 @@
 /**
  * Explain Transaction
  *
- * This module will convert Stacks transaction data into
- * plain-English explanations for non-technical users.
+ * Converts a parsed Stacks transaction into a plain-English explanation
+ * for non-technical users.
  *
- * Current scope:
- * - Accept a transaction hash
- * - Parse transaction metadata
- * - Produce a human-readable explanation
- *
- * Implementation will be added incrementally.
+ * Public surface:
+ * - `explainTransaction(parsed, options)` → `TransactionExplanation`
+ * - `EXPLANATION_SCHEMA_VERSION`, bumped whenever the explanation shape changes
+ * - `explanation.schema.json`, generated from the types with `npm run schema`
+ * - `narratorFromEnv()` / `createNarrator()`, an optional LLM paragraph checked against the data
  */
 
-export type TransactionExplanation = {
-  txid: string;
-  summary: string;
-};
-
-/**
- * Placeholder function for transaction explanation.
- * Actual logic will be implemented in future iterations.
- */
-export function explainTransaction(txid: string): TransactionExplanation {
-  return {
-    txid,
-    summary: "",
-  };
-}
+export { explainTransaction } from "./explainTx";
+export type { ExplainOptions } from "./explainTx";
+export { EXPLANATION_SCHEMA_VERSION } from "./types";
+export { createNarrator, narratorFromEnv, ruleBasedNarrative } from "./narrative";
+export type { Narrator, NarratorOptions } from "./narrative";
+export type {
+  ExplanationPerspective,
+  PostConditionSummary,
+  ProtocolLog,
+  SwapLeg,
+  SwapSummary,
+  TransactionExplanation,
+  TransactionNarrative,
+} from "./types";
@@ -0,0 +1,231 @@
+import { formatUnits } from "@/utils/balanceDeltas";
+import type { ParsedStacksTx } from "@/utils/parseStacksTx";
+import {
+  ChatMessage,
+  CompleteChat,
+  DEFAULT_CHAT_TIMEOUT_MS,
+  chatFromEnv,
+  completeWithTimeout,
+} from "@/utils/llm";
+import { tokenKey } from "@/utils/swapRoute";
+import type { TokenMetadata } from "@/utils/walletActivity";
+import type { TransactionExplanation, TransactionNarrative } from "./types";
+
+/**
+ * Narrative layer
+ *
+ * Optionally asks an OpenAI-compatible chat endpoint to turn the structured
+ * transaction and its rule-based explanation into a fuller paragraph. The
+ * model only rewrites: every number in its answer must be one of the
+ * amounts, fees or prices in the explanation, otherwise the rule-based
+ * summary is returned instead.
+ * The same fallback applies on timeouts, errors and empty answers.
+ */
+
+export type NarratorOptions = {
+  model: string;
+  complete: CompleteChat;
+  timeoutMs?: number;
+};
+
+/** Token metadata by contract id, as passed to `explainTransaction`. */
+export type NarrativeTokens = Record<string, TokenMetadata | null> | null;
+
+export type Narrator = {
+  model: string;
+  narrate(parsed: ParsedStacksTx, explanation: TransactionExplanation, tokens?: NarrativeTokens): Promise<TransactionNarrative>;
+};
+
+const SYSTEM_PROMPT = [
+  "You explain Stacks blockchain transactions to people with no blockchain knowledge.",
+  "Write one short paragraph (2 to 4 sentences) in plain English.",
+  "Use only facts from the JSON you are given. The only numbers you may write are amounts, fees and prices,",
+  "copied exactly as they appear there; never round, convert, add up or estimate them.",
+  "Leave out dates, counts, block heights and nonces.",
+  "Keep the point of view of the rule-based summary (\"You\" when it says \"You\").",
+  "Do not give financial advice. Reply with the paragraph only.",
+].join(" ");
+
+/**
+ * Numbers standing on their own: "25", "0.003", "1,250.5", "$41.20", "12%".
+ * Digits inside addresses, txids and contract names are not matched.
+ */
+const NUMBER_PATTERN = /(?<![\w.])\d[\d,]*(?:\.\d+)?(?![\w])/g;
+
+function toNumber(token: string): number | null {
+  const value = Number(token.replace(/,/g, ""));
+  return Number.isFinite(value) ? value : null;
+}
+
+export function extractNumbers(text: string): number[] {
+  const out: number[] = [];
+  for (const match of String(text || "").matchAll(NUMBER_PATTERN)) {
+    const value = toNumber(match[0]);
+    if (value !== null) out.push(value);
+  }
+  return out;
+}
+
+const AMOUNT_KEYS = ["amount", "amountStx", "amountMicroStx", "observedAmount", "observedAmountStx", "usd"];
+
+const FEE_ANALYSIS_KEYS = [
+  "feeMicroStx",
+  "feePerByteMicroStx",
+  "medianMicroStx",
+  "p25MicroStx",
+  "p75MicroStx",
+  "p90MicroStx",
+  "ratioToTypical",
+  "percentile",
+];
+
+/**
+ * The amounts, fees and prices in an explanation: the only numbers a
+ * narrative may state. Counts, nonces, block heights and dates are left out
+ * so an invented small number cannot pass as one of them. Token amounts are
+ * known in base units and, when `tokens` has their decimals, in the whole
+ * units the summary prints.
+ */
+export function collectKnownNumbers(explanation: TransactionExplanation, tokens: NarrativeTokens = null): Set<number> {
+  const known = new Set<number>();
+
+  function add(value: any) {
+    if (value === null || value === undefined || value === "") return;
+    const n = typeof value === "number" ? value : toNumber(String(value));
+    if (n === null || !Number.isFinite(n)) return;
+    known.add(Math.abs(n));
+    // USD values are written to the cent.
+    known.add(Math.round(Math.abs(n) * 100) / 100);
+  }
+
+  function addKeys(value: any, keys: string[]) {
+    if (!value || typeof value !== "object") return;
+    for (const key of keys) add(value[key]);
+  }
+
+  function addWhole(asset: any, amount: any) {
+    const key = tokenKey(String(asset || ""));
+    const decimals = key === "STX" ? 6 : tokens?.[key]?.decimals;
+    const digits = String(amount ?? "").replace(/^-/, "");
+    if (typeof decimals === "number" && /^\d+$/.test(digits)) add(formatUnits(BigInt(digits), decimals));
+  }
+
+  function addAmounts(value: any) {
+    addKeys(value, AMOUNT_KEYS);
+    if (value?.asset) addWhole(value.asset, value.amount);
+  }
+
+  add(explanation.feeStx);
+  add(explanation.amountStx);
+  add(explanation.amountUsd);
+
+  for (const quote of explanation.prices || []) add(quote?.usd);
+  for (const ev of explanation.events || []) addAmounts(ev);
+  for (const pc of explanation.postConditions || []) addKeys(pc, AMOUNT_KEYS);
+  addKeys(explanation.feeAnalysis, FEE_ANALYSIS_KEYS);
+
+  const deltas = explanation.balanceDeltas;
+  if (deltas) {
+    addKeys(deltas.fee, AMOUNT_KEYS);
+    for (const delta of deltas.principals || []) {
+      add(delta.stxMicro);
+      add(delta.stx);
+      for (const ft of delta.fts || []) addAmounts(ft);
+    }
+  }
+
+  const swap = explanation.swapSummary;
+  if (swap) {
+    for (const leg of [swap.tokenIn, swap.tokenOut, ...(swap.sent || []), ...(swap.received || [])]) addAmounts(leg);
+    addKeys(swap.route, ["amountIn", "amountOut", "effectivePrice", "minimumReceived", "slippageMarginPct"]);
+
+    const path = swap.route?.path || [];
+    if (path.length) {
+      addWhole(path[0], swap.route.amountIn);
+      addWhole(path[path.length - 1], swap.route.amountOut);
+      addWhole(path[path.length - 1], swap.route.minimumReceived);
+    }
+  }
+
+  return known;
+}
+
+/** Numbers in the narrative that the structured data does not contain. */
+export function findUnsupportedNumbers(text: string, known: Set<number>): number[] {
+  return extractNumbers(text).filter((n) => !known.has(n));
+}
+
+/** The facts sent to the model: the explanation without bulky or internal fields. */
+function promptFacts(parsed: ParsedStacksTx, explanation: TransactionExplanation) {
+  const { events, functionArgs, prices, ...rest } = explanation as any;
+
+  return {
+    explanation: {
+      ...rest,
+      functionArgs: (functionArgs || []).map((arg: any) => ({ name: arg?.name, type: arg?.type, repr: arg?.repr })),
+    },
+    transaction: {
+      type: parsed.type,
+      status: parsed.status,
+      origin: parsed.origin,
+      events: (parsed.events || []).slice(0, 30),
+    },
+  };
+}
+
+function stringify(value: any) {
+  return JSON.stringify(value, (_key, val) => (typeof val === "bigint" ? val.toString() : val));
+}
+
+function fallback(explanation: TransactionExplanation, model: string | null, reason: string): TransactionNarrative {
+  return { text: explanation.summary, source: "rules", model, fallbackReason: reason };
+}
+
+export function createNarrator(options: NarratorOptions): Narrator {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_CHAT_TIMEOUT_MS;
+
+  async function narrate(
+    parsed: ParsedStacksTx,
+    explanation: TransactionExplanation,
+    tokens: NarrativeTokens = null
+  ): Promise<TransactionNarrative> {
+    const facts = promptFacts(parsed, explanation);
+    const messages: ChatMessage[] = [
+      { role: "system", content: SYSTEM_PROMPT },
+      {
+        role: "user",
+        content: `Rule-based summary: ${explanation.summary}\n\nStructured data:\n${stringify(facts)}`,
+      },
+    ];
+
+    let text: string;
+    try {
+      text = await completeWithTimeout(options.complete, messages, timeoutMs);
+    } catch (error: any) {
+      return fallback(explanation, options.model, error?.message || "request failed");
+    }
+
+    const paragraph = String(text || "").trim();
+    if (!paragraph) return fallback(explanation, options.model, "empty response");
+
+    const unsupported = findUnsupportedNumbers(paragraph, collectKnownNumbers(explanation, tokens));
+    if (unsupported.length) {
+      return fallback(explanation, options.model, `numbers not in the transaction data: ${unsupported.join(", ")}`);
+    }
+
+    return { text: paragraph, source: "llm", model: options.model, fallbackReason: null };
+  }
+
+  return { model: options.model, narrate };
+}
+
+/** Narrator from the environment (see `chatFromEnv`), or null when no model is configured. */
+export function narratorFromEnv(env: Record<string, string | undefined> = process.env): Narrator | null {
+  const chat = chatFromEnv(env);
+  return chat ? createNarrator(chat) : null;
+}
+
+/** Rule-based narrative used when no model is configured. */
+export function ruleBasedNarrative(explanation: TransactionExplanation): TransactionNarrative {
+  return fallback(explanation, null, "no narrative model configured");
+}
@@ -0,0 +1,145 @@
+import type {
+  Network,
+  ParsedCoinbase,
+  ParsedEvent,
+  ParsedFunctionArg,
+  ParsedPoisonMicroblock,
+  ParsedPostCondition,
+  ParsedSpendingCondition,
+  ParsedTenureChange,
+  ParsedTxResult,
+} from "@/utils/parseStacksTx";
+import type { ResolvedClarityError } from "@/utils/clarityErrors";
+import type { ProtocolMatch } from "@/utils/protocolRegistry";
+import type { BalanceDeltaTable } from "@/utils/balanceDeltas";
+import type { SwapRoute } from "@/utils/swapRoute";
+import type { RiskFlag, RiskSeverity } from "@/utils/riskAnalyzer";
+import type { FeeAnalysis } from "@/utils/feeAnalysis";
+import type { PriceQuote } from "@/utils/priceProvider";
+
+/**
+ * Public explanation schema
+ *
+ * `TransactionExplanation` is the contract between `explainTransaction` and
+ * anything that consumes `/api/explain`. Bump the major version when a field
+ * is removed or changes meaning, the minor version when fields are added,
+ * then regenerate the JSON Schema with `npm run schema`.
+ */
+
+export const EXPLANATION_SCHEMA_VERSION = "2.1.0";
+
+export type ExplanationPerspective = "sender" | "recipient" | "third_party";
+
+export type SwapLeg = {
+  /** "STX" or a fungible token asset id. */
+  asset: string;
+  /** Micro-STX for STX, base units for tokens. */
+  amount: string;
+  amountStx: string | null;
+  /** USD value on the day of the block, when a price was available. */
+  usd: number | null;
+};
+
+export type SwapSummary = {
+  protocol: string;
+  tokenIn?: SwapLeg;
+  tokenOut?: SwapLeg;
+  sent?: SwapLeg[];
+  received?: SwapLeg[];
+  route: SwapRoute | null;
+  note: string;
+};
+
+export type PostConditionSummary = {
+  title: string;
+  status: string;
+  mode: string | null;
+  count: number;
+  summary: string;
+  satisfiedCount: number;
+  violatedCount: number;
+  brokenRuleIndex: number | null;
+  rules: string[];
+};
+
+export type ProtocolLog = {
+  contractId: string | null;
+  action: string | null;
+  payload: any;
+  repr: string | null;
+};
+
+export type TransactionNarrative = {
+  text: string;
+  /** "llm" when the model's paragraph passed the number check, otherwise "rules". */
+  source: "llm" | "rules";
+  model: string | null;
+  fallbackReason: string | null;
+};
+
+/** Plain-English explanation of one Stacks transaction, as returned by `/api/explain`. */
+export type TransactionExplanation = {
+  schemaVersion: typeof EXPLANATION_SCHEMA_VERSION;
+  summary: string;
+  txid: string | null;
+  network: Network | null;
+  /** Where the transaction came from; set by the API. */
+  source?: string;
+  type: string;
+  status: string | null;
+  /** True for raw transactions that were decoded but never confirmed. */
+  intentOnly: boolean;
+  nonce: number | null;
+
+  txResult: ParsedTxResult | null;
+  failureReason: ResolvedClarityError | null;
+  failureLabel: string | null;
+
+  feeStx: string | number | null;
+  feePayer: string | null;
+  sponsored: boolean;
+  sponsor: string | null;
+  sponsorNonce: number | null;
+  spendingCondition: ParsedSpendingCondition | null;
+
+  amountStx: string | number | null;
+  sender: string | null;
+  recipientOrTarget: string | null;
+  contract: string | null;
+  contractName: string | null;
+  protocol: string | null;
+  protocolInfo: ProtocolMatch | null;
+  functionName: string | null;
+  functionArgs: ParsedFunctionArg[];
+  callDescription: string | null;
+
+  coinbase: ParsedCoinbase | null;
+  tenureChange: ParsedTenureChange | null;
+  poisonMicroblock: ParsedPoisonMicroblock | null;
+
+  blockHeight: number | null;
+  timeIso: string | null;
+
+  events: ParsedEvent[];
+  eventsCount: number;
+  eventHighlights: string[];
+  balanceDeltas: BalanceDeltaTable | null;
+  viewer: string | null;
+  perspective: ExplanationPerspective;
+  protocolLogs: ProtocolLog[];
+  swapSummary: SwapSummary | null;
+  /** Warnings from the risk analyzer, most severe first. */
+  riskFlags: RiskFlag[];
+  riskLevel: RiskSeverity | null;
+  feeAnalysis: FeeAnalysis | null;
+  /** USD value of `amountStx` on the day of the block. */
+  amountUsd: number | null;
+  /** Daily quotes used for fiat values; empty when none applied. */
+  prices: PriceQuote[];
+  /** Longer paragraph, set by the API only when a narrative was requested. */
+  narrative?: TransactionNarrative;
+
+  postConditionMode: string | null;
+  postConditions: ParsedPostCondition[];
+  postConditionSummary: PostConditionSummary | null;
+};
@@ -0,0 +1,279 @@
+import { listProtocols } from "@/utils/protocolRegistry";
+import type { ChatConfig } from "@/utils/llm";
+import { formatUnits } from "@/utils/balanceDeltas";
+import {
+  TokenMetadata,
+  WalletNetwork,
+  explainWalletTransactions,
+  fetchAddressTransfers,
+  fetchTokenMetadata,
+  loadTokenMetadata,
+  microToStx,
+} from "@/utils/walletActivity";
+import {
+  FetchTransfersPage,
+  HIRO_PAGE_SIZE,
+  WalletTransferItem,
+  assetMatches,
+  matchesWalletFilters,
+  stxFlows,
+  tokenFlows,
+  txTime,
+} from "@/utils/walletFilters";
+import { AskKind, ParseOptions, WalletQuery, assistQuery, parseQuestion } from "./parseQuestion";
+
+/**
+ * Answering
+ *
+ * Pages through an address's transactions with transfers (newest first)
+ * until the question's time range is covered, keeps the ones matching the
+ * parsed filters, and phrases a direct answer. The matching activity cards
+ * are returned with it so every claim can be checked.
+ */
+
+export type AskOptions = ParseOptions & {
+  chat?: ChatConfig | null;
+  fetchPage?: FetchTransfersPage;
+  fetchMetadata?: typeof fetchTokenMetadata;
+  /** Pages of 50 to scan at most. */
+  maxPages?: number;
+  /** Activity cards returned at most. */
+  maxCards?: number;
+};
+
+const DEFAULT_MAX_PAGES = 4;
+const DEFAULT_MAX_CARDS = 25;
+
+function toBigInt(value: any): bigint {
+  try {
+    return value === null || value === undefined || value === "" ? 0n : BigInt(value);
+  } catch {
+    return 0n;
+  }
+}
+
+function matchesKind(item: WalletTransferItem, card: any, kind: AskKind) {
+  const type = item.tx?.tx_type;
+  switch (kind) {
+    case "swap":
+      return String(card.action || "").startsWith("Swap");
+    case "nft":
+      return (item.nft_transfers || []).length > 0;
+    case "deploy":
+      return type === "smart_contract";
+    case "contract_call":
+      return type === "contract_call";
+    case "stacking":
+      return card.protocolInfo?.category === "stacking";
+    case "transfer":
+      return type === "token_transfer" || /transfer/i.test(String(card.functionName || ""));
+  }
+}
+
+function matches(item: WalletTransferItem, card: any, query: WalletQuery, wallet: string) {
+  // Fees are only paid on transactions the wallet sent, whatever the direction words.
+  if (query.intent === "fees" && item.tx?.sender_address !== wallet) return false;
+
+  const filters = {
+    from: query.range.from,
+    to: query.range.to,
+    direction: query.intent === "fees" ? null : query.direction,
+    protocols: query.protocols,
+    assets: query.assets,
+  };
+  if (!matchesWalletFilters(item, card, filters, wallet)) return false;
+
+  return !query.kinds.length || query.kinds.some((kind) => matchesKind(item, card, kind));
+}
+
+function plural(n: number, word: string) {
+  return `${n} ${word}${n === 1 ? "" : "s"}`;
+}
+
+function formatStx(micro: bigint) {
+  return `${microToStx(micro.toString()) ?? 0} STX`;
+}
+
+function shortAsset(assetId: string) {
+  const [contractId, name] = String(assetId).split("::");
+  return name || contractId.split(".")[1] || contractId;
+}
+
+/** Whole tokens with their symbol; base units when the token's metadata could not be read. */
+function formatToken(assetId: string, amount: bigint, metadata: Record<string, TokenMetadata | null>) {
+  const meta = metadata[assetId.split("::")[0]];
+  const symbol = meta?.symbol || shortAsset(assetId);
+  return typeof meta?.decimals === "number"
+    ? `${formatUnits(amount, meta.decimals)} ${symbol}`
+    : `${amount} base units of ${symbol}`;
+}
+
+const KIND_NOUNS: Record<AskKind, [string, string]> = {
+  swap: ["swap", "swaps"],
+  nft: ["NFT transfer", "NFT transfers"],
+  deploy: ["contract deployment", "contract deployments"],
+  contract_call: ["contract call", "contract calls"],
+  stacking: ["stacking transaction", "stacking transactions"],
+  transfer: ["transfer", "transfers"],
+};
+
+/** "swaps on ALEX involving SBTC", in the grammatical number of `count`. */
+function describeFilters(query: WalletQuery, count: number) {
+  const form = count === 1 ? 0 : 1;
+  const nouns = query.kinds.length
+    ? query.kinds.map((kind) => KIND_NOUNS[kind][form]).join(" or ")
+    : ["transaction", "transactions"][form];
+
+  const parts = [nouns];
+  if (query.intent !== "fees" && query.direction) parts.unshift(query.direction === "out" ? "outgoing" : "incoming");
+  if (query.protocols.length) {
+    const names = listProtocols()
+      .filter((p) => query.protocols.includes(p.id))
+      .map((p) => p.name);
+    parts.push(`on ${names.join(" or ")}`);
+  }
+  if (query.assets.length) parts.push(`involving ${query.assets.map((a) => a.toUpperCase()).join(" or ")}`);
+  return parts.join(" ");
+}
+
+function buildAnswer(
+  query: WalletQuery,
+  matched: Array<{ item: WalletTransferItem; card: any }>,
+  wallet: string,
+  truncated: boolean,
+  metadata: Record<string, TokenMetadata | null> = {}
+) {
+  const when = query.range.label;
+  const caveat = truncated ? " Only the most recent transactions were searched, so older activity may be missing." : "";
+  const n = matched.length;
+
+  if (!n) return `I found no ${describeFilters(query, 0)} ${when}.${caveat}`;
+
+  if (query.intent === "count") return `I found ${n} ${describeFilters(query, n)} ${when}.${caveat}`;
+
+  if (query.intent === "fees") {
+    const fees = matched.reduce((sum, { item }) => sum + stxFlows(item, wallet).fee, 0n);
+    return `You paid ${formatStx(fees)} in fees across ${plural(n, "transaction")} ${when}.${caveat}`;
+  }
+
+  if (query.intent === "total") {
+    const directions: Array<"in" | "out"> = query.direction ? [query.direction] : ["out", "in"];
+    const sentences = directions.map((direction) => {
+      const stx = matched.reduce((sum, { item }) => {
+        const flows = stxFlows(item, wallet);
+        return sum + (direction === "out" ? flows.sent : flows.received);
+      }, 0n);
+
+      const tokens = new Map<string, bigint>();
+      for (const { item } of matched) {
+        for (const t of tokenFlows(item, wallet, direction)) {
+          if (query.assets.length && !query.assets.some((s) => assetMatches(t.asset_identifier, s))) continue;
+          tokens.set(t.asset_identifier, (tokens.get(t.asset_identifier) ?? 0n) + toBigInt(t.amount));
+        }
+      }
+
+      const amounts: string[] = [];
+      if (!query.assets.length || query.assets.includes("stx")) amounts.push(formatStx(stx));
+      for (const [asset, amount] of tokens) amounts.push(formatToken(asset, amount, metadata));
+
+      return `${direction === "out" ? "sent" : "received"} ${amounts.join(" and ") || "nothing"}`;
+    });
+
+    return `You ${sentences.join(", and ")} ${when}, across ${plural(n, "transaction")}.${caveat}`;
+  }
+
+  if (query.intent === "largest") {
+    const largest = matched.reduce((best, entry) => {
+      const flows = stxFlows(entry.item, wallet);
+      const size = flows.sent > flows.received ? flows.sent : flows.received;
+      return size > best.size ? { entry, size } : best;
+    }, { entry: matched[0], size: -1n });
+    return `The largest of ${n} ${describeFilters(query, n)} ${when}: ${largest.entry.card.summary}${caveat}`;
+  }
+
+  const byAction = new Map<string, number>();
+  for (const { card } of matched) byAction.set(card.action, (byAction.get(card.action) ?? 0) + 1);
+  const breakdown = Array.from(byAction.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([action, n]) => `${n} × ${action}`)
+    .join(", ");
+
+  return `I found ${n} ${describeFilters(query, n)} ${when} (${breakdown}). Most recent: ${matched[0].card.summary}${caveat}`;
+}
+
+export type AskResult = {
+  address: string;
+  network: WalletNetwork;
+  question: string;
+  query: WalletQuery;
+  answer: string;
+  count: number;
+  activities: any[];
+  scanned: number;
+  /** True when the page limit was hit before the range was covered. */
+  truncated: boolean;
+  sources: string[];
+};
+
+export async function answerWalletQuestion(
+  address: string,
+  network: WalletNetwork,
+  question: string,
+  options: AskOptions = {}
+): Promise<AskResult> {
+  const fetchPage = options.fetchPage ?? fetchAddressTransfers;
+  const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+  const maxCards = options.maxCards ?? DEFAULT_MAX_CARDS;
+
+  const query = await assistQuery(question, parseQuestion(question, options), options.chat ?? null, options);
+  const from = query.range.from ? Date.parse(query.range.from) : null;
+
+  const items: WalletTransferItem[] = [];
+  const sources: string[] = [];
+  let truncated = false;
+
+  for (let page = 0; page < maxPages; page++) {
+    const { json, source } = await fetchPage(address, network, { limit: HIRO_PAGE_SIZE, offset: page * HIRO_PAGE_SIZE });
+    sources.push(source);
+
+    const results: WalletTransferItem[] = Array.isArray(json?.results) ? json.results.filter((r: any) => r?.tx) : [];
+    items.push(...results);
+
+    const total = typeof json?.total === "number" ? json.total : null;
+    const exhausted = results.length < HIRO_PAGE_SIZE || (total !== null && (page + 1) * HIRO_PAGE_SIZE >= total);
+    if (exhausted) break;
+
+    const oldest = txTime(results[results.length - 1]?.tx);
+    if (from !== null && oldest !== null && oldest < from) break;
+
+    if (page === maxPages - 1) truncated = true;
+  }
+
+  const cards = await explainWalletTransactions(items, address, network, undefined, options.fetchMetadata);
+
+  const matched = items
+    .map((item, i) => ({ item, card: cards[i] }))
+    .filter(({ item, card }) => matches(item, card, query, address));
+
+  // Totals name tokens in whole units, which needs each token's decimals.
+  const tokenContracts =
+    query.intent === "total"
+      ? matched.flatMap(({ item }) =>
+          [...tokenFlows(item, address, "in"), ...tokenFlows(item, address, "out")].map((t) => t.asset_identifier.split("::")[0])
+        )
+      : [];
+  const metadata = tokenContracts.length ? await loadTokenMetadata(tokenContracts, network, options.fetchMetadata) : {};
+
+  return {
+    address,
+    network,
+    question,
+    query,
+    answer: buildAnswer(query, matched, address, truncated, metadata),
+    count: matched.length,
+    activities: matched.slice(0, maxCards).map(({ card }) => card),
+    scanned: items.length,
+    truncated,
+    sources,
+  };
+}
@@ -0,0 +1,15 @@
+/**
+ * Wallet Ask
+ *
+ * Answers plain-English questions about a wallet's history, such as
+ * "What happened in my wallet yesterday?", with the matching activity.
+ *
+ * Public surface:
+ * - `answerWalletQuestion(address, network, question, options)` → `AskResult`
+ * - `parseQuestion(question, options)` → `WalletQuery`, the rule-based filters
+ */
+
+export { answerWalletQuestion } from "./answer";
+export type { AskOptions, AskResult } from "./answer";
+export { assistQuery, parseQuestion, parseTimeRange } from "./parseQuestion";
+export type { AskDirection, AskIntent, AskKind, AskRange, ParseOptions, WalletQuery } from "./parseQuestion";
@@ -0,0 +1,352 @@
+import { listProtocols } from "@/utils/protocolRegistry";
+import { ChatConfig, completeWithTimeout } from "@/utils/llm";
+
+/**
+ * Question parsing
+ *
+ * Reads a time range, assets, protocols, direction and kind of activity out
+ * of a plain-English question such as "How much STX did I send on ALEX last
+ * week?". Rules run first; an optional chat model may fill in what the
+ * rules left open, and its answer is validated before use.
+ */
+
+export type AskDirection = "in" | "out";
+export type AskKind = "transfer" | "swap" | "contract_call" | "deploy" | "nft" | "stacking";
+export type AskIntent = "list" | "count" | "total" | "fees" | "largest";
+
+export type AskRange = {
+  /** Inclusive ISO start, or null for "since the beginning". */
+  from: string | null;
+  /** Exclusive ISO end, or null for "until now". */
+  to: string | null;
+  label: string;
+};
+
+export type WalletQuery = {
+  range: AskRange;
+  /** Lowercase asset symbols, e.g. "stx", "sbtc". */
+  assets: string[];
+  /** Protocol registry ids. */
+  protocols: string[];
+  direction: AskDirection | null;
+  kinds: AskKind[];
+  intent: AskIntent;
+  parsedBy: "rules" | "rules+llm";
+};
+
+export type ParseOptions = {
+  now?: Date;
+  /** Minutes to add to UTC for the asker's local time (e.g. 120 for UTC+2). */
+  utcOffsetMinutes?: number;
+};
+
+const DAY_MS = 86_400_000;
+
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+/** Token symbols recognised in questions; matched against asset identifiers. */
+const KNOWN_ASSETS = ["stx", "sbtc", "ststx", "alex", "velar", "diko", "usda", "aeusdc", "susdt", "welsh", "leo", "xbtc"];
+
+const KIND_PATTERNS: Array<[AskKind, RegExp]> = [
+  ["swap", /\b(swap|swaps|swapped|swapping|trade|trades|traded|trading)\b/],
+  ["nft", /\bnfts?\b/],
+  ["deploy", /\b(deploy|deploys|deployed|deployment|deployments)\b/],
+  ["stacking", /\b(stack|stacked|stacking|delegat\w*)\b/],
+  ["contract_call", /\bcontract calls?\b/],
+  ["transfer", /\b(transfer|transfers|transferred|payment|payments)\b/],
+];
+
+const PROTOCOL_PREPOSITION = /\b(on|via|through|using|with|at)\s+$/;
+
+function dayStart(ms: number, offsetMs: number) {
+  return Math.floor((ms + offsetMs) / DAY_MS) * DAY_MS - offsetMs;
+}
+
+function monthStart(year: number, month: number, offsetMs: number) {
+  return Date.UTC(year, month, 1) - offsetMs;
+}
+
+function iso(ms: number) {
+  return new Date(ms).toISOString();
+}
+
+function isoDay(ms: number, offsetMs: number) {
+  return new Date(ms + offsetMs).toISOString().slice(0, 10);
+}
+
+/** Local calendar date parts of `ms`. */
+function localParts(ms: number, offsetMs: number) {
+  const d = new Date(ms + offsetMs);
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth(), date: d.getUTCDate(), weekday: d.getUTCDay() };
+}
+
+function parseIsoDay(text: string, offsetMs: number): number | null {
+  const m = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!m) return null;
+  const ms = Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+  return Number.isNaN(ms) ? null : ms - offsetMs;
+}
+
+const UNIT_MS: Record<string, number> = { hour: 3_600_000, day: DAY_MS, week: 7 * DAY_MS };
+
+export function parseTimeRange(question: string, options: ParseOptions = {}): AskRange {
+  const q = question.toLowerCase();
+  const nowMs = (options.now ?? new Date()).getTime();
+  const offsetMs = (options.utcOffsetMinutes ?? 0) * 60_000;
+  const today = dayStart(nowMs, offsetMs);
+  const { year, month, weekday } = localParts(nowMs, offsetMs);
+
+  const between = q.match(/\bbetween (\d{4}-\d{2}-\d{2}) and (\d{4}-\d{2}-\d{2})\b/);
+  if (between) {
+    const from = parseIsoDay(between[1], offsetMs);
+    const to = parseIsoDay(between[2], offsetMs);
+    if (from !== null && to !== null) {
+      return { from: iso(from), to: iso(to + DAY_MS), label: `between ${between[1]} and ${between[2]}` };
+    }
+  }
+
+  const since = q.match(/\bsince (\d{4}-\d{2}-\d{2})\b/);
+  if (since) {
+    const from = parseIsoDay(since[1], offsetMs);
+    if (from !== null) return { from: iso(from), to: null, label: `since ${since[1]}` };
+  }
+
+  const onDay = q.match(/\b(\d{4}-\d{2}-\d{2})\b/);
+  if (onDay) {
+    const from = parseIsoDay(onDay[1], offsetMs);
+    if (from !== null) return { from: iso(from), to: iso(from + DAY_MS), label: `on ${onDay[1]}` };
+  }
+
+  if (/\btoday\b/.test(q)) return { from: iso(today), to: null, label: "today" };
+  if (/\byesterday\b/.test(q)) {
+    return { from: iso(today - DAY_MS), to: iso(today), label: "yesterday" };
+  }
+
+  const lastN = q.match(/\b(?:last|past|previous) (\d+) (hour|day|week|month)s?\b/);
+  if (lastN) {
+    const n = Number(lastN[1]);
+    const unit = lastN[2];
+    const from =
+      unit === "month"
+        ? (() => {
+            const d = new Date(nowMs);
+            d.setUTCMonth(d.getUTCMonth() - n);
+            return d.getTime();
+          })()
+        : nowMs - n * UNIT_MS[unit];
+    return { from: iso(from), to: null, label: `in the last ${n} ${unit}${n === 1 ? "" : "s"}` };
+  }
+
+  // Monday-based weeks.
+  const weekStart = today - ((weekday + 6) % 7) * DAY_MS;
+  if (/\bthis week\b/.test(q)) return { from: iso(weekStart), to: null, label: "this week" };
+  if (/\blast week\b/.test(q)) {
+    return { from: iso(weekStart - 7 * DAY_MS), to: iso(weekStart), label: "last week" };
+  }
+  if (/\bthis month\b/.test(q)) return { from: iso(monthStart(year, month, offsetMs)), to: null, label: "this month" };
+  if (/\blast month\b/.test(q)) {
+    return {
+      from: iso(monthStart(year, month - 1, offsetMs)),
+      to: iso(monthStart(year, month, offsetMs)),
+      label: "last month",
+    };
+  }
+  if (/\bthis year\b/.test(q)) return { from: iso(monthStart(year, 0, offsetMs)), to: null, label: "this year" };
+  if (/\blast year\b/.test(q)) {
+    return {
+      from: iso(monthStart(year - 1, 0, offsetMs)),
+      to: iso(monthStart(year, 0, offsetMs)),
+      label: "last year",
+    };
+  }
+
+  // "March 2, 2024", "march 2", "in March", "March 2024". A month without a
+  // year means its most recent occurrence.
+  const monthMatch = q.match(
+    new RegExp(`\\b(${MONTHS.join("|")})(?:\\s+(\\d{1,2})(?:st|nd|rd|th)?)?(?:,?\\s+(\\d{4}))?\\b`)
+  );
+  if (monthMatch && !(monthMatch[1] === "may" && !monthMatch[2] && !monthMatch[3] && !/\bin may\b/.test(q))) {
+    const m = MONTHS.indexOf(monthMatch[1]);
+    const day = monthMatch[2] ? Number(monthMatch[2]) : null;
+    let y = monthMatch[3] ? Number(monthMatch[3]) : year;
+    if (!monthMatch[3] && (m > month || (m === month && day !== null && day > localParts(nowMs, offsetMs).date))) {
+      y -= 1;
+    }
+    const name = monthMatch[1][0].toUpperCase() + monthMatch[1].slice(1);
+
+    if (day !== null && day >= 1 && day <= 31) {
+      const from = Date.UTC(y, m, day) - offsetMs;
+      return { from: iso(from), to: iso(from + DAY_MS), label: `on ${name} ${day}, ${y}` };
+    }
+    return { from: iso(monthStart(y, m, offsetMs)), to: iso(monthStart(y, m + 1, offsetMs)), label: `in ${name} ${y}` };
+  }
+
+  return { from: null, to: null, label: "in recent activity" };
+}
+
+/** "on ALEX" names the protocol; "ALEX tokens" or "my ALEX" names the token. */
+function namedAsProtocol(q: string, index: number) {
+  return PROTOCOL_PREPOSITION.test(q.slice(0, index));
+}
+
+function findProtocols(q: string) {
+  const ids: string[] = [];
+  for (const protocol of listProtocols()) {
+    const name = protocol.name.toLowerCase();
+    const match = new RegExp(`\\b${name.replace(/\s+/g, "[\\s-]?")}\\b`).exec(q);
+    if (!match) continue;
+    if (KNOWN_ASSETS.includes(name) && !namedAsProtocol(q, match.index)) continue;
+    ids.push(protocol.id);
+  }
+  return ids;
+}
+
+function findAssets(q: string) {
+  const protocolNames = new Set(listProtocols().map((p) => p.name.toLowerCase()));
+
+  const assets: string[] = [];
+  for (const symbol of KNOWN_ASSETS) {
+    const match = new RegExp(`\\b${symbol}\\b`).exec(q);
+    if (!match) continue;
+    if (protocolNames.has(symbol) && namedAsProtocol(q, match.index)) continue;
+    assets.push(symbol);
+  }
+  return assets;
+}
+
+function findDirection(q: string): AskDirection | null {
+  const out = /\b(send|sent|sending|pay|paid|spend|spent|outgoing|withdrew|withdraw|sold|sell)\b/.test(q);
+  const inbound = /\b(receive|received|receiving|got|incoming|deposit|deposited|earned|bought|buy)\b/.test(q);
+  if (out === inbound) return null;
+  return out ? "out" : "in";
+}
+
+function findIntent(q: string): AskIntent {
+  if (/\bfees?\b/.test(q) && /\b(how much|total|spent|paid|pay)\b/.test(q)) return "fees";
+  if (/\bhow many\b|\bcount\b|\bnumber of\b/.test(q)) return "count";
+  if (/\b(biggest|largest|highest|most expensive)\b/.test(q)) return "largest";
+  if (/\bhow much\b|\btotal\b|\bsum\b/.test(q)) return "total";
+  return "list";
+}
+
+/** Rule-based parse; never fails, unknown parts stay empty. */
+export function parseQuestion(question: string, options: ParseOptions = {}): WalletQuery {
+  const q = String(question || "").toLowerCase();
+  const protocols = findProtocols(q);
+
+  return {
+    range: parseTimeRange(q, options),
+    assets: findAssets(q),
+    protocols,
+    direction: findDirection(q),
+    kinds: KIND_PATTERNS.filter(([, pattern]) => pattern.test(q)).map(([kind]) => kind),
+    intent: findIntent(q),
+    parsedBy: "rules",
+  };
+}
+
+const ASSIST_PROMPT = [
+  "Extract search filters from a question about a Stacks wallet's history.",
+  "Reply with JSON only, using these keys:",
+  '{"from": ISO date or null, "to": ISO date (exclusive) or null, "assets": [lowercase token symbols],',
+  '"protocols": [protocol ids], "direction": "in" | "out" | null, "kinds": [kinds], "intent": intent}.',
+  "kinds are transfer, swap, contract_call, deploy, nft, stacking.",
+  "intent is one of list, count, total, fees, largest.",
+].join(" ");
+
+const ALL_KINDS: AskKind[] = ["transfer", "swap", "contract_call", "deploy", "nft", "stacking"];
+const ALL_INTENTS: AskIntent[] = ["list", "count", "total", "fees", "largest"];
+
+function validDate(value: any) {
+  if (typeof value !== "string") return null;
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? null : iso(ms);
+}
+
+/** The rules left nothing to narrow the search by. */
+function isOpenEnded(query: WalletQuery) {
+  return (
+    !query.range.from &&
+    !query.range.to &&
+    query.assets.length === 0 &&
+    query.protocols.length === 0 &&
+    query.kinds.length === 0 &&
+    !query.direction
+  );
+}
+
+/**
+ * Lets a chat model fill the fields the rules left empty. Anything it
+ * returns that does not validate is ignored, and any failure keeps the
+ * rule-based query as is.
+ */
+export async function assistQuery(
+  question: string,
+  query: WalletQuery,
+  chat: ChatConfig | null,
+  options: ParseOptions = {}
+): Promise<WalletQuery> {
+  if (!chat || !isOpenEnded(query)) return query;
+
+  const now = options.now ?? new Date();
+  const protocolIds = listProtocols().map((p) => p.id);
+
+  let reply: string;
+  try {
+    reply = await completeWithTimeout(
+      chat.complete,
+      [
+        { role: "system", content: ASSIST_PROMPT },
+        {
+          role: "user",
+          content: `Now: ${now.toISOString()} (UTC offset ${options.utcOffsetMinutes ?? 0} minutes). Protocol ids: ${protocolIds.join(", ")}.\nQuestion: ${question}`,
+        },
+      ],
+      chat.timeoutMs
+    );
+  } catch {
+    return query;
+  }
+
+  let json: any;
+  try {
+    json = JSON.parse(String(reply).replace(/^```(?:json)?\s*|\s*```$/g, "").trim());
+  } catch {
+    return query;
+  }
+
+  const from = validDate(json?.from);
+  const to = validDate(json?.to);
+  const offsetMs = (options.utcOffsetMinutes ?? 0) * 60_000;
+  const label =
+    from || to
+      ? [from ? `from ${isoDay(Date.parse(from), offsetMs)}` : "", to ? `until ${isoDay(Date.parse(to) - 1, offsetMs)}` : ""]
+          .filter(Boolean)
+          .join(" ")
+      : query.range.label;
+
+  const strings = (value: any) => (Array.isArray(value) ? value.filter((v) => typeof v === "string") : []);
+
+  return {
+    range: from || to ? { from, to, label } : query.range,
+    assets: strings(json?.assets).map((a: string) => a.toLowerCase()),
+    protocols: strings(json?.protocols).filter((id: string) => protocolIds.includes(id)),
+    direction: json?.direction === "in" || json?.direction === "out" ? json.direction : null,
+    kinds: strings(json?.kinds).filter((k: string): k is AskKind => ALL_KINDS.includes(k as AskKind)),
+    intent: ALL_INTENTS.includes(json?.intent) && query.intent === "list" ? json.intent : query.intent,
+    parsedBy: "rules+llm",
+  };
+}
@@ -0,0 +1,334 @@
+import { formatMicroStx, formatUnits } from "@/utils/balanceDeltas";
+import { TokenMetadata, WalletNetwork, fetchTokenMetadata, loadTokenMetadata } from "@/utils/walletActivity";
+import {
+  FetchTransfersPage,
+  WalletFilters,
+  WalletTransferItem,
+  listWalletActivity,
+  stxFlows,
+  txTime,
+} from "@/utils/walletFilters";
+
+/**
+ * Wallet export
+ *
+ * Turns explained wallet activity into spreadsheet rows for tax and
+ * accounting tools. Rows follow each transaction's net balance change for
+ * the wallet, not its individual transfers: a swap (or an NFT bought for
+ * STX) is one trade row with a sent and a received side, and a multi-hop
+ * route collapses to what actually left and arrived. Only one asset out and
+ * one in make a trade; when the legs do not pair up (adding liquidity, a
+ * swap with a refund) each leg is its own transfer row, so no tool sees a
+ * disposal that did not happen.
+ *
+ * Transactions that failed still cost their fee, so they export as a
+ * fee-only row.
+ */
+
+export type ExportFormat = "generic" | "koinly" | "cointracker";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["generic", "koinly", "cointracker"];
+
+export type ExportLabel = "swap" | "transfer" | "staking reward" | "mint" | "fee";
+
+export type ExportRow = {
+  /** ISO time of the block. */
+  date: string;
+  sentAmount: string | null;
+  sentAsset: string | null;
+  receivedAmount: string | null;
+  receivedAsset: string | null;
+  fee: string | null;
+  feeCurrency: string | null;
+  label: ExportLabel;
+  txid: string;
+  description: string;
+};
+
+type Movement = { amount: string; asset: string };
+
+function toBigInt(value: any): bigint {
+  try {
+    return value === null || value === undefined || value === "" ? 0n : BigInt(value);
+  } catch {
+    return 0n;
+  }
+}
+
+/** Whole-unit amount and currency code; tokens without metadata stay in base units. */
+function fungible(asset: string, amount: string, metadata: Record<string, TokenMetadata | null>): Movement {
+  if (asset === "STX") return { amount: formatMicroStx(toBigInt(amount)), asset: "STX" };
+
+  const [contractId, name] = asset.split("::");
+  const meta = metadata[contractId];
+  const symbol = meta?.symbol || name || contractId.split(".")[1] || contractId;
+  return typeof meta?.decimals === "number"
+    ? { amount: formatUnits(toBigInt(amount), meta.decimals), asset: symbol }
+    : { amount, asset: symbol };
+}
+
+function nftMovement(nft: { asset: string; tokenId?: string }): Movement {
+  const [contractId, name] = String(nft.asset).split("::");
+  return { amount: "1", asset: `${name || contractId.split(".")[1] || contractId}${nft.tokenId ? ` #${nft.tokenId}` : ""}` };
+}
+
+function isMint(item: WalletTransferItem, wallet: string) {
+  return [...(item.ft_transfers || []), ...(item.nft_transfers || [])].some((t) => !t.sender && t.recipient === wallet);
+}
+
+/**
+ * Rows for one explained item. `card` is its activity card from
+ * `explainWalletTransactions`, whose `sent` and `received` hold the
+ * wallet's net balance change.
+ */
+export function rowsForActivity(
+  item: WalletTransferItem,
+  card: any,
+  wallet: string,
+  metadata: Record<string, TokenMetadata | null> = {}
+): ExportRow[] {
+  const time = txTime(item.tx);
+  if (time === null || typeof item.tx?.block_height !== "number") return [];
+
+  const sent: Movement[] = [
+    ...(card?.sent || []).map((m: any) => fungible(m.asset, m.amount, metadata)),
+    ...(card?.nftsLost || []).map(nftMovement),
+  ];
+  const received: Movement[] = [
+    ...(card?.received || []).map((m: any) => fungible(m.asset, m.amount, metadata)),
+    ...(card?.nftsGained || []).map(nftMovement),
+  ];
+
+  const { fee } = stxFlows(item, wallet);
+  const base = {
+    date: new Date(time).toISOString(),
+    txid: item.tx?.tx_id || "",
+    description: String(card?.summary || ""),
+  };
+  const feeFields = (first: boolean) =>
+    first && fee > 0n ? { fee: formatMicroStx(fee), feeCurrency: "STX" } : { fee: null, feeCurrency: null };
+
+  const receivedLabel: ExportLabel = isMint(item, wallet)
+    ? "mint"
+    : card?.protocolInfo?.category === "stacking"
+    ? "staking reward"
+    : "transfer";
+
+  const rows: ExportRow[] = [];
+
+  if (sent.length === 1 && received.length === 1) {
+    return [
+      {
+        ...base,
+        sentAmount: sent[0].amount,
+        sentAsset: sent[0].asset,
+        receivedAmount: received[0].amount,
+        receivedAsset: received[0].asset,
+        ...feeFields(true),
+        label: "swap",
+      },
+    ];
+  }
+
+  for (const m of sent) {
+    rows.push({
+      ...base,
+      sentAmount: m.amount,
+      sentAsset: m.asset,
+      receivedAmount: null,
+      receivedAsset: null,
+      ...feeFields(rows.length === 0),
+      label: "transfer",
+    });
+  }
+  for (const m of received) {
+    rows.push({
+      ...base,
+      sentAmount: null,
+      sentAsset: null,
+      receivedAmount: m.amount,
+      receivedAsset: m.asset,
+      ...feeFields(rows.length === 0),
+      label: receivedLabel,
+    });
+  }
+
+  if (!rows.length && fee > 0n) {
+    rows.push({
+      ...base,
+      sentAmount: null,
+      sentAsset: null,
+      receivedAmount: null,
+      receivedAsset: null,
+      ...feeFields(true),
+      label: "fee",
+    });
+  }
+
+  return rows;
+}
+
+function csvCell(value: string | null | undefined) {
+  const text = value ?? "";
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csv(header: string[], lines: Array<Array<string | null>>) {
+  return [header, ...lines].map((line) => line.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+/** "2024-03-02T10:00:00.000Z" → ["2024-03-02", "10:00:00"]. */
+function utcParts(iso: string) {
+  return [iso.slice(0, 10), iso.slice(11, 19)];
+}
+
+// Koinly universal template labels; trades and plain transfers carry none.
+const KOINLY_LABELS: Record<ExportLabel, string> = {
+  swap: "",
+  transfer: "",
+  "staking reward": "staking",
+  mint: "",
+  fee: "cost",
+};
+
+// CoinTracker tags; only income types have one.
+const COINTRACKER_TAGS: Record<ExportLabel, string> = {
+  swap: "",
+  transfer: "",
+  "staking reward": "stake",
+  mint: "",
+  fee: "",
+};
+
+/**
+ * CSV in the chosen layout. Koinly and CoinTracker treat a fee-only row as
+ * the fee being sent, and CoinTracker's template has no transaction id
+ * column.
+ */
+export function toCsv(rows: ExportRow[], format: ExportFormat): string {
+  if (format === "koinly") {
+    return csv(
+      [
+        "Date",
+        "Sent Amount",
+        "Sent Currency",
+        "Received Amount",
+        "Received Currency",
+        "Fee Amount",
+        "Fee Currency",
+        "Net Worth Amount",
+        "Net Worth Currency",
+        "Label",
+        "Description",
+        "TxHash",
+      ],
+      rows.map((r) => {
+        const [day, time] = utcParts(r.date);
+        const feeOnly = r.label === "fee";
+        return [
+          `${day} ${time} UTC`,
+          feeOnly ? r.fee : r.sentAmount,
+          feeOnly ? r.feeCurrency : r.sentAsset,
+          r.receivedAmount,
+          r.receivedAsset,
+          feeOnly ? null : r.fee,
+          feeOnly ? null : r.feeCurrency,
+          null,
+          null,
+          KOINLY_LABELS[r.label],
+          r.description,
+          r.txid,
+        ];
+      })
+    );
+  }
+
+  if (format === "cointracker") {
+    return csv(
+      ["Date", "Received Quantity", "Received Currency", "Sent Quantity", "Sent Currency", "Fee Amount", "Fee Currency", "Tag"],
+      rows.map((r) => {
+        const [day, time] = utcParts(r.date);
+        const [year, month, date] = day.split("-");
+        const feeOnly = r.label === "fee";
+        return [
+          `${month}/${date}/${year} ${time}`,
+          r.receivedAmount,
+          r.receivedAsset,
+          feeOnly ? r.fee : r.sentAmount,
+          feeOnly ? r.feeCurrency : r.sentAsset,
+          feeOnly ? null : r.fee,
+          feeOnly ? null : r.feeCurrency,
+          COINTRACKER_TAGS[r.label],
+        ];
+      })
+    );
+  }
+
+  return csv(
+    ["Date", "Sent Amount", "Sent Asset", "Received Amount", "Received Asset", "Fee", "Fee Currency", "Label", "TxID", "Description"],
+    rows.map((r) => [
+      r.date,
+      r.sentAmount,
+      r.sentAsset,
+      r.receivedAmount,
+      r.receivedAsset,
+      r.fee,
+      r.feeCurrency,
+      r.label,
+      r.txid,
+      r.description,
+    ])
+  );
+}
+
+export type WalletExport = {
+  rows: ExportRow[];
+  /** Oldest first, as tax tools expect. */
+  csv: string;
+  format: ExportFormat;
+  transactionCount: number;
+  truncated: boolean;
+};
+
+export type ExportOptions = {
+  format?: ExportFormat;
+  filters?: Pick<WalletFilters, "from" | "to">;
+  fetchPage?: FetchTransfersPage;
+  fetchMetadata?: typeof fetchTokenMetadata;
+  /** Hiro pages of 50 to read at most. */
+  maxPages?: number;
+};
+
+/** Reads the address's history (every page up to `maxPages`) and exports it. */
+export async function exportWalletActivity(
+  address: string,
+  network: WalletNetwork,
+  options: ExportOptions = {}
+): Promise<WalletExport> {
+  const format = options.format ?? "generic";
+  const page = await listWalletActivity(address, network, {
+    all: true,
+    filters: options.filters,
+    maxPages: options.maxPages ?? 40,
+    fetchPage: options.fetchPage,
+    fetchMetadata: options.fetchMetadata,
+  });
+
+  const tokenAssets = page.activities.flatMap((card: any) =>
+    [...(card.sent || []), ...(card.received || [])].filter((m: any) => m.asset !== "STX").map((m: any) => m.asset.split("::")[0])
+  );
+  const metadata = await loadTokenMetadata(tokenAssets, network, options.fetchMetadata);
+
+  const rows = page.items
+    .map((item, i) => rowsForActivity(item, page.activities[i], address, metadata))
+    .reverse()
+    .flat();
+
+  return {
+    rows,
+    csv: toCsv(rows, format),
+    format,
+    transactionCount: page.items.length,
+    truncated: page.hasMore,
+  };
+}
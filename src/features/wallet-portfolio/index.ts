@@ -0,0 +1,299 @@
+import { formatMicroStx, formatUnits } from "@/utils/balanceDeltas";
+import {
+  TokenMetadata,
+  WalletNetwork,
+  fetchAddressBalances,
+  fetchNftHoldings,
+  fetchTokenMetadata,
+  loadTokenMetadata,
+} from "@/utils/walletActivity";
+import {
+  FetchTransfersPage,
+  WalletTransferItem,
+  fetchTransferHistory,
+  stxFlows,
+  tokenFlows,
+  txTime,
+} from "@/utils/walletFilters";
+
+/**
+ * Wallet Portfolio
+ *
+ * What an address holds right now: STX (total, locked, unlocked), every
+ * SIP-010 balance in whole tokens, and NFTs grouped by collection. Each
+ * holding points at the incoming activity that brought it in, found in
+ * the address's recent history.
+ *
+ * `buildWalletPortfolio` is pure over recorded Hiro responses;
+ * `loadWalletPortfolio` fetches them.
+ */
+
+/** An incoming transfer that contributed to a holding. */
+export type HoldingSource = {
+  txid: string;
+  timeIso: string | null;
+  /** Base units received, or the token id for NFTs. */
+  amount: string | null;
+  from: string | null;
+};
+
+export type StxHolding = {
+  totalMicroStx: string;
+  lockedMicroStx: string;
+  unlockedMicroStx: string;
+  total: string;
+  locked: string;
+  unlocked: string;
+  /** Burn block height at which locked STX unlock, when stacking. */
+  unlockHeight: number | null;
+  acquiredIn: HoldingSource[];
+};
+
+export type TokenHolding = {
+  asset: string;
+  contractId: string;
+  name: string;
+  symbol: string;
+  /** Null when the token's metadata could not be read; `formatted` is then in base units. */
+  decimals: number | null;
+  balance: string;
+  formatted: string;
+  acquiredIn: HoldingSource[];
+};
+
+export type NftHolding = {
+  tokenId: string;
+  acquiredIn: HoldingSource | null;
+};
+
+export type NftCollection = {
+  asset: string;
+  contractId: string;
+  name: string;
+  count: number;
+  /** Tokens listed by Hiro's holdings endpoint; fewer than `count` when truncated. */
+  items: NftHolding[];
+};
+
+export type WalletPortfolio = {
+  address: string;
+  network?: WalletNetwork;
+  stx: StxHolding;
+  tokens: TokenHolding[];
+  nftCollections: NftCollection[];
+  /** Transactions searched for the activity behind each holding. */
+  historyScanned: number;
+  /** True when older history exists, so some holdings may lack a source. */
+  historyTruncated: boolean;
+};
+
+export type PortfolioInput = {
+  /** Hiro `/address/{a}/balances` response. */
+  balances: any;
+  /** Results from Hiro's NFT holdings endpoint. */
+  nftHoldings?: any[];
+  /** Keyed by token contract id. */
+  tokenMetadata?: Record<string, TokenMetadata | null>;
+  /** `/transactions_with_transfers` items, newest first. */
+  history?: WalletTransferItem[];
+  historyTruncated?: boolean;
+  network?: WalletNetwork;
+};
+
+/** Incoming transfers listed per holding. */
+const MAX_SOURCES = 3;
+
+function toBigInt(value: any): bigint {
+  try {
+    return value === null || value === undefined || value === "" ? 0n : BigInt(value);
+  } catch {
+    return 0n;
+  }
+}
+
+function splitAsset(asset: string) {
+  const [contractId, name] = String(asset).split("::");
+  return { contractId, name: name || contractId.split(".")[1] || contractId };
+}
+
+function nftTokenId(value: any) {
+  return String(value?.repr ?? value ?? "");
+}
+
+function source(item: WalletTransferItem, amount: string | null, from: string | null): HoldingSource {
+  const time = txTime(item.tx);
+  return {
+    txid: item.tx?.tx_id || "",
+    timeIso: time === null ? null : new Date(time).toISOString(),
+    amount,
+    from,
+  };
+}
+
+function stxSources(history: WalletTransferItem[], wallet: string) {
+  const out: HoldingSource[] = [];
+  for (const item of history) {
+    if (out.length >= MAX_SOURCES) break;
+    const { received } = stxFlows(item, wallet);
+    if (received > 0n) {
+      const from = (item.stx_transfers || []).find((t) => t.recipient === wallet)?.sender ?? item.tx?.sender_address ?? null;
+      out.push(source(item, received.toString(), from));
+    }
+  }
+  return out;
+}
+
+function tokenSources(history: WalletTransferItem[], wallet: string, asset: string) {
+  const out: HoldingSource[] = [];
+  for (const item of history) {
+    if (out.length >= MAX_SOURCES) break;
+    const incoming = tokenFlows(item, wallet, "in").filter((t) => t.asset_identifier === asset);
+    if (!incoming.length) continue;
+    const amount = incoming.reduce((sum, t) => sum + toBigInt(t.amount), 0n);
+    out.push(source(item, amount.toString(), incoming[0].sender ?? null));
+  }
+  return out;
+}
+
+function nftSource(history: WalletTransferItem[], wallet: string, asset: string, tokenId: string, txid?: string) {
+  for (const item of history) {
+    const t = (item.nft_transfers || []).find(
+      (n) => n.recipient === wallet && n.asset_identifier === asset && nftTokenId(n.value) === tokenId
+    );
+    if (t) return source(item, tokenId, t.sender ?? null);
+  }
+  // Hiro's holdings name the delivering transaction even when it is older than the history read.
+  return txid ? { txid, timeIso: null, amount: tokenId, from: null } : null;
+}
+
+function stxHolding(balances: any, history: WalletTransferItem[], wallet: string): StxHolding {
+  const total = toBigInt(balances?.stx?.balance);
+  const locked = toBigInt(balances?.stx?.locked);
+  const unlocked = total - locked;
+  const unlockHeight = Number(balances?.stx?.burnchain_unlock_height);
+
+  return {
+    totalMicroStx: total.toString(),
+    lockedMicroStx: locked.toString(),
+    unlockedMicroStx: unlocked.toString(),
+    total: formatMicroStx(total),
+    locked: formatMicroStx(locked),
+    unlocked: formatMicroStx(unlocked),
+    unlockHeight: locked > 0n && unlockHeight > 0 ? unlockHeight : null,
+    acquiredIn: stxSources(history, wallet),
+  };
+}
+
+/** Builds the snapshot from recorded Hiro responses. */
+export function buildWalletPortfolio(address: string, input: PortfolioInput): WalletPortfolio {
+  const history = input.history ?? [];
+  const metadata = input.tokenMetadata ?? {};
+
+  const tokens: TokenHolding[] = Object.entries(input.balances?.fungible_tokens || {})
+    .map(([asset, entry]: [string, any]) => ({ asset, balance: toBigInt(entry?.balance) }))
+    .filter(({ balance }) => balance > 0n)
+    .map(({ asset, balance }) => {
+      const { contractId, name } = splitAsset(asset);
+      const meta = metadata[contractId] || null;
+      const decimals = typeof meta?.decimals === "number" ? meta.decimals : null;
+
+      return {
+        asset,
+        contractId,
+        name: meta?.name || name,
+        symbol: meta?.symbol || name,
+        decimals,
+        balance: balance.toString(),
+        formatted: decimals === null ? balance.toString() : formatUnits(balance, decimals),
+        acquiredIn: tokenSources(history, address, asset),
+      };
+    });
+
+  const holdingsByAsset = new Map<string, any[]>();
+  for (const holding of input.nftHoldings || []) {
+    const asset = holding?.asset_identifier;
+    if (!asset) continue;
+    holdingsByAsset.set(asset, [...(holdingsByAsset.get(asset) || []), holding]);
+  }
+
+  const nftAssets = new Set([
+    ...Object.entries(input.balances?.non_fungible_tokens || {})
+      .filter(([, entry]: [string, any]) => Number(entry?.count) > 0)
+      .map(([asset]) => asset),
+    ...holdingsByAsset.keys(),
+  ]);
+
+  const nftCollections: NftCollection[] = Array.from(nftAssets).map((asset) => {
+    const { contractId, name } = splitAsset(asset);
+    const items = (holdingsByAsset.get(asset) || []).map((holding) => {
+      const tokenId = nftTokenId(holding?.value);
+      return { tokenId, acquiredIn: nftSource(history, address, asset, tokenId, holding?.tx_id) };
+    });
+    const count = Number(input.balances?.non_fungible_tokens?.[asset]?.count);
+
+    return { asset, contractId, name, count: Number.isFinite(count) && count > 0 ? count : items.length, items };
+  });
+
+  return {
+    address,
+    network: input.network,
+    stx: stxHolding(input.balances, history, address),
+    tokens,
+    nftCollections: nftCollections.sort((a, b) => b.count - a.count),
+    historyScanned: history.length,
+    historyTruncated: input.historyTruncated ?? false,
+  };
+}
+
+export type LoadWalletPortfolioOptions = {
+  fetchBalances?: typeof fetchAddressBalances;
+  fetchNftPage?: typeof fetchNftHoldings;
+  fetchMetadata?: typeof fetchTokenMetadata;
+  fetchPage?: FetchTransfersPage;
+  /** Hiro history pages of 50 searched for each holding's source. */
+  historyPages?: number;
+  /** NFT holdings pages of 50 read at most. */
+  nftPages?: number;
+};
+
+const NFT_PAGE_SIZE = 50;
+
+async function loadNftHoldings(address: string, network: WalletNetwork, fetchNftPage: typeof fetchNftHoldings, maxPages: number) {
+  const holdings: any[] = [];
+  for (let page = 0; page < maxPages; page++) {
+    const { json } = await fetchNftPage(address, network, { limit: NFT_PAGE_SIZE, offset: page * NFT_PAGE_SIZE });
+    const results = Array.isArray(json?.results) ? json.results : [];
+    holdings.push(...results);
+    if (results.length < NFT_PAGE_SIZE || (typeof json?.total === "number" && holdings.length >= json.total)) break;
+  }
+  return holdings;
+}
+
+/** Fetches balances, NFT holdings, token metadata and recent history, then builds the snapshot. */
+export async function loadWalletPortfolio(
+  address: string,
+  network: WalletNetwork,
+  options: LoadWalletPortfolioOptions = {}
+): Promise<WalletPortfolio> {
+  const [{ json: balances }, nftHoldings, history] = await Promise.all([
+    (options.fetchBalances ?? fetchAddressBalances)(address, network),
+    loadNftHoldings(address, network, options.fetchNftPage ?? fetchNftHoldings, options.nftPages ?? 4),
+    fetchTransferHistory(address, network, { maxPages: options.historyPages ?? 4, fetchPage: options.fetchPage }),
+  ]);
+
+  // A token without metadata still shows, in base units.
+  const tokenMetadata = await loadTokenMetadata(
+    Object.keys(balances?.fungible_tokens || {}).map((asset) => splitAsset(asset).contractId),
+    network,
+    options.fetchMetadata
+  );
+
+  return buildWalletPortfolio(address, {
+    balances,
+    nftHoldings,
+    tokenMetadata,
+    history: history.items,
+    historyTruncated: history.hasMore,
+    network,
+  });
+}
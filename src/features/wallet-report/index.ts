@@ -0,0 +1,359 @@
+import { formatUnits } from "@/utils/balanceDeltas";
+import { PriceProvider, PriceQuote, getDefaultPriceProvider, priceAssetKey, quotePrices, usdValue, utcDate } from "@/utils/priceProvider";
+import { WalletNetwork, fetchAddressTransfers, fetchTokenMetadata } from "@/utils/walletActivity";
+import {
+  FetchTransfersPage,
+  TransfersRecording,
+  WalletTransferItem,
+  listWalletActivity,
+  recordFetchPage,
+  stxFlows,
+  txTime,
+} from "@/utils/walletFilters";
+
+/**
+ * Wallet report
+ *
+ * Cost basis and realized gain/loss over a wallet's explained history,
+ * oldest first. Every asset the wallet receives opens a lot at its fiat
+ * value on the block day; every asset it gives up (swapped away, sent, or
+ * spent on fees) closes lots in FIFO, LIFO or HIFO order and realizes the
+ * difference. In a trade, what was received prices both sides.
+ *
+ * Outgoing transfers count as disposals at market value because the
+ * history cannot tell a payment from a move to the owner's other wallet;
+ * they are marked `transfer` so they can be set aside.
+ *
+ * `buildWalletReport` only needs items, their activity cards and a price
+ * provider, so a recorded set of Hiro pages and a local price file always
+ * give the same report.
+ */
+
+export type CostBasisMethod = "fifo" | "lifo" | "hifo";
+
+export const COST_BASIS_METHODS: CostBasisMethod[] = ["fifo", "lifo", "hifo"];
+
+export type LotUse = {
+  acquiredTxid: string;
+  acquiredAt: string;
+  /** Base units taken from the lot. */
+  amount: string;
+  costUsd: number | null;
+};
+
+export type Disposal = {
+  txid: string;
+  date: string;
+  /** "STX", a token asset identifier, or `asset#tokenId` for an NFT. */
+  asset: string;
+  symbol: string;
+  amount: string;
+  /** Whole units, when the asset's decimals are known. */
+  formattedAmount: string | null;
+  kind: "trade" | "transfer" | "fee";
+  proceedsUsd: number | null;
+  costBasisUsd: number | null;
+  /** Null when the proceeds or part of the cost basis are unknown. */
+  gainUsd: number | null;
+  /** True when lots ran out (history before the range read) or had no price. */
+  basisIncomplete: boolean;
+  lots: LotUse[];
+};
+
+export type Position = {
+  asset: string;
+  symbol: string;
+  amount: string;
+  formattedAmount: string | null;
+  costBasisUsd: number | null;
+  priceUsd: number | null;
+  priceDate: string | null;
+  valueUsd: number | null;
+  unrealizedUsd: number | null;
+};
+
+export type WalletReport = {
+  address: string;
+  network?: WalletNetwork;
+  method: CostBasisMethod;
+  currency: "USD";
+  /** Day positions are valued at. */
+  asOf: string;
+  disposals: Disposal[];
+  positions: Position[];
+  totals: {
+    realizedUsd: number;
+    unrealizedUsd: number;
+    feesStx: string;
+    feesUsd: number | null;
+    /** Disposals whose gain could not be computed. */
+    unresolvedDisposals: number;
+  };
+  priceSource: string;
+  transactionCount: number;
+  truncated: boolean;
+  /** Hiro pages read, when recording was requested. */
+  recording?: TransfersRecording;
+};
+
+export type WalletReportOptions = {
+  method?: CostBasisMethod;
+  priceProvider?: PriceProvider;
+  /** ISO day (or time) positions are valued at; today by default. */
+  asOf?: string;
+  network?: WalletNetwork;
+  truncated?: boolean;
+};
+
+type Lot = {
+  amount: bigint;
+  /** USD per base unit; null when the asset had no price. */
+  unitCost: number | null;
+  txid: string;
+  acquiredAt: string;
+};
+
+type Leg = { asset: string; amount: bigint; nft: boolean };
+
+function toBigInt(value: any): bigint {
+  try {
+    return value === null || value === undefined || value === "" ? 0n : BigInt(value);
+  } catch {
+    return 0n;
+  }
+}
+
+function symbolOf(asset: string) {
+  if (asset === "STX") return "STX";
+  const [id, tokenId] = asset.split("#");
+  const [contractId, name] = id.split("::");
+  return `${name || contractId.split(".")[1] || contractId}${tokenId ? ` #${tokenId}` : ""}`;
+}
+
+function round(usd: number) {
+  return Math.round(usd * 100) / 100;
+}
+
+function sum(values: Array<number | null>) {
+  return values.some((v) => v === null) ? null : values.reduce<number>((a, v) => a + (v as number), 0);
+}
+
+/** Splits `total` across legs by their own value, or evenly when any is unpriced. */
+function allocate(total: number | null, own: Array<number | null>) {
+  if (total === null) return own.map(() => null);
+  const known = sum(own);
+  if (known === null || known === 0) return own.map(() => total / own.length);
+  return own.map((v) => (total * (v as number)) / known);
+}
+
+function legsOf(card: any, side: "sent" | "received"): Leg[] {
+  const fungible = (card?.[side] || []).map((m: any) => ({ asset: m.asset, amount: toBigInt(m.amount), nft: false }));
+  const nfts = (card?.[side === "sent" ? "nftsLost" : "nftsGained"] || []).map((n: any) => ({
+    asset: `${n.asset}#${n.tokenId ?? ""}`,
+    amount: 1n,
+    nft: true,
+  }));
+  return [...fungible, ...nfts];
+}
+
+function orderLots(lots: Lot[], method: CostBasisMethod) {
+  if (method === "lifo") return [...lots].reverse();
+  if (method === "hifo") return [...lots].sort((a, b) => (b.unitCost ?? -Infinity) - (a.unitCost ?? -Infinity));
+  return lots;
+}
+
+/** Builds the report from items and their activity cards, both newest first. */
+export async function buildWalletReport(
+  address: string,
+  items: WalletTransferItem[],
+  cards: any[],
+  options: WalletReportOptions = {}
+): Promise<WalletReport> {
+  const method = options.method ?? "fifo";
+  const provider = options.priceProvider ?? getDefaultPriceProvider();
+  const asOf = utcDate(options.asOf ?? new Date()) ?? new Date().toISOString().slice(0, 10);
+
+  const lots = new Map<string, Lot[]>();
+  const decimals = new Map<string, number>([["STX", 6]]);
+  const disposals: Disposal[] = [];
+  let feesMicro = 0n;
+  const feesUsd: Array<number | null> = [];
+
+  const format = (asset: string, amount: bigint) => {
+    if (asset.includes("#")) return amount.toString();
+    const d = decimals.get(priceAssetKey(asset));
+    return d === undefined ? null : formatUnits(amount, d);
+  };
+
+  function acquire(leg: Leg, costUsd: number | null, txid: string, date: string) {
+    const list = lots.get(leg.asset) ?? [];
+    list.push({ amount: leg.amount, unitCost: costUsd === null ? null : costUsd / Number(leg.amount), txid, acquiredAt: date });
+    lots.set(leg.asset, list);
+  }
+
+  function dispose(leg: Leg, proceedsUsd: number | null, kind: Disposal["kind"], txid: string, date: string) {
+    const list = lots.get(leg.asset) ?? [];
+    const used: LotUse[] = [];
+    let remaining = leg.amount;
+    let incomplete = false;
+
+    for (const lot of orderLots(list, method)) {
+      if (remaining === 0n) break;
+      const take = lot.amount < remaining ? lot.amount : remaining;
+      if (take === 0n) continue;
+      lot.amount -= take;
+      remaining -= take;
+      if (lot.unitCost === null) incomplete = true;
+      used.push({
+        acquiredTxid: lot.txid,
+        acquiredAt: lot.acquiredAt,
+        amount: take.toString(),
+        costUsd: lot.unitCost === null ? null : round(lot.unitCost * Number(take)),
+      });
+    }
+    lots.set(leg.asset, list.filter((lot) => lot.amount > 0n));
+    if (remaining > 0n) incomplete = true;
+
+    const cost = incomplete ? null : sum(used.map((u) => u.costUsd)) ?? 0;
+    disposals.push({
+      txid,
+      date,
+      asset: leg.asset,
+      symbol: symbolOf(leg.asset),
+      amount: leg.amount.toString(),
+      formattedAmount: format(leg.asset, leg.amount),
+      kind,
+      proceedsUsd: proceedsUsd === null ? null : round(proceedsUsd),
+      costBasisUsd: cost === null ? null : round(cost),
+      gainUsd: cost === null || proceedsUsd === null ? null : round(proceedsUsd - cost),
+      basisIncomplete: incomplete,
+      lots: used,
+    });
+  }
+
+  // Oldest first, so lots open before they are used.
+  for (let i = items.length - 1; i >= 0; i--) {
+    const item = items[i];
+    const card = cards[i];
+    const time = txTime(item.tx);
+    if (time === null || typeof item.tx?.block_height !== "number") continue;
+
+    const date = new Date(time).toISOString();
+    const txid = item.tx?.tx_id || "";
+    const sent = legsOf(card, "sent");
+    const received = legsOf(card, "received");
+    const { fee } = stxFlows(item, address);
+
+    const quotes: Record<string, PriceQuote> = await quotePrices(
+      provider,
+      ["STX", ...[...sent, ...received].filter((l) => !l.nft).map((l) => l.asset)],
+      date
+    ).catch(() => ({}));
+    for (const quote of Object.values(quotes)) decimals.set(quote.asset, quote.decimals);
+
+    const value = (leg: Leg) => (leg.nft ? null : usdValue(quotes, leg.asset, leg.amount));
+
+    if (sent.length && received.length) {
+      const tradeValue = sum(received.map(value)) ?? sum(sent.map(value));
+      allocate(tradeValue, sent.map(value)).forEach((proceeds, k) => dispose(sent[k], proceeds, "trade", txid, date));
+      allocate(tradeValue, received.map(value)).forEach((cost, k) => acquire(received[k], cost, txid, date));
+    } else {
+      for (const leg of sent) dispose(leg, value(leg), "transfer", txid, date);
+      for (const leg of received) acquire(leg, value(leg), txid, date);
+    }
+
+    if (fee > 0n) {
+      const feeUsd = usdValue(quotes, "STX", fee);
+      feesMicro += fee;
+      feesUsd.push(feeUsd);
+      dispose({ asset: "STX", amount: fee, nft: false }, feeUsd, "fee", txid, date);
+    }
+  }
+
+  const held = Array.from(lots.entries()).filter(([, list]) => list.some((lot) => lot.amount > 0n));
+  const closing: Record<string, PriceQuote> = await quotePrices(
+    provider,
+    held.filter(([asset]) => !asset.includes("#")).map(([asset]) => asset),
+    asOf
+  ).catch(() => ({}));
+
+  const positions: Position[] = held.map(([asset, list]) => {
+    const amount = list.reduce((a, lot) => a + lot.amount, 0n);
+    const cost = sum(list.map((lot) => (lot.unitCost === null ? null : lot.unitCost * Number(lot.amount))));
+    const quote = asset.includes("#") ? null : closing[priceAssetKey(asset)] ?? null;
+    const valueUsd = quote ? usdValue(closing, asset, amount) : null;
+
+    return {
+      asset,
+      symbol: symbolOf(asset),
+      amount: amount.toString(),
+      formattedAmount: format(asset, amount),
+      costBasisUsd: cost === null ? null : round(cost),
+      priceUsd: quote?.usd ?? null,
+      priceDate: quote?.date ?? null,
+      valueUsd: valueUsd === null ? null : round(valueUsd),
+      unrealizedUsd: valueUsd === null || cost === null ? null : round(valueUsd - cost),
+    };
+  });
+
+  const feeTotal = sum(feesUsd);
+
+  return {
+    address,
+    network: options.network,
+    method,
+    currency: "USD",
+    asOf,
+    disposals: disposals.reverse(),
+    positions,
+    totals: {
+      realizedUsd: round(disposals.reduce((a, d) => a + (d.gainUsd ?? 0), 0)),
+      unrealizedUsd: round(positions.reduce((a, p) => a + (p.unrealizedUsd ?? 0), 0)),
+      feesStx: formatUnits(feesMicro, 6),
+      feesUsd: feeTotal === null ? null : round(feeTotal),
+      unresolvedDisposals: disposals.filter((d) => d.gainUsd === null).length,
+    },
+    priceSource: provider.name,
+    transactionCount: items.length,
+    truncated: options.truncated ?? false,
+  };
+}
+
+export type LoadWalletReportOptions = Omit<WalletReportOptions, "network" | "truncated"> & {
+  fetchPage?: FetchTransfersPage;
+  fetchMetadata?: typeof fetchTokenMetadata;
+  /** Return the Hiro pages read, so the same report can be replayed with `replayFetchPage`. */
+  record?: boolean;
+  /** Hiro pages of 50 to read at most. */
+  maxPages?: number;
+};
+
+/** Reads the address's history (every page up to `maxPages`) and reports on it. */
+export async function loadWalletReport(
+  address: string,
+  network: WalletNetwork,
+  options: LoadWalletReportOptions = {}
+): Promise<WalletReport> {
+  const priceProvider = options.priceProvider ?? getDefaultPriceProvider();
+  const recording: TransfersRecording = { pages: [] };
+  const fetchPage = options.fetchPage ?? fetchAddressTransfers;
+
+  const page = await listWalletActivity(address, network, {
+    all: true,
+    maxPages: options.maxPages ?? 40,
+    fetchPage: options.record ? recordFetchPage(fetchPage, recording) : fetchPage,
+    fetchMetadata: options.fetchMetadata,
+    priceProvider,
+  });
+
+  const report = await buildWalletReport(address, page.items, page.activities, {
+    ...options,
+    priceProvider,
+    network,
+    truncated: page.hasMore,
+  });
+
+  if (!options.record) return report;
+  recording.pages.sort((a, b) => a.offset - b.offset);
+  return { ...report, recording };
+}
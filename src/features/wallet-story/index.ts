@@ -1,35 +1,422 @@
+import { formatMicroStx, formatUnits } from "@/utils/balanceDeltas";
+import { lookupProtocol, protocolDisplayName } from "@/utils/protocolRegistry";
+import { TokenMetadata, WalletNetwork, fetchTokenMetadata, loadTokenMetadata, shortAddr } from "@/utils/walletActivity";
+import {
+  FetchTransfersPage,
+  WalletTransferItem,
+  fetchTransferHistory,
+  stxFlows,
+  txTime,
+} from "@/utils/walletFilters";
+
 /**
  * Wallet Story Mode
  *
- * This module will generate narrative summaries of wallet activity
- * on the Stacks blockchain to help non-technical users understand
- * their on-chain behavior.
- *
- * Current scope:
- * - Accept a wallet address
- * - Analyze recent transactions (read-only)
- * - Produce structured story sections
+ * Generates narrative summaries of wallet activity on the Stacks
+ * blockchain to help non-technical users understand their on-chain
+ * behavior.
  *
- * Implementation will be added incrementally.
+ * `generateWalletStory` is a pure function over an address's history
+ * (Hiro `/transactions_with_transfers` items, newest first), so a recorded
+ * history always produces the same story. `loadWalletStory` fetches that
+ * history and calls it.
  */
 
+export type WalletStoryItem = {
+  label: string;
+  value: string;
+  /** Transaction the item points at, when there is one. */
+  txid?: string;
+};
+
 export type WalletStorySection = {
+  id: string;
   title: string;
   description: string;
+  items?: WalletStoryItem[];
 };
 
 export type WalletStoryResult = {
   address: string;
+  network?: WalletNetwork;
   sections: WalletStorySection[];
+  transactionCount: number;
+  /** Time span the history covers. */
+  coversFrom: string | null;
+  coversTo: string | null;
+  /** True when older history exists that was not read. */
+  truncated: boolean;
 };
 
-/**
- * Placeholder function for Wallet Story generation.
- * Actual logic will be implemented in future iterations.
- */
-export function generateWalletStory(address: string): WalletStoryResult {
+export type WalletStoryOptions = {
+  network?: WalletNetwork;
+  truncated?: boolean;
+  /** STX movements at or above this count as notable (micro-STX). */
+  largeTransferMicroStx?: bigint;
+  /** Entries listed per ranked section. */
+  topN?: number;
+  /** SIP-010 metadata keyed by token contract id; tokens without it are shown in base units. */
+  tokens?: Record<string, TokenMetadata | null>;
+};
+
+const DEFAULT_LARGE_TRANSFER = 1_000_000_000n; // 1,000 STX
+const DEFAULT_TOP_N = 5;
+
+function toBigInt(value: any): bigint {
+  try {
+    return value === null || value === undefined || value === "" ? 0n : BigInt(value);
+  } catch {
+    return 0n;
+  }
+}
+
+function plural(n: number, word: string) {
+  return `${n} ${word}${n === 1 ? "" : "s"}`;
+}
+
+function shortAsset(assetId: string) {
+  const [contractId, name] = String(assetId).split("::");
+  return name || contractId.split(".")[1] || contractId;
+}
+
+function day(ms: number | null) {
+  return ms === null ? "an unknown date" : new Date(ms).toISOString().slice(0, 10);
+}
+
+function top<K>(counts: Map<K, number>, n: number) {
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, n);
+}
+
+function bump<K>(map: Map<K, number>, key: K, by = 1) {
+  map.set(key, (map.get(key) ?? 0) + by);
+}
+
+type Counterparty = { txs: Set<string>; sent: bigint; received: bigint };
+
+/** The other principals in each transfer, with STX sent to and received from each. */
+function counterparties(history: WalletTransferItem[], wallet: string) {
+  const parties = new Map<string, Counterparty>();
+
+  function touch(principal: string | undefined, txid: string) {
+    if (!principal || principal === wallet) return null;
+    const entry = parties.get(principal) ?? { txs: new Set<string>(), sent: 0n, received: 0n };
+    entry.txs.add(txid);
+    parties.set(principal, entry);
+    return entry;
+  }
+
+  for (const item of history) {
+    const tx = item.tx;
+    const txid = tx?.tx_id || "";
+
+    if (tx?.tx_type === "token_transfer") {
+      const amount = toBigInt(tx?.token_transfer?.amount);
+      if (tx?.sender_address === wallet) {
+        const entry = touch(tx?.token_transfer?.recipient_address, txid);
+        if (entry) entry.sent += amount;
+      } else {
+        const entry = touch(tx?.sender_address, txid);
+        if (entry) entry.received += amount;
+      }
+    }
+
+    for (const t of [...(item.ft_transfers || []), ...(item.nft_transfers || [])]) {
+      touch(t.sender === wallet ? t.recipient : t.sender, txid);
+    }
+
+    if (tx?.tx_type === "contract_call" && tx?.sender_address === wallet) {
+      touch(tx?.contract_call?.contract_id, txid);
+    }
+  }
+
+  return parties;
+}
+
+function feesSection(history: WalletTransferItem[], wallet: string): WalletStorySection {
+  let fees = 0n;
+  let paid = 0;
+  let sponsored = 0;
+
+  for (const item of history) {
+    if (item.tx?.sender_address !== wallet) continue;
+    if (item.tx?.sponsored) sponsored++;
+    const { fee } = stxFlows(item, wallet);
+    if (fee > 0n) {
+      fees += fee;
+      paid++;
+    }
+  }
+
+  const sponsoredNote = sponsored ? ` ${plural(sponsored, "transaction")} had the fee paid by a sponsor.` : "";
+  return {
+    id: "fees",
+    title: "Fees paid",
+    description: paid
+      ? `This wallet paid ${formatMicroStx(fees)} STX in network fees across ${plural(paid, "transaction")}.${sponsoredNote}`
+      : `This wallet has not paid any network fees in this history.${sponsoredNote}`,
+    items: [
+      { label: "Total fees", value: `${formatMicroStx(fees)} STX` },
+      { label: "Transactions paying a fee", value: String(paid) },
+    ],
+  };
+}
+
+function stxSection(history: WalletTransferItem[], wallet: string): WalletStorySection {
+  let sent = 0n;
+  let received = 0n;
+
+  for (const item of history) {
+    const flows = stxFlows(item, wallet);
+    sent += flows.sent;
+    received += flows.received;
+  }
+
+  const net = received - sent;
+  return {
+    id: "stx",
+    title: "STX in and out",
+    description:
+      sent === 0n && received === 0n
+        ? "No STX moved in or out of this wallet, apart from fees."
+        : `This wallet received ${formatMicroStx(received)} STX and sent ${formatMicroStx(sent)} STX, a net ${net >= 0n ? "gain" : "outflow"} of ${formatMicroStx(net >= 0n ? net : -net)} STX (fees not included).`,
+    items: [
+      { label: "Received", value: `${formatMicroStx(received)} STX` },
+      { label: "Sent", value: `${formatMicroStx(sent)} STX` },
+      { label: "Net", value: `${formatMicroStx(net)} STX` },
+    ],
+  };
+}
+
+function protocolsSection(history: WalletTransferItem[], wallet: string, network: WalletNetwork | undefined, topN: number): WalletStorySection {
+  const uses = new Map<string, number>();
+
+  for (const item of history) {
+    if (item.tx?.tx_type !== "contract_call" || item.tx?.sender_address !== wallet) continue;
+    const name = protocolDisplayName(lookupProtocol(item.tx?.contract_call?.contract_id, network));
+    if (name) bump(uses, name);
+  }
+
+  const ranked = top(uses, topN);
+  return {
+    id: "protocols",
+    title: "Most-used protocols",
+    description: ranked.length
+      ? `This wallet used ${ranked[0][0]} most (${plural(ranked[0][1], "call")})${ranked.length > 1 ? `, followed by ${ranked.slice(1).map(([name]) => name).join(", ")}` : ""}.`
+      : "This wallet has not called any recognized protocol.",
+    items: ranked.map(([name, count]) => ({ label: name, value: plural(count, "call") })),
+  };
+}
+
+function counterpartiesSection(history: WalletTransferItem[], wallet: string, network: WalletNetwork | undefined, topN: number): WalletStorySection {
+  const ranked = Array.from(counterparties(history, wallet).entries())
+    .sort((a, b) => b[1].txs.size - a[1].txs.size)
+    .slice(0, topN);
+
+  // Several contracts can belong to one protocol, so the contract name stays visible.
+  const label = (principal: string) => {
+    const protocol = protocolDisplayName(lookupProtocol(principal, network));
+    const [address, contractName] = principal.split(".");
+    if (!protocol) return contractName ? `${contractName} (${shortAddr(address)})` : shortAddr(principal);
+    return `${protocol} ${contractName || `(${shortAddr(address)})`}`;
+  };
+
+  return {
+    id: "counterparties",
+    title: "Top counterparties",
+    description: ranked.length
+      ? `This wallet dealt most often with ${label(ranked[0][0])}, in ${plural(ranked[0][1].txs.size, "transaction")}.`
+      : "This wallet has no counterparties in this history.",
+    items: ranked.map(([principal, entry]) => {
+      const stx = [
+        entry.sent ? `sent ${formatMicroStx(entry.sent)} STX` : "",
+        entry.received ? `received ${formatMicroStx(entry.received)} STX` : "",
+      ].filter(Boolean);
+      return {
+        label: label(principal),
+        value: `${plural(entry.txs.size, "transaction")}${stx.length ? ` · ${stx.join(", ")}` : ""}`,
+      };
+    }),
+  };
+}
+
+/** "+2.5 aeUSDC", or "+2500000 base units" when the token's decimals are unknown. */
+function tokenAmount(asset: string, net: bigint, tokens: Record<string, TokenMetadata | null>) {
+  const meta = tokens[asset.split("::")[0]];
+  const sign = net > 0n ? "+" : "";
+  return typeof meta?.decimals === "number"
+    ? `${sign}${formatUnits(net, meta.decimals)} ${meta.symbol || shortAsset(asset)}`
+    : `${sign}${net} base units`;
+}
+
+function assetsSection(
+  history: WalletTransferItem[],
+  wallet: string,
+  topN: number,
+  tokens: Record<string, TokenMetadata | null>
+): WalletStorySection {
+  const tokenNet = new Map<string, bigint>();
+  const nftsIn = new Map<string, number>();
+  const nftsOut = new Map<string, number>();
+
+  for (const item of history) {
+    for (const t of item.ft_transfers || []) {
+      const amount = toBigInt(t.amount);
+      if (t.recipient === wallet) tokenNet.set(t.asset_identifier, (tokenNet.get(t.asset_identifier) ?? 0n) + amount);
+      if (t.sender === wallet) tokenNet.set(t.asset_identifier, (tokenNet.get(t.asset_identifier) ?? 0n) - amount);
+    }
+    for (const t of item.nft_transfers || []) {
+      if (t.recipient === wallet) bump(nftsIn, t.asset_identifier);
+      if (t.sender === wallet) bump(nftsOut, t.asset_identifier);
+    }
+  }
+
+  const acquired = Array.from(tokenNet.entries()).filter(([, net]) => net > 0n);
+  const disposed = Array.from(tokenNet.entries()).filter(([, net]) => net < 0n);
+  const nftIn = Array.from(nftsIn.values()).reduce((a, b) => a + b, 0);
+  const nftOut = Array.from(nftsOut.values()).reduce((a, b) => a + b, 0);
+
+  const parts: string[] = [];
+  if (acquired.length) parts.push(`ended up with more of ${plural(acquired.length, "token")}`);
+  if (disposed.length) parts.push(`sold or sent away ${plural(disposed.length, "token")}`);
+  if (nftIn) parts.push(`acquired ${plural(nftIn, "NFT")}`);
+  if (nftOut) parts.push(`sold or sent ${plural(nftOut, "NFT")}`);
+
+  const items: WalletStoryItem[] = [
+    ...acquired.slice(0, topN).map(([asset, net]) => ({ label: `${shortAsset(asset)} acquired`, value: tokenAmount(asset, net, tokens) })),
+    ...disposed.slice(0, topN).map(([asset, net]) => ({ label: `${shortAsset(asset)} sold or sent`, value: tokenAmount(asset, net, tokens) })),
+    ...top(nftsIn, topN).map(([asset, n]) => ({ label: `${shortAsset(asset)} NFTs acquired`, value: String(n) })),
+    ...top(nftsOut, topN).map(([asset, n]) => ({ label: `${shortAsset(asset)} NFTs sold or sent`, value: String(n) })),
+  ];
+
+  return {
+    id: "assets",
+    title: "Tokens and NFTs",
+    description: parts.length
+      ? `This wallet ${parts.join(", ")}.`
+      : "No tokens or NFTs moved in or out of this wallet in this history.",
+    items,
+  };
+}
+
+function timelineSection(history: WalletTransferItem[], truncated: boolean): WalletStorySection {
+  const dated = history
+    .map((item) => ({ item, time: txTime(item.tx) }))
+    .filter((entry): entry is { item: WalletTransferItem; time: number } => entry.time !== null)
+    .sort((a, b) => a.time - b.time);
+
+  const first = dated[0];
+  const last = dated[dated.length - 1];
+
+  if (!first) {
+    return { id: "timeline", title: "First and latest activity", description: "This wallet has no dated activity yet." };
+  }
+
+  const firstLabel = truncated ? "Earliest activity read" : "First activity";
+  return {
+    id: "timeline",
+    title: "First and latest activity",
+    description: `${truncated ? "The earliest activity read here is" : "This wallet's first activity was"} on ${day(first.time)}, and its most recent on ${day(last.time)}.`,
+    items: [
+      { label: firstLabel, value: day(first.time), txid: first.item.tx?.tx_id },
+      { label: "Most recent activity", value: day(last.time), txid: last.item.tx?.tx_id },
+    ],
+  };
+}
+
+function notableSection(history: WalletTransferItem[], wallet: string, largeTransfer: bigint, topN: number): WalletStorySection {
+  const notable: Array<{ size: bigint; item: WalletStoryItem }> = [];
+
+  for (const item of history) {
+    const tx = item.tx;
+    const txid = tx?.tx_id;
+    const { sent, received } = stxFlows(item, wallet);
+
+    if (sent >= largeTransfer) {
+      notable.push({ size: sent, item: { label: `Sent ${formatMicroStx(sent)} STX`, value: day(txTime(tx)), txid } });
+    }
+    if (received >= largeTransfer) {
+      notable.push({ size: received, item: { label: `Received ${formatMicroStx(received)} STX`, value: day(txTime(tx)), txid } });
+    }
+    if (tx?.tx_type === "smart_contract" && tx?.sender_address === wallet) {
+      const contract = tx?.smart_contract?.contract_id || "a contract";
+      notable.push({ size: -1n, item: { label: `Deployed ${contract}`, value: day(txTime(tx)), txid } });
+    }
+  }
+
+  const large = notable.filter((n) => n.size >= 0n).sort((a, b) => (a.size < b.size ? 1 : a.size > b.size ? -1 : 0));
+  const deploys = notable.filter((n) => n.size < 0n);
+  const items = [...large.slice(0, topN), ...deploys.slice(0, topN)].map((n) => n.item);
+
+  const parts: string[] = [];
+  if (large.length) parts.push(`${plural(large.length, "large STX transfer")} of ${formatMicroStx(largeTransfer)} STX or more`);
+  if (deploys.length) parts.push(`${plural(deploys.length, "contract deployment")}`);
+
+  return {
+    id: "notable",
+    title: "Notable events",
+    description: parts.length ? `This history includes ${parts.join(" and ")}.` : "Nothing stands out: no large transfers or deployments.",
+    items,
+  };
+}
+
+/** Builds the story from an address's history, newest first. */
+export function generateWalletStory(
+  address: string,
+  history: WalletTransferItem[] = [],
+  options: WalletStoryOptions = {}
+): WalletStoryResult {
+  const topN = options.topN ?? DEFAULT_TOP_N;
+  const largeTransfer = options.largeTransferMicroStx ?? DEFAULT_LARGE_TRANSFER;
+  const truncated = options.truncated ?? false;
+  const times = history.map((item) => txTime(item.tx)).filter((t): t is number => t !== null);
+
   return {
     address,
-    sections: [],
+    network: options.network,
+    sections: history.length
+      ? [
+          timelineSection(history, truncated),
+          feesSection(history, address),
+          stxSection(history, address),
+          protocolsSection(history, address, options.network, topN),
+          counterpartiesSection(history, address, options.network, topN),
+          assetsSection(history, address, topN, options.tokens ?? {}),
+          notableSection(history, address, largeTransfer, topN),
+        ]
+      : [],
+    transactionCount: history.length,
+    coversFrom: times.length ? new Date(Math.min(...times)).toISOString() : null,
+    coversTo: times.length ? new Date(Math.max(...times)).toISOString() : null,
+    truncated,
   };
 }
+
+export type LoadWalletStoryOptions = WalletStoryOptions & {
+  fetchPage?: FetchTransfersPage;
+  fetchMetadata?: typeof fetchTokenMetadata;
+  /** Hiro pages of 50 to read at most. */
+  maxPages?: number;
+};
+
+/** Fetches the address's history (every page up to `maxPages`) and its tokens' metadata, then builds its story. */
+export async function loadWalletStory(
+  address: string,
+  network: WalletNetwork,
+  options: LoadWalletStoryOptions = {}
+): Promise<WalletStoryResult> {
+  const history = await fetchTransferHistory(address, network, {
+    maxPages: options.maxPages ?? 20,
+    fetchPage: options.fetchPage,
+  });
+
+  const tokenContracts = history.items.flatMap((item) =>
+    (item.ft_transfers || [])
+      .filter((t) => t.sender === address || t.recipient === address)
+      .map((t) => t.asset_identifier.split("::")[0])
+  );
+  const tokens = tokenContracts.length ? await loadTokenMetadata(tokenContracts, network, options.fetchMetadata) : {};
+
+  return generateWalletStory(address, history.items, { ...options, network, truncated: history.hasMore, tokens });
+}
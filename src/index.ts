@@ -4,6 +4,11 @@
  * This module exposes the main user-facing features of the project:
  * - Explain Transaction: converts Stacks transaction data into plain-English explanations
  * - Wallet Story Mode: generates narrative summaries of wallet activity
+ * - Wallet Ask: answers plain-English questions about a wallet's history
+ * - Wallet Portfolio: what a wallet holds now, linked to where it came from
+ * - Counterparty Graph: who a wallet interacts with, and what moved each way
+ * - Wallet Export: tax and accounting CSVs of a wallet's history
+ * - Wallet Report: cost basis and realized/unrealized gains per lot
  *
  * This file intentionally contains minimal logic and serves as a clear
  * integration point for future feature development.
@@ -11,7 +16,12 @@
 
 // Feature exports (scaffolded)
 export * from "./features/wallet-story";
-// export * from "./features/explain-transaction";
+export * from "./features/explain-transaction";
+export * from "./features/wallet-ask";
+export * from "./features/wallet-portfolio";
+export * from "./features/counterparty-graph";
+export * from "./features/wallet-export";
+export * from "./features/wallet-report";
 
 /**
  * Placeholder function to indicate project initialization.
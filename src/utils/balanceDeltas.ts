@@ -0,0 +1,202 @@
+import type { ParsedEvent, ParsedStacksTx } from "@/utils/parseStacksTx";
+
+/**
+ * Balance deltas
+ *
+ * Nets every asset movement in a transaction's events per principal, so a
+ * multi-hop swap collapses to what actually left and arrived at each
+ * address. The fee is kept out of the STX totals and reported on its own.
+ */
+
+export type FtDelta = {
+  asset: string;
+  /** Signed net amount in the token's base units. */
+  amount: string;
+  /** Signed net amount in whole units, when the token's decimals are known. */
+  formattedAmount?: string;
+};
+
+export type NftMovement = {
+  asset: string;
+  tokenId?: string;
+};
+
+export type PrincipalDelta = {
+  principal: string;
+  /** Signed net STX change in micro-STX, excluding the fee. */
+  stxMicro: string;
+  stx: string;
+  fts: FtDelta[];
+  nftsGained: NftMovement[];
+  nftsLost: NftMovement[];
+};
+
+export type BalanceDeltaTable = {
+  fee: {
+    payer?: string;
+    amountMicroStx: string;
+    amountStx: string;
+  };
+  principals: PrincipalDelta[];
+};
+
+type Accumulator = {
+  stx: bigint;
+  fts: Map<string, bigint>;
+  nftsGained: NftMovement[];
+  nftsLost: NftMovement[];
+};
+
+function toBigInt(value: any): bigint {
+  try {
+    if (value === null || value === undefined || value === "") return 0n;
+    return BigInt(value);
+  } catch {
+    return 0n;
+  }
+}
+
+/** Exact micro-STX → STX string, e.g. -1500000n → "-1.5". */
+export function formatMicroStx(micro: bigint): string {
+  const negative = micro < 0n;
+  const abs = negative ? -micro : micro;
+  const whole = abs / 1_000_000n;
+  const frac = (abs % 1_000_000n).toString().padStart(6, "0").replace(/0+$/, "");
+  return `${negative ? "-" : ""}${whole}${frac ? `.${frac}` : ""}`;
+}
+
+/** Exact base units → whole tokens, e.g. (150000000n, 8) → "1.5". */
+export function formatUnits(amount: bigint, decimals: number): string {
+  if (decimals <= 0) return amount.toString();
+  const negative = amount < 0n;
+  const abs = negative ? -amount : amount;
+  const scale = 10n ** BigInt(decimals);
+  const frac = (abs % scale).toString().padStart(decimals, "0").replace(/0+$/, "");
+  return `${negative ? "-" : ""}${abs / scale}${frac ? `.${frac}` : ""}`;
+}
+
+function sameNft(a: NftMovement, b: NftMovement) {
+  return a.asset === b.asset && a.tokenId === b.tokenId;
+}
+
+function applyEvent(get: (principal?: string) => Accumulator | null, ev: ParsedEvent) {
+  switch (ev.kind) {
+    case "stx_transfer": {
+      const amount = toBigInt(ev.amountMicroStx);
+      const from = get(ev.sender);
+      const to = get(ev.recipient);
+      if (from) from.stx -= amount;
+      if (to) to.stx += amount;
+      return;
+    }
+
+    case "stx_burn": {
+      const from = get(ev.sender);
+      if (from) from.stx -= toBigInt(ev.amountMicroStx);
+      return;
+    }
+
+    case "ft_transfer":
+    case "ft_mint":
+    case "ft_burn": {
+      const amount = toBigInt(ev.amount);
+      const from = ev.kind === "ft_mint" ? null : get(ev.sender);
+      const to = ev.kind === "ft_burn" ? null : get(ev.recipient);
+      if (from) from.fts.set(ev.asset, (from.fts.get(ev.asset) ?? 0n) - amount);
+      if (to) to.fts.set(ev.asset, (to.fts.get(ev.asset) ?? 0n) + amount);
+      return;
+    }
+
+    case "nft_transfer":
+    case "nft_mint":
+    case "nft_burn": {
+      const item: NftMovement = { asset: ev.asset, tokenId: ev.tokenId };
+      const from = ev.kind === "nft_mint" ? null : get(ev.sender);
+      const to = ev.kind === "nft_burn" ? null : get(ev.recipient);
+
+      // An NFT that passes through a principal and leaves again nets out.
+      if (from) {
+        const idx = from.nftsGained.findIndex((n) => sameNft(n, item));
+        if (idx >= 0) from.nftsGained.splice(idx, 1);
+        else from.nftsLost.push(item);
+      }
+      if (to) {
+        const idx = to.nftsLost.findIndex((n) => sameNft(n, item));
+        if (idx >= 0) to.nftsLost.splice(idx, 1);
+        else to.nftsGained.push(item);
+      }
+      return;
+    }
+
+    default:
+      // stx_lock keeps the STX with its owner; logs and calls move nothing.
+      return;
+  }
+}
+
+/** `decimals` (SIP-010 decimals per token contract id) adds whole-unit token amounts. */
+export function computeBalanceDeltas(
+  tx: Pick<ParsedStacksTx, "events" | "feeMicroStx" | "feePayer" | "sender">,
+  decimals: Record<string, number | null | undefined> = {}
+): BalanceDeltaTable {
+  const byPrincipal = new Map<string, Accumulator>();
+
+  const get = (principal?: string) => {
+    if (!principal) return null;
+    let acc = byPrincipal.get(principal);
+    if (!acc) {
+      acc = { stx: 0n, fts: new Map(), nftsGained: [], nftsLost: [] };
+      byPrincipal.set(principal, acc);
+    }
+    return acc;
+  };
+
+  for (const ev of Array.isArray(tx.events) ? tx.events : []) {
+    if (ev) applyEvent(get, ev);
+  }
+
+  const principals: PrincipalDelta[] = [];
+
+  for (const [principal, acc] of byPrincipal) {
+    const fts = Array.from(acc.fts.entries())
+      .filter(([, amount]) => amount !== 0n)
+      .map(([asset, amount]) => {
+        const d = decimals[asset.split("::")[0]];
+        return typeof d === "number"
+          ? { asset, amount: amount.toString(), formattedAmount: formatUnits(amount, d) }
+          : { asset, amount: amount.toString() };
+      });
+
+    if (acc.stx === 0n && fts.length === 0 && !acc.nftsGained.length && !acc.nftsLost.length) {
+      continue;
+    }
+
+    principals.push({
+      principal,
+      stxMicro: acc.stx.toString(),
+      stx: formatMicroStx(acc.stx),
+      fts,
+      nftsGained: acc.nftsGained,
+      nftsLost: acc.nftsLost,
+    });
+  }
+
+  const fee = toBigInt(tx.feeMicroStx);
+
+  return {
+    fee: {
+      payer: tx.feePayer || tx.sender,
+      amountMicroStx: fee.toString(),
+      amountStx: formatMicroStx(fee),
+    },
+    principals,
+  };
+}
+
+export function deltaForPrincipal(
+  table: BalanceDeltaTable | null | undefined,
+  principal?: string | null
+): PrincipalDelta | null {
+  if (!table || !principal) return null;
+  return table.principals.find((p) => p.principal === principal) || null;
+}
@@ -0,0 +1,135 @@
+/**
+ * Clarity error resolution
+ *
+ * Contract calls that end with `(err uN)` only expose a number. This module
+ * turns that number into the constant name the contract author gave it,
+ * first from a built-in table of well-known contracts and then from the
+ * `define-constant ERR-…` declarations in the contract's own source.
+ */
+
+export type ResolvedClarityError = {
+  /** Clarity literal of the error value, e.g. "u1001". */
+  code: string;
+  name?: string;
+  description?: string;
+  source: "builtin" | "contract_source" | "unknown";
+};
+
+type KnownErrors = Record<string, { name: string; description?: string }>;
+
+const POX_ERRORS: KnownErrors = {
+  "1": { name: "ERR_STACKING_INSUFFICIENT_FUNDS", description: "Not enough unlocked STX to stack." },
+  "2": { name: "ERR_STACKING_INVALID_LOCK_PERIOD", description: "The lock period is out of range." },
+  "3": { name: "ERR_STACKING_ALREADY_STACKED", description: "This account is already stacking." },
+  "4": { name: "ERR_STACKING_NO_SUCH_PRINCIPAL" },
+  "5": { name: "ERR_STACKING_EXPIRED" },
+  "6": { name: "ERR_STACKING_STX_LOCKED" },
+  "9": { name: "ERR_STACKING_PERMISSION_DENIED", description: "The caller is not allowed to stack for this account." },
+  "11": { name: "ERR_STACKING_THRESHOLD_NOT_MET", description: "The amount is below the stacking minimum." },
+  "12": { name: "ERR_STACKING_POX_ADDRESS_IN_USE" },
+  "13": { name: "ERR_STACKING_INVALID_POX_ADDRESS" },
+  "18": { name: "ERR_STACKING_INVALID_AMOUNT" },
+  "19": { name: "ERR_NOT_ALLOWED" },
+  "20": { name: "ERR_STACKING_ALREADY_DELEGATED", description: "This account has already delegated its STX." },
+  "21": { name: "ERR_DELEGATION_EXPIRES_DURING_LOCK" },
+  "22": { name: "ERR_DELEGATION_TOO_MUCH_LOCKED" },
+  "23": { name: "ERR_DELEGATION_POX_ADDR_REQUIRED" },
+  "24": { name: "ERR_INVALID_START_BURN_HEIGHT" },
+  "25": { name: "ERR_NOT_CURRENT_STACKER" },
+  "26": { name: "ERR_STACK_EXTEND_NOT_LOCKED" },
+  "27": { name: "ERR_STACK_INCREASE_NOT_LOCKED" },
+  "28": { name: "ERR_DELEGATION_NO_REWARD_SLOT" },
+  "29": { name: "ERR_DELEGATION_WRONG_REWARD_SLOT" },
+  "30": { name: "ERR_STACKING_IS_DELEGATED" },
+  "31": { name: "ERR_STACKING_NOT_DELEGATED" },
+};
+
+const BNS_ERRORS: KnownErrors = {
+  "1001": { name: "ERR_NAMESPACE_PREORDER_NOT_FOUND" },
+  "1002": { name: "ERR_NAMESPACE_PREORDER_EXPIRED" },
+  "1003": { name: "ERR_NAMESPACE_PREORDER_ALREADY_EXISTS" },
+  "1004": { name: "ERR_NAMESPACE_UNAVAILABLE" },
+  "1005": { name: "ERR_NAMESPACE_NOT_FOUND" },
+  "1006": { name: "ERR_NAMESPACE_ALREADY_EXISTS" },
+  "1007": { name: "ERR_NAMESPACE_NOT_LAUNCHED" },
+  "2001": { name: "ERR_NAME_PREORDER_NOT_FOUND" },
+  "2002": { name: "ERR_NAME_PREORDER_EXPIRED" },
+  "2003": { name: "ERR_NAME_PREORDER_FUNDS_INSUFFICIENT" },
+  "2004": { name: "ERR_NAME_UNAVAILABLE", description: "The name is already taken." },
+  "2006": { name: "ERR_NAME_OPERATION_UNAUTHORIZED" },
+  "2007": { name: "ERR_NAME_STX_BURNT_INSUFFICIENT" },
+  "2008": { name: "ERR_NAME_EXPIRED" },
+  "2013": { name: "ERR_NAME_NOT_FOUND" },
+};
+
+/** Keyed by contract name for boot contracts, which live at the same address on every network. */
+const BOOT_CONTRACT_ERRORS: Record<string, KnownErrors> = {
+  "pox-2": POX_ERRORS,
+  "pox-3": POX_ERRORS,
+  "pox-4": POX_ERRORS,
+  bns: BNS_ERRORS,
+};
+
+const BOOT_ADDRESSES = ["SP000000000000000000002Q6VF78", "ST000000000000000000002AMW42H"];
+
+function builtinErrorsFor(contractId: string): KnownErrors | null {
+  const [address, name] = contractId.split(".");
+  if (!BOOT_ADDRESSES.includes(address)) return null;
+  return BOOT_CONTRACT_ERRORS[name] || null;
+}
+
+/**
+ * Normalizes an error value to its Clarity literal. Accepts the repr Hiro
+ * returns ("(err u1001)"), a bare literal ("u1001") or decoded JS values.
+ */
+export function normalizeErrorCode(value: any): string | null {
+  if (value === null || value === undefined) return null;
+
+  const raw = String(value).trim();
+  const match = raw.match(/^\(?\s*(?:err\s+)?(u?-?\d+)\s*\)?$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Extracts `(define-constant NAME (err uN))` declarations from Clarity source.
+ * Returns a map from error literal to constant name.
+ */
+export function parseErrorConstants(sourceCode: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  const pattern = /\(define-constant\s+([A-Za-z0-9_\-!?]+)\s+\(err\s+(u?-?\d+)\s*\)\s*\)/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(sourceCode || "")) !== null) {
+    const [, name, code] = match;
+    if (!out[code]) out[code] = name;
+  }
+
+  return out;
+}
+
+export function resolveClarityError(
+  contractId: string | null | undefined,
+  errorValue: any,
+  sourceCode?: string | null
+): ResolvedClarityError | null {
+  const code = normalizeErrorCode(errorValue);
+  if (!code) return null;
+
+  const builtin = contractId ? builtinErrorsFor(contractId) : null;
+  const known = builtin?.[code];
+  if (known) {
+    return { code, name: known.name, description: known.description, source: "builtin" };
+  }
+
+  if (sourceCode) {
+    const name = parseErrorConstants(sourceCode)[code];
+    if (name) return { code, name, source: "contract_source" };
+  }
+
+  return { code, source: "unknown" };
+}
+
+/** True when the built-in table alone can name errors for this contract. */
+export function hasBuiltinErrors(contractId: string | null | undefined): boolean {
+  return Boolean(contractId && builtinErrorsFor(contractId));
+}
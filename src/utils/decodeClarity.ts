@@ -0,0 +1,130 @@
+import { ClarityValue, cvToString, deserializeCV } from "@stacks/transactions";
+
+export type DecodedClarityValue = {
+  type: string;
+  value: any;
+  repr: string;
+  display: string;
+};
+
+const DISPLAY_MAX_LENGTH = 80;
+
+function formatIntegerString(value: string): string {
+  const negative = value.startsWith("-");
+  const digits = negative ? value.slice(1) : value;
+  const grouped = digits.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+  return negative ? `-${grouped}` : grouped;
+}
+
+function truncateMiddle(value: string, max = DISPLAY_MAX_LENGTH): string {
+  if (value.length <= max) return value;
+  const keep = Math.floor((max - 1) / 2);
+  return `${value.slice(0, keep)}…${value.slice(-keep)}`;
+}
+
+/**
+ * Converts a Clarity value into plain JS data that survives JSON:
+ * integers become strings, buffers become 0x-prefixed hex, optionals
+ * collapse to the inner value or null, and responses become
+ * `{ ok, value }` objects.
+ */
+export function clarityToJs(cv: ClarityValue): any {
+  switch (cv.type) {
+    case "int":
+    case "uint":
+      return cv.value.toString();
+    case "buffer":
+      return `0x${cv.value}`;
+    case "true":
+      return true;
+    case "false":
+      return false;
+    case "address":
+    case "contract":
+      return cv.value;
+    case "ascii":
+    case "utf8":
+      return cv.value;
+    case "none":
+      return null;
+    case "some":
+      return clarityToJs(cv.value);
+    case "ok":
+      return { ok: true, value: clarityToJs(cv.value) };
+    case "err":
+      return { ok: false, value: clarityToJs(cv.value) };
+    case "list":
+      return cv.value.map(clarityToJs);
+    case "tuple": {
+      const out: Record<string, any> = {};
+      for (const [key, inner] of Object.entries(cv.value)) {
+        out[key] = clarityToJs(inner);
+      }
+      return out;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Short human-facing rendering: grouped integers, untagged principals and
+ * strings, and nested values kept on one line.
+ */
+export function clarityToDisplay(cv: ClarityValue): string {
+  switch (cv.type) {
+    case "int":
+    case "uint":
+      return formatIntegerString(cv.value.toString());
+    case "buffer":
+      return truncateMiddle(`0x${cv.value}`, 24);
+    case "true":
+      return "true";
+    case "false":
+      return "false";
+    case "address":
+    case "contract":
+      return cv.value;
+    case "ascii":
+    case "utf8":
+      return `"${cv.value}"`;
+    case "none":
+      return "none";
+    case "some":
+      return clarityToDisplay(cv.value);
+    case "ok":
+      return `ok ${clarityToDisplay(cv.value)}`;
+    case "err":
+      return `err ${clarityToDisplay(cv.value)}`;
+    case "list":
+      return `[${cv.value.map(clarityToDisplay).join(", ")}]`;
+    case "tuple":
+      return `{ ${Object.entries(cv.value)
+        .map(([key, inner]) => `${key}: ${clarityToDisplay(inner)}`)
+        .join(", ")} }`;
+    default:
+      return "";
+  }
+}
+
+export function decodeClarityValue(cv: ClarityValue): DecodedClarityValue {
+  return {
+    type: cv.type,
+    value: clarityToJs(cv),
+    repr: cvToString(cv),
+    display: truncateMiddle(clarityToDisplay(cv)),
+  };
+}
+
+export function decodeClarityHex(hex?: string | null): DecodedClarityValue | undefined {
+  if (!hex || typeof hex !== "string") return undefined;
+
+  const trimmed = hex.trim();
+  if (!/^(0x)?[0-9a-fA-F]+$/.test(trimmed)) return undefined;
+
+  try {
+    return decodeClarityValue(deserializeCV(trimmed));
+  } catch {
+    return undefined;
+  }
+}
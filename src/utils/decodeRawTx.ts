@@ -0,0 +1,368 @@
+import {
+  AddressHashMode,
+  AddressVersion,
+  AuthType,
+  ClarityValue,
+  PayloadType,
+  PostConditionMode,
+  SpendingCondition,
+  StacksTransactionWire,
+  StacksWireType,
+  TenureChangeCause,
+  addressFromVersionHash,
+  addressHashModeToVersion,
+  addressToString,
+  cvToString,
+  deserializeTransaction,
+  getAddressFromPublicKey,
+  getCVTypeString,
+  isSequentialMultiSig,
+  isSingleSig,
+  nextVerification,
+  publicKeyToHex,
+  serializeCV,
+  wireToPostCondition,
+} from "@stacks/transactions";
+
+/**
+ * Raw transaction decoding
+ *
+ * Deserializes a signed or unsigned Stacks transaction from its hex
+ * encoding and reshapes it into the same JSON layout Hiro returns from
+ * `/extended/v1/tx/{txid}`, so the regular parser can be reused as-is.
+ * Nothing here touches the network.
+ */
+
+export type RawTxNetwork = "mainnet" | "testnet";
+
+const CONDITION_CODES: Record<string, string> = {
+  eq: "sent_equal_to",
+  gt: "sent_greater_than",
+  gte: "sent_greater_than_or_equal_to",
+  lt: "sent_less_than",
+  lte: "sent_less_than_or_equal_to",
+  sent: "sent",
+  "not-sent": "not_sent",
+};
+
+export function isRawTxHex(input: string): boolean {
+  const raw = (input || "").trim();
+  const hex = raw.startsWith("0x") || raw.startsWith("0X") ? raw.slice(2) : raw;
+
+  // A txid is exactly 32 bytes; the smallest serialized transaction is far larger.
+  return hex.length > 64 && hex.length % 2 === 0 && /^[0-9a-fA-F]+$/.test(hex);
+}
+
+function networkFromTx(tx: StacksTransactionWire): RawTxNetwork {
+  // TransactionVersion.Mainnet is 0x00, every testnet-like chain uses 0x80.
+  return Number(tx.transactionVersion) === 0 ? "mainnet" : "testnet";
+}
+
+function spendingConditionAddress(condition: SpendingCondition, network: RawTxNetwork): string {
+  const version: AddressVersion = addressHashModeToVersion(
+    condition.hashMode as AddressHashMode,
+    network
+  );
+  return addressToString(addressFromVersionHash(version, condition.signer));
+}
+
+const TENURE_CHANGE_CAUSE_NAMES: Record<number, string> = {
+  [TenureChangeCause.BlockFound]: "block_found",
+  [TenureChangeCause.Extended]: "extended",
+  [TenureChangeCause.ExtendedRuntime]: "extended_runtime",
+  [TenureChangeCause.ExtendedReadCount]: "extended_read_count",
+  [TenureChangeCause.ExtendedReadLength]: "extended_read_length",
+  [TenureChangeCause.ExtendedWriteCount]: "extended_write_count",
+  [TenureChangeCause.ExtendedWriteLength]: "extended_write_length",
+};
+
+const HASH_MODE_NAMES: Record<number, string> = {
+  [AddressHashMode.P2PKH]: "p2pkh",
+  [AddressHashMode.P2SH]: "p2sh",
+  [AddressHashMode.P2WPKH]: "p2wpkh",
+  [AddressHashMode.P2WSH]: "p2wsh",
+  [AddressHashMode.P2SHNonSequential]: "p2sh_non_sequential",
+  [AddressHashMode.P2WSHNonSequential]: "p2wsh_non_sequential",
+};
+
+/**
+ * Describes who authorized a spending condition. For multisig origins the
+ * signer public keys are recovered from the signatures the same way the
+ * library verifies them, so fields that only carry a public key show up as
+ * signers that did not sign.
+ */
+function spendingConditionToJson(
+  condition: SpendingCondition,
+  network: RawTxNetwork,
+  initialSigHash?: string
+) {
+  const hashMode = HASH_MODE_NAMES[condition.hashMode] || String(condition.hashMode);
+  const base = {
+    hash_mode: hashMode,
+    address: spendingConditionAddress(condition, network),
+    nonce: Number(condition.nonce),
+    fee: condition.fee.toString(),
+  };
+
+  if (isSingleSig(condition)) {
+    return { ...base, type: "single_sig", signatures_required: 1, signers: [] };
+  }
+
+  const signers: Array<{ public_key?: string; address?: string; signed: boolean }> = [];
+  let curSigHash = initialSigHash;
+
+  for (const field of condition.fields) {
+    const contents: any = field.contents;
+
+    if (contents.type === StacksWireType.PublicKey) {
+      const publicKey = publicKeyToHex(contents.data);
+      signers.push({
+        public_key: publicKey,
+        address: getAddressFromPublicKey(publicKey, network),
+        signed: false,
+      });
+      continue;
+    }
+
+    if (!curSigHash) {
+      signers.push({ signed: true });
+      continue;
+    }
+
+    try {
+      const { pubKey, nextSigHash } = nextVerification(
+        curSigHash,
+        AuthType.Standard,
+        condition.fee,
+        condition.nonce,
+        field.pubKeyEncoding,
+        contents.data
+      );
+      if (isSequentialMultiSig(condition.hashMode)) curSigHash = nextSigHash;
+
+      const publicKey = publicKeyToHex(pubKey.data);
+      signers.push({
+        public_key: publicKey,
+        address: getAddressFromPublicKey(publicKey, network),
+        signed: true,
+      });
+    } catch {
+      signers.push({ signed: true });
+    }
+  }
+
+  return {
+    ...base,
+    type: "multi_sig",
+    signatures_required: condition.signaturesRequired,
+    signers,
+  };
+}
+
+function toHex(cv: ClarityValue): string {
+  return `0x${serializeCV(cv)}`;
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return `0x${Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("")}`;
+}
+
+function utf8ToHex(value: string): string {
+  return bytesToHex(new TextEncoder().encode(value));
+}
+
+function principalToHiro(address: string, sender: string) {
+  if (address === "origin") {
+    return { type_id: "principal_origin", address: sender };
+  }
+
+  const [contractAddress, contractName] = address.split(".");
+  if (contractName) {
+    return {
+      type_id: "principal_contract",
+      address: contractAddress,
+      contract_name: contractName,
+    };
+  }
+
+  return { type_id: "principal_standard", address };
+}
+
+function assetToHiro(asset: string) {
+  const [contractId, assetName] = asset.split("::");
+  const [contractAddress, contractName] = contractId.split(".");
+  return {
+    asset_name: assetName,
+    contract_address: contractAddress,
+    contract_name: contractName,
+  };
+}
+
+function postConditionsToHiro(tx: StacksTransactionWire, sender: string) {
+  return tx.postConditions.values.map((wire: any) => {
+    const pc = wireToPostCondition(wire);
+    const principal = principalToHiro(pc.address, sender);
+    const conditionCode = CONDITION_CODES[pc.condition] || pc.condition;
+
+    if (pc.type === "stx-postcondition") {
+      return {
+        type: "stx",
+        condition_code: conditionCode,
+        amount: String(pc.amount),
+        principal,
+      };
+    }
+
+    if (pc.type === "ft-postcondition") {
+      return {
+        type: "fungible",
+        condition_code: conditionCode,
+        amount: String(pc.amount),
+        principal,
+        asset: assetToHiro(pc.asset),
+      };
+    }
+
+    return {
+      type: "non_fungible",
+      condition_code: conditionCode,
+      principal,
+      asset: assetToHiro(pc.asset),
+      asset_value: { hex: toHex(pc.assetId), repr: cvToString(pc.assetId) },
+    };
+  });
+}
+
+function payloadToHiro(tx: StacksTransactionWire, sender: string): Record<string, any> {
+  const payload: any = tx.payload;
+
+  switch (payload.payloadType) {
+    case PayloadType.TokenTransfer:
+      return {
+        tx_type: "token_transfer",
+        token_transfer: {
+          recipient_address: cvToString(payload.recipient),
+          amount: String(payload.amount),
+          memo: utf8ToHex(payload.memo?.content || ""),
+        },
+      };
+
+    case PayloadType.ContractCall: {
+      const contractId = `${addressToString(payload.contractAddress)}.${payload.contractName.content}`;
+      return {
+        tx_type: "contract_call",
+        contract_call: {
+          contract_id: contractId,
+          function_name: payload.functionName.content,
+          function_args: payload.functionArgs.map((cv: ClarityValue) => ({
+            hex: toHex(cv),
+            repr: cvToString(cv),
+            type: getCVTypeString(cv),
+          })),
+        },
+      };
+    }
+
+    case PayloadType.SmartContract:
+    case PayloadType.VersionedSmartContract:
+      return {
+        tx_type: "smart_contract",
+        smart_contract: {
+          clarity_version: payload.clarityVersion ?? null,
+          contract_id: `${sender}.${payload.contractName.content}`,
+          source_code: payload.codeBody.content,
+        },
+      };
+
+    case PayloadType.PoisonMicroblock:
+      return { tx_type: "poison_microblock" };
+
+    case PayloadType.Coinbase:
+    case PayloadType.CoinbaseToAltRecipient:
+    case PayloadType.NakamotoCoinbase:
+      return {
+        tx_type: "coinbase",
+        coinbase_payload: {
+          data: bytesToHex(payload.coinbaseBytes),
+          alt_recipient: payload.recipient ? cvToString(payload.recipient) : null,
+          vrf_proof: payload.vrfProof ? bytesToHex(payload.vrfProof) : null,
+        },
+      };
+
+    case PayloadType.TenureChange:
+      return {
+        tx_type: "tenure_change",
+        tenure_change_payload: {
+          tenure_consensus_hash: payload.tenureHash,
+          prev_tenure_consensus_hash: payload.previousTenureHash,
+          burn_view_consensus_hash: payload.burnViewHash,
+          previous_tenure_end: payload.previousTenureEnd,
+          previous_tenure_blocks: payload.previousTenureBlocks,
+          cause: TENURE_CHANGE_CAUSE_NAMES[payload.cause] ?? String(payload.cause),
+          pubkey_hash: payload.publicKeyHash,
+        },
+      };
+
+    default:
+      return { tx_type: "unknown" };
+  }
+}
+
+/**
+ * Decodes a serialized transaction into a Hiro-shaped JSON object. The
+ * network is taken from the transaction version byte unless given.
+ */
+export function decodeRawTransaction(hex: string, network?: RawTxNetwork) {
+  const tx = deserializeTransaction(hex.trim());
+  const resolvedNetwork = network ?? networkFromTx(tx);
+
+  const origin = tx.auth.spendingCondition;
+  const sender = spendingConditionAddress(origin, resolvedNetwork);
+  const sponsored = tx.auth.authType === AuthType.Sponsored;
+  const sponsorCondition = sponsored ? (tx.auth as any).sponsorSpendingCondition : null;
+
+  const feePayer: SpendingCondition = sponsorCondition || origin;
+
+  let initialSigHash: string | undefined;
+  try {
+    initialSigHash = tx.verifyBegin();
+  } catch {
+    initialSigHash = undefined;
+  }
+
+  return {
+    network: resolvedNetwork,
+    json: {
+      tx_id: `0x${tx.txid()}`,
+      nonce: Number(origin.nonce),
+      fee_rate: feePayer.fee.toString(),
+      sender_address: sender,
+      sponsored,
+      sponsor_address: sponsorCondition
+        ? spendingConditionAddress(sponsorCondition, resolvedNetwork)
+        : undefined,
+      sponsor_nonce: sponsorCondition ? Number(sponsorCondition.nonce) : undefined,
+      spending_condition: spendingConditionToJson(origin, resolvedNetwork, initialSigHash),
+      sponsor_spending_condition: sponsorCondition
+        ? spendingConditionToJson(sponsorCondition, resolvedNetwork)
+        : undefined,
+      post_condition_mode:
+        tx.postConditionMode === PostConditionMode.Allow ? "allow" : "deny",
+      post_conditions: postConditionsToHiro(tx, sender),
+      ...payloadToHiro(tx, sender),
+    },
+  };
+}
+
+/**
+ * Reads only the authorization part of a serialized transaction. Hiro's
+ * transaction JSON omits spending conditions, so multisig details come from
+ * the raw bytes.
+ */
+export function decodeSpendingConditions(hex: string, network: RawTxNetwork) {
+  const decoded = decodeRawTransaction(hex, network).json;
+  return {
+    spending_condition: decoded.spending_condition,
+    sponsor_spending_condition: decoded.sponsor_spending_condition,
+  };
+}
@@ -0,0 +1,285 @@
+import type { Network, ParsedStacksTx } from "@/utils/parseStacksTx";
+
+/**
+ * Fee analysis
+ *
+ * Puts a transaction's fee in context: fee per byte, and how it compares
+ * with fees paid by the same kind of transaction in the same or nearby
+ * blocks. Unconfirmed transactions are compared with Hiro's current mempool
+ * fee estimates instead. Raw transactions pasted as hex are decoded offline,
+ * so they only get their fee per byte.
+ *
+ * All network access goes through an injected `fetchJson`, and every result
+ * goes through a cache, so the analysis can run against recorded responses
+ * (see `createFixtureFetcher`) and confirmed transactions are fetched once.
+ */
+
+export type FeeAnalysis = {
+  txType: string;
+  feeMicroStx: string;
+  sizeBytes: number | null;
+  feePerByteMicroStx: number | null;
+  /** "block" compares with confirmed peers, "mempool" with current estimates. */
+  basis: "block" | "mempool" | "none";
+  blocks: number[];
+  sampleSize: number;
+  medianMicroStx: string | null;
+  p25MicroStx: string | null;
+  p75MicroStx: string | null;
+  p90MicroStx: string | null;
+  /** Fee divided by the median (or by the mempool medium-priority estimate). */
+  ratioToTypical: number | null;
+  /** Share of the sample that paid this fee or less, 0–100. */
+  percentile: number | null;
+  /** Sentence fragment, e.g. "about 3× the typical fee for a contract call at that time". */
+  label: string;
+};
+
+export type FetchJson = (url: string) => Promise<any>;
+
+export type FeeCache = {
+  get(key: string): any | undefined;
+  set(key: string, value: any): void;
+};
+
+export type FeeAnalyzerOptions = {
+  fetchJson: FetchJson;
+  cache?: FeeCache;
+  baseUrls?: Record<Network, string>;
+  /** Peers needed before the search widens to neighbouring blocks. */
+  minSample?: number;
+  /** How many blocks either side of the transaction's block to search at most. */
+  maxBlockRadius?: number;
+};
+
+const DEFAULT_BASE_URLS: Record<Network, string> = {
+  mainnet: "https://api.hiro.so",
+  testnet: "https://api.testnet.hiro.so",
+};
+
+const TX_TYPE_LABELS: Record<string, string> = {
+  token_transfer: "an STX transfer",
+  contract_call: "a contract call",
+  smart_contract: "a contract deployment",
+};
+
+/** Map-backed cache that drops the oldest entry once `maxEntries` is reached. */
+export function createMemoryCache(maxEntries = 500): FeeCache {
+  const store = new Map<string, any>();
+
+  return {
+    get(key) {
+      return store.get(key);
+    },
+    set(key, value) {
+      if (store.has(key)) store.delete(key);
+      store.set(key, value);
+      if (store.size > maxEntries) store.delete(store.keys().next().value);
+    },
+  };
+}
+
+/**
+ * Serves recorded Hiro responses keyed by URL path and query, e.g.
+ * `/extended/v2/blocks/1000/transactions?limit=50`. Unknown URLs reject, so
+ * a missing fixture fails loudly instead of reaching the network.
+ */
+export function createFixtureFetcher(fixtures: Record<string, any>): FetchJson {
+  return async (url: string) => {
+    const parsed = new URL(url);
+    const key = `${parsed.pathname}${parsed.search}`;
+    if (!(key in fixtures)) throw new Error(`No fixture recorded for ${key}`);
+    return fixtures[key];
+  };
+}
+
+async function cached<T>(cache: FeeCache, key: string, load: () => Promise<T>): Promise<T> {
+  const hit = cache.get(key);
+  if (hit !== undefined) return hit;
+  const value = await load();
+  cache.set(key, value);
+  return value;
+}
+
+function toBigInt(value: any): bigint | null {
+  try {
+    if (value === null || value === undefined || value === "") return null;
+    return BigInt(value);
+  } catch {
+    return null;
+  }
+}
+
+function quantile(sorted: bigint[], q: number): bigint | null {
+  if (sorted.length === 0) return null;
+  const idx = Math.min(sorted.length - 1, Math.max(0, Math.round(q * (sorted.length - 1))));
+  return sorted[idx];
+}
+
+function formatRatio(ratio: number) {
+  if (ratio >= 10) return `${Math.round(ratio)}×`;
+  return `${ratio.toFixed(1).replace(/\.0$/, "")}×`;
+}
+
+function describeRatio(ratio: number | null, txType: string, basis: FeeAnalysis["basis"]) {
+  const kind = TX_TYPE_LABELS[txType] || "this kind of transaction";
+  const reference =
+    basis === "mempool" ? `the current medium-priority fee for ${kind}` : `the typical fee for ${kind} at that time`;
+
+  if (ratio === null) return `not comparable: too few similar transactions to judge the fee for ${kind}`;
+  if (ratio >= 0.75 && ratio <= 1.33) return `about ${reference}`;
+  return `about ${formatRatio(ratio)} ${reference}`;
+}
+
+export function createFeeAnalyzer(options: FeeAnalyzerOptions) {
+  const cache = options.cache ?? createMemoryCache();
+  const baseUrls = options.baseUrls ?? DEFAULT_BASE_URLS;
+  const minSample = options.minSample ?? 5;
+  const maxRadius = options.maxBlockRadius ?? 2;
+
+  function blockTransactions(network: Network, height: number): Promise<any[]> {
+    const url = `${baseUrls[network]}/extended/v2/blocks/${height}/transactions?limit=50`;
+    return cached(cache, `block-txs:${network}:${height}`, async () => {
+      const json = await options.fetchJson(url);
+      return Array.isArray(json?.results) ? json.results : [];
+    });
+  }
+
+  function mempoolFees(network: Network): Promise<any> {
+    // Mempool estimates change every block, so they are not cached.
+    return options.fetchJson(`${baseUrls[network]}/extended/v2/mempool/fees`);
+  }
+
+  async function rawSize(tx: ParsedStacksTx): Promise<number | null> {
+    const inline = tx.raw?.raw_tx;
+    if (typeof inline === "string") return inline.replace(/^0x/, "").length / 2;
+    if (tx.origin === "raw_hex" || !tx.txid) return null;
+
+    const url = `${baseUrls[tx.network]}/extended/v1/tx/${tx.txid}/raw`;
+    return cached(cache, `raw-size:${tx.network}:${tx.txid}`, async () => {
+      try {
+        const json = await options.fetchJson(url);
+        return typeof json?.raw_tx === "string" ? json.raw_tx.replace(/^0x/, "").length / 2 : null;
+      } catch {
+        return null;
+      }
+    });
+  }
+
+  async function peerFees(tx: ParsedStacksTx, txType: string) {
+    const fees: bigint[] = [];
+    const blocks: number[] = [];
+    const height = tx.blockHeight as number;
+
+    for (let radius = 0; radius <= maxRadius && fees.length < minSample; radius++) {
+      const heights = radius === 0 ? [height] : [height - radius, height + radius];
+
+      for (const h of heights) {
+        if (h < 0) continue;
+        let results: any[];
+        try {
+          results = await blockTransactions(tx.network, h);
+        } catch {
+          continue;
+        }
+        blocks.push(h);
+
+        for (const peer of results) {
+          if (peer?.tx_id === tx.txid || peer?.tx_type !== txType) continue;
+          const fee = toBigInt(peer?.fee_rate);
+          if (fee !== null) fees.push(fee);
+        }
+      }
+    }
+
+    return { fees: fees.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0)), blocks: blocks.sort((a, b) => a - b) };
+  }
+
+  async function analyzeFresh(tx: ParsedStacksTx): Promise<FeeAnalysis> {
+    const txType = tx.type || "unknown";
+    const fee = toBigInt(tx.feeMicroStx) ?? 0n;
+    const sizeBytes = await rawSize(tx);
+    const feePerByteMicroStx = sizeBytes ? Number(fee) / sizeBytes : null;
+
+    const base = {
+      txType,
+      feeMicroStx: fee.toString(),
+      sizeBytes,
+      feePerByteMicroStx: feePerByteMicroStx !== null ? Math.round(feePerByteMicroStx * 100) / 100 : null,
+    };
+
+    if (tx.origin === "raw_hex") {
+      return {
+        ...base,
+        basis: "none",
+        blocks: [],
+        sampleSize: 0,
+        medianMicroStx: null,
+        p25MicroStx: null,
+        p75MicroStx: null,
+        p90MicroStx: null,
+        ratioToTypical: null,
+        percentile: null,
+        label: "not compared: raw transactions are explained without calling Hiro",
+      };
+    }
+
+    if (typeof tx.blockHeight === "number") {
+      const { fees, blocks } = await peerFees(tx, txType);
+      const median = quantile(fees, 0.5);
+      const ratio = median && median > 0n ? Number(fee) / Number(median) : null;
+      const atOrBelow = fees.filter((f) => f <= fee).length;
+
+      return {
+        ...base,
+        basis: fees.length ? "block" : "none",
+        blocks,
+        sampleSize: fees.length,
+        medianMicroStx: median?.toString() ?? null,
+        p25MicroStx: quantile(fees, 0.25)?.toString() ?? null,
+        p75MicroStx: quantile(fees, 0.75)?.toString() ?? null,
+        p90MicroStx: quantile(fees, 0.9)?.toString() ?? null,
+        ratioToTypical: ratio !== null ? Math.round(ratio * 100) / 100 : null,
+        percentile: fees.length ? Math.round((atOrBelow / fees.length) * 100) : null,
+        label: describeRatio(ratio, txType, "block"),
+      };
+    }
+
+    let estimate: bigint | null = null;
+    try {
+      const json = await mempoolFees(tx.network);
+      estimate = toBigInt(json?.[txType]?.medium_priority ?? json?.all?.medium_priority);
+    } catch {
+      estimate = null;
+    }
+
+    const ratio = estimate && estimate > 0n ? Number(fee) / Number(estimate) : null;
+
+    return {
+      ...base,
+      basis: estimate !== null ? "mempool" : "none",
+      blocks: [],
+      sampleSize: 0,
+      medianMicroStx: estimate?.toString() ?? null,
+      p25MicroStx: null,
+      p75MicroStx: null,
+      p90MicroStx: null,
+      ratioToTypical: ratio !== null ? Math.round(ratio * 100) / 100 : null,
+      percentile: null,
+      label: describeRatio(ratio, txType, "mempool"),
+    };
+  }
+
+  /**
+   * Confirmed transactions never change, so their analysis is cached by
+   * txid; pending and raw transactions are recomputed each time.
+   */
+  async function analyze(tx: ParsedStacksTx): Promise<FeeAnalysis> {
+    if (typeof tx.blockHeight === "number" && tx.txid) {
+      return cached(cache, `fee-analysis:${tx.network}:${tx.txid}`, () => analyzeFresh(tx));
+    }
+    return analyzeFresh(tx);
+  }
+
+  return { analyze };
+}
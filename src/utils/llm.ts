@@ -0,0 +1,76 @@
+import OpenAI from "openai";
+
+/**
+ * OpenAI-compatible chat access
+ *
+ * Shared by every optional LLM feature. `baseURL` may point at a local
+ * OpenAI-compatible server; features take a `CompleteChat` so recorded
+ * answers can stand in for the network.
+ */
+
+export type ChatMessage = { role: "system" | "user"; content: string };
+
+/** Sends the messages and returns the model's text. */
+export type CompleteChat = (messages: ChatMessage[], signal: AbortSignal) => Promise<string>;
+
+export type ChatConfig = {
+  model: string;
+  timeoutMs: number;
+  complete: CompleteChat;
+};
+
+export const DEFAULT_CHAT_MODEL = "gpt-4o-mini";
+export const DEFAULT_CHAT_TIMEOUT_MS = 8000;
+
+/** `complete` backed by the `openai` client. */
+export function openAiCompletion(client: OpenAI, model: string, maxTokens = 300): CompleteChat {
+  return async (messages, signal) => {
+    const res = await client.chat.completions.create(
+      { model, messages, temperature: 0.2, max_tokens: maxTokens },
+      { signal }
+    );
+    return res.choices?.[0]?.message?.content ?? "";
+  };
+}
+
+/**
+ * Chat config from the environment, or null when none is configured:
+ * `NARRATIVE_BASE_URL` (or `OPENAI_BASE_URL`) for a compatible server,
+ * `OPENAI_API_KEY`, `NARRATIVE_MODEL` and `NARRATIVE_TIMEOUT_MS`.
+ */
+export function chatFromEnv(env: Record<string, string | undefined> = process.env): ChatConfig | null {
+  const baseURL = env.NARRATIVE_BASE_URL || env.OPENAI_BASE_URL || undefined;
+  const apiKey = env.OPENAI_API_KEY;
+  if (!apiKey && !baseURL) return null;
+
+  const model = env.NARRATIVE_MODEL || DEFAULT_CHAT_MODEL;
+  const timeoutMs = Number(env.NARRATIVE_TIMEOUT_MS) || DEFAULT_CHAT_TIMEOUT_MS;
+
+  // Local servers usually ignore the key, but the client requires one.
+  const client = new OpenAI({ apiKey: apiKey || "not-needed", baseURL, maxRetries: 0, timeout: timeoutMs });
+  return { model, timeoutMs, complete: openAiCompletion(client, model) };
+}
+
+/** Runs `complete` with a hard timeout; rejects with "timed out after N ms". */
+export async function completeWithTimeout(
+  complete: CompleteChat,
+  messages: ChatMessage[],
+  timeoutMs: number
+): Promise<string> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    return await Promise.race([
+      complete(messages, controller.signal),
+      new Promise<never>((_, reject) =>
+        controller.signal.addEventListener("abort", () => reject(new Error(`timed out after ${timeoutMs} ms`)))
+      ),
+    ]);
+  } catch (error: any) {
+    if (controller.signal.aborted) throw new Error(`timed out after ${timeoutMs} ms`);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -1,3 +1,7 @@
+import { decodeClarityHex } from "@/utils/decodeClarity";
+import { decodeRawTransaction, decodeSpendingConditions } from "@/utils/decodeRawTx";
+import { ResolvedClarityError, normalizeErrorCode, resolveClarityError } from "@/utils/clarityErrors";
+
 export type Network = "mainnet" | "testnet";
 
 export type ParsedEvent =
@@ -28,6 +32,63 @@ export type ParsedEvent =
       tokenId?: string;
       raw?: any;
     }
+  | {
+      kind: "stx_burn";
+      asset: "STX";
+      sender?: string;
+      amountMicroStx: string;
+      amountStx?: string;
+      raw?: any;
+    }
+  | {
+      kind: "stx_lock";
+      asset: "STX";
+      lockedAddress?: string;
+      lockedAmountMicroStx: string;
+      lockedAmountStx?: string;
+      unlockHeight?: number;
+      raw?: any;
+    }
+  | {
+      kind: "ft_mint";
+      asset: string;
+      recipient?: string;
+      amount: string;
+      raw?: any;
+    }
+  | {
+      kind: "ft_burn";
+      asset: string;
+      sender?: string;
+      amount: string;
+      raw?: any;
+    }
+  | {
+      kind: "nft_mint";
+      asset: string;
+      recipient?: string;
+      tokenId?: string;
+      raw?: any;
+    }
+  | {
+      kind: "nft_burn";
+      asset: string;
+      sender?: string;
+      tokenId?: string;
+      raw?: any;
+    }
+  | {
+      kind: "contract_log";
+      contractId?: string;
+      topic?: string;
+      /** "notification" for {notification, payload}, "action" for {action, data}. */
+      shape: "notification" | "action" | "value";
+      action?: string;
+      payload?: any;
+      value: any;
+      repr?: string;
+      raw?: any;
+    }
   | {
       kind: "contract_call";
       contractId: string;
@@ -45,6 +106,15 @@ export type ParsedEvent =
       raw?: any;
     };
 
+export type ParsedFunctionArg = {
+  name?: string;
+  type?: string;
+  value: any;
+  repr?: string;
+  display: string;
+  hex?: string;
+};
+
 export type ParsedPostCondition = {
   type: "stx" | "fungible_token" | "non_fungible_token" | "unknown";
   principal?: string;
@@ -54,27 +124,94 @@ export type ParsedPostCondition = {
   amountStx?: string;
   tokenId?: string;
   summary: string;
+  /** Outcome of checking the rule against the parsed asset events. */
+  result?: "satisfied" | "violated" | "not_evaluable";
+  observedAmount?: string;
+  observedAmountStx?: string;
+  resultSummary?: string;
   raw?: any;
 };
 
+export type ParsedSpendingCondition = {
+  type: "single_sig" | "multi_sig";
+  hashMode?: string;
+  address?: string;
+  signaturesRequired?: number;
+  /** Signatures actually present; only known when the raw transaction was decoded. */
+  signatureCount?: number;
+  signers: Array<{ publicKey?: string; address?: string; signed: boolean }>;
+};
+
+export type ParsedCoinbase = {
+  altRecipient?: string;
+  /** Nakamoto coinbases carry a VRF proof; pre-Nakamoto ones do not. */
+  hasVrfProof: boolean;
+  vrfProof?: string;
+  data?: string;
+};
+
+export type ParsedTenureChange = {
+  cause: string;
+  causeLabel: string;
+  tenureConsensusHash?: string;
+  previousTenureConsensusHash?: string;
+  burnViewConsensusHash?: string;
+  previousTenureEnd?: string;
+  previousTenureBlocks?: number;
+  /** Hash160 of the miner's signing key for the tenure. */
+  signerPubkeyHash?: string;
+};
+
+export type ParsedPoisonMicroblock = {
+  microblockHeaders: string[];
+};
+
+export type ParsedTxResult = {
+  ok: boolean;
+  type?: string;
+  value: any;
+  repr?: string;
+  /** Clarity literal of the err value, e.g. "u1001", when the call returned (err …). */
+  errorCode?: string;
+};
+
 export type ParsedStacksTx = {
   network: Network;
   txid: string;
+  /** "raw_hex" when built offline from a serialized tx: no status, block or events. */
+  origin?: "api" | "raw_hex";
   status?: string;
   type?: string;
   sender?: string;
+  nonce?: number;
   recipientOrTarget?: string;
   contractId?: string;
   functionName?: string;
+  functionArgs?: ParsedFunctionArg[];
   memo?: string;
   memoDecoded?: string;
 
   feeMicroStx?: string;
   feeStx?: string;
+  /** Who paid the fee: the sponsor for sponsored transactions, else the sender. */
+  feePayer?: string;
+
+  sponsored?: boolean;
+  sponsor?: string;
+  sponsorNonce?: number;
+  spendingCondition?: ParsedSpendingCondition;
+  sponsorSpendingCondition?: ParsedSpendingCondition;
 
   amountMicroStx?: string;
   amountStx?: string;
 
+  coinbase?: ParsedCoinbase;
+  tenureChange?: ParsedTenureChange;
+  poisonMicroblock?: ParsedPoisonMicroblock;
+
+  txResult?: ParsedTxResult;
+  failureReason?: ResolvedClarityError;
+
   blockHeight?: number;
   timestamp?: string;
   canonical?: boolean;
@@ -299,6 +436,11 @@ function parsePrimaryFields(tx: any) {
     tx?.receipt_time_iso ||
     undefined;
 
+  const nonce =
+    typeof tx?.nonce === "number"
+      ? tx.nonce
+      : undefined;
+
   const txidRaw =
     tx?.tx_id ||
     tx?.txid ||
@@ -306,7 +448,169 @@ function parsePrimaryFields(tx: any) {
 
   const txid = normalizeStacksTxid(txidRaw);
 
-  return { sender, status, blockHeight, canonical, timestamp, txid };
+  return { sender, status, nonce, blockHeight, canonical, timestamp, txid };
+}
+
+function parseFunctionArg(arg: any): ParsedFunctionArg {
+  const hex = typeof arg?.hex === "string" ? arg.hex : undefined;
+  const decoded = decodeClarityHex(hex);
+  const repr = decoded?.repr ?? (arg?.repr !== undefined ? String(arg.repr) : undefined);
+
+  return {
+    name: arg?.name || undefined,
+    type: arg?.type || decoded?.type || undefined,
+    value: decoded ? decoded.value : repr ?? null,
+    repr,
+    display: decoded?.display ?? repr ?? "?",
+    hex,
+  };
+}
+
+function parseFunctionArgs(contractCall: any): ParsedFunctionArg[] {
+  const raw = contractCall?.function_args;
+  if (!Array.isArray(raw)) return [];
+  return raw.map(parseFunctionArg);
+}
+
+function parseSpendingConditionJson(sc: any): ParsedSpendingCondition | undefined {
+  if (!sc || typeof sc !== "object") return undefined;
+
+  const signers = Array.isArray(sc.signers)
+    ? sc.signers.map((signer: any) => ({
+        publicKey: signer?.public_key || undefined,
+        address: signer?.address || undefined,
+        signed: Boolean(signer?.signed),
+      }))
+    : [];
+
+  return {
+    type: sc.type === "multi_sig" ? "multi_sig" : "single_sig",
+    hashMode: sc.hash_mode || undefined,
+    address: sc.address || undefined,
+    signaturesRequired:
+      typeof sc.signatures_required === "number" ? sc.signatures_required : undefined,
+    signatureCount:
+      sc.type === "multi_sig" ? signers.filter((signer: any) => signer.signed).length : 1,
+    signers,
+  };
+}
+
+function spendingConditionFromAddress(address?: string): ParsedSpendingCondition | undefined {
+  if (!address) return undefined;
+
+  // SM / SN are the multisig address versions on mainnet / testnet.
+  const multi = /^(SM|SN)/i.test(address);
+  return { type: multi ? "multi_sig" : "single_sig", address, signers: [] };
+}
+
+function parseAuthorization(tx: any, sender: string | undefined, network: Network) {
+  let spendingJson = tx?.spending_condition;
+  let sponsorJson = tx?.sponsor_spending_condition;
+
+  if (!spendingJson && typeof tx?.raw_tx === "string") {
+    try {
+      const decoded = decodeSpendingConditions(tx.raw_tx, network);
+      spendingJson = decoded.spending_condition;
+      sponsorJson = sponsorJson || decoded.sponsor_spending_condition;
+    } catch {
+      spendingJson = undefined;
+    }
+  }
+
+  const sponsor = tx?.sponsor_address || undefined;
+  const sponsored = tx?.sponsored === true || Boolean(sponsor);
+
+  const sponsorNonce =
+    typeof tx?.sponsor_nonce === "number"
+      ? tx.sponsor_nonce
+      : undefined;
+
+  return {
+    sponsored,
+    sponsor,
+    sponsorNonce,
+    feePayer: sponsored ? sponsor : sender,
+    spendingCondition:
+      parseSpendingConditionJson(spendingJson) || spendingConditionFromAddress(sender),
+    sponsorSpendingCondition:
+      parseSpendingConditionJson(sponsorJson) || (sponsored ? spendingConditionFromAddress(sponsor) : undefined),
+  };
+}
+
+function parseTxResult(tx: any): ParsedTxResult | undefined {
+  const result = tx?.tx_result;
+  if (!result) return undefined;
+
+  const decoded = decodeClarityHex(result?.hex);
+  const repr = decoded?.repr ?? (result?.repr !== undefined ? String(result.repr) : undefined);
+  if (!decoded && !repr) return undefined;
+
+  const type = decoded?.type ?? (repr?.startsWith("(err") ? "err" : repr?.startsWith("(ok") ? "ok" : undefined);
+  const ok = type !== "err";
+
+  // The decoded err payload is { ok: false, value }; only plain integer codes get a name.
+  const innerRepr = repr?.replace(/^\((?:ok|err)\s+/, "").replace(/\)$/, "");
+  const errorCode = ok ? undefined : normalizeErrorCode(innerRepr) ?? undefined;
+
+  return {
+    ok,
+    type,
+    value: decoded ? decoded.value : repr,
+    repr,
+    errorCode,
+  };
+}
+
+const TENURE_CHANGE_CAUSES: Record<string, string> = {
+  block_found: "a new tenure started after the miner won a Bitcoin block",
+  extended: "the current tenure was extended",
+  extended_runtime: "the tenure was extended to reset its runtime budget",
+  extended_read_count: "the tenure was extended to reset its read-count budget",
+  extended_read_length: "the tenure was extended to reset its read-length budget",
+  extended_write_count: "the tenure was extended to reset its write-count budget",
+  extended_write_length: "the tenure was extended to reset its write-length budget",
+};
+
+function parseCoinbase(tx: any): ParsedCoinbase | undefined {
+  const payload = tx?.coinbase_payload;
+  if (!payload) return undefined;
+
+  const vrfProof = payload?.vrf_proof || undefined;
+
+  return {
+    altRecipient: payload?.alt_recipient || undefined,
+    hasVrfProof: Boolean(vrfProof),
+    vrfProof,
+    data: payload?.data || undefined,
+  };
+}
+
+function parseTenureChange(tx: any): ParsedTenureChange | undefined {
+  const payload = tx?.tenure_change_payload;
+  if (!payload) return undefined;
+
+  const cause = String(payload?.cause ?? "unknown").toLowerCase();
+  const previousTenureBlocks = Number(payload?.previous_tenure_blocks);
+
+  return {
+    cause,
+    causeLabel: TENURE_CHANGE_CAUSES[cause] || `the tenure changed (${cause.replace(/_/g, " ")})`,
+    tenureConsensusHash: payload?.tenure_consensus_hash || undefined,
+    previousTenureConsensusHash: payload?.prev_tenure_consensus_hash || undefined,
+    burnViewConsensusHash: payload?.burn_view_consensus_hash || undefined,
+    previousTenureEnd: payload?.previous_tenure_end || undefined,
+    previousTenureBlocks: Number.isFinite(previousTenureBlocks) ? previousTenureBlocks : undefined,
+    signerPubkeyHash: payload?.pubkey_hash || undefined,
+  };
+}
+
+function parsePoisonMicroblock(tx: any): ParsedPoisonMicroblock | undefined {
+  const payload = tx?.poison_microblock;
+  if (!payload) return undefined;
+
+  return {
+    microblockHeaders: [payload?.microblock_header_1, payload?.microblock_header_2].filter(Boolean),
+  };
 }
 
 function parseContractBits(tx: any) {
@@ -314,6 +618,7 @@ function parseContractBits(tx: any) {
     return {
       contractId: tx.contract_call?.contract_id || undefined,
       functionName: tx.contract_call?.function_name || undefined,
+      functionArgs: parseFunctionArgs(tx.contract_call),
     };
   }
 
@@ -321,12 +626,14 @@ function parseContractBits(tx: any) {
     return {
       contractId: tx.smart_contract?.contract_id || undefined,
       functionName: undefined,
+      functionArgs: undefined,
     };
   }
 
   return {
     contractId: undefined,
     functionName: undefined,
+    functionArgs: undefined,
   };
 }
 
@@ -353,6 +660,61 @@ function parseTokenTransferBits(tx: any) {
   };
 }
 
+function parseContractLog(e: any): ParsedEvent {
+  const log = e?.contract_log || e?.contract_event || e;
+  const valueObj = log?.value || {};
+  const hex = valueObj?.hex || log?.raw_value || undefined;
+  const decoded = decodeClarityHex(hex);
+  const value = decoded ? decoded.value : null;
+  const repr = decoded?.repr ?? valueObj?.repr ?? undefined;
+
+  let shape: "notification" | "action" | "value" = "value";
+  let action: string | undefined;
+  let payload: any = value;
+
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    if (typeof value.notification === "string" && "payload" in value) {
+      shape = "notification";
+      action = value.notification;
+      payload = value.payload;
+    } else if (typeof value.action === "string" && "data" in value) {
+      shape = "action";
+      action = value.action;
+      payload = value.data;
+    } else if (typeof value.action === "string") {
+      action = value.action;
+    } else if (typeof value.event === "string") {
+      action = value.event;
+    } else if (typeof value.op === "string") {
+      action = value.op;
+    }
+  }
+
+  return {
+    kind: "contract_log",
+    contractId: log?.contract_id || log?.contract_identifier || undefined,
+    topic: log?.topic || undefined,
+    shape,
+    action,
+    payload,
+    value,
+    repr,
+    raw: e,
+  };
+}
+
+const FT_EVENT_WRAPPERS = ["ft_transfer_event", "ft_mint_event", "ft_burn_event"];
+const NFT_EVENT_WRAPPERS = ["nft_transfer_event", "nft_mint_event", "nft_burn_event"];
+
+function assetEventAction(e: any): string {
+  return String(e?.asset?.asset_event_type || e?.asset_event_type || "transfer").toLowerCase();
+}
+
+function wrapperAction(wrapperKey: string): string {
+  // "ft_mint_event" -> "mint"
+  return wrapperKey.split("_")[1] || "transfer";
+}
+
 function parseEventLikeObject(e: any): ParsedEvent {
   const eventType = e?.event_type || e?.type || "";
 
@@ -364,6 +726,17 @@ function parseEventLikeObject(e: any): ParsedEvent {
         : "0";
     const memo = asset?.memo || e?.memo || undefined;
 
+    if (assetEventAction(e) === "burn") {
+      return {
+        kind: "stx_burn",
+        asset: "STX",
+        sender: asset?.sender || e?.sender || undefined,
+        amountMicroStx,
+        amountStx: microToStxString(amountMicroStx),
+        raw: e,
+      };
+    }
+
     return {
       kind: "stx_transfer",
       asset: "STX",
@@ -396,8 +769,53 @@ function parseEventLikeObject(e: any): ParsedEvent {
     };
   }
 
-  if (eventType === "fungible_token_asset" || eventType === "ft_transfer_event" || e?.ft_transfer_event) {
-    const fe = e?.ft_transfer_event || e;
+  if (
+    eventType === "smart_contract_log" ||
+    eventType === "contract_event" ||
+    e?.contract_log ||
+    e?.contract_event
+  ) {
+    return parseContractLog(e);
+  }
+
+  if (eventType === "stx_burn_event" || e?.stx_burn_event) {
+    const be = e?.stx_burn_event || e;
+    const amountMicroStx =
+      be?.amount !== undefined && be?.amount !== null ? String(be.amount) : "0";
+
+    return {
+      kind: "stx_burn",
+      asset: "STX",
+      sender: be?.sender || undefined,
+      amountMicroStx,
+      amountStx: microToStxString(amountMicroStx),
+      raw: e,
+    };
+  }
+
+  if (eventType === "stx_lock" || eventType === "stx_lock_event" || e?.stx_lock_event) {
+    const le = e?.stx_lock_event || e;
+    const lockedAmountMicroStx =
+      le?.locked_amount !== undefined && le?.locked_amount !== null
+        ? String(le.locked_amount)
+        : "0";
+    const unlockHeight = Number(le?.unlock_height);
+
+    return {
+      kind: "stx_lock",
+      asset: "STX",
+      lockedAddress: le?.locked_address || undefined,
+      lockedAmountMicroStx,
+      lockedAmountStx: microToStxString(lockedAmountMicroStx),
+      unlockHeight: Number.isFinite(unlockHeight) ? unlockHeight : undefined,
+      raw: e,
+    };
+  }
+
+  const ftWrapper = FT_EVENT_WRAPPERS.find((key) => eventType === key || e?.[key]);
+
+  if (eventType === "fungible_token_asset" || ftWrapper) {
+    const fe = (ftWrapper && e?.[ftWrapper]) || e;
     const assetObj = fe?.asset || e?.asset || {};
     const assetIdentifier =
       assetObj?.asset_id ||
@@ -406,27 +824,38 @@ function parseEventLikeObject(e: any): ParsedEvent {
       e?.asset_identifier ||
       "FT";
 
+    const sender = assetObj?.sender || fe?.sender || e?.sender || undefined;
+    const recipient = assetObj?.recipient || fe?.recipient || e?.recipient || undefined;
+    const amount =
+      assetObj?.amount !== undefined && assetObj?.amount !== null
+        ? String(assetObj.amount)
+        : fe?.amount !== undefined && fe?.amount !== null
+        ? String(fe.amount)
+        : "0";
+    const action = ftWrapper ? wrapperAction(ftWrapper) : assetEventAction(e);
+
+    if (action === "mint") {
+      return { kind: "ft_mint", asset: String(assetIdentifier), recipient, amount, raw: e };
+    }
+
+    if (action === "burn") {
+      return { kind: "ft_burn", asset: String(assetIdentifier), sender, amount, raw: e };
+    }
+
     return {
       kind: "ft_transfer",
       asset: String(assetIdentifier),
-      sender: assetObj?.sender || fe?.sender || e?.sender || undefined,
-      recipient: assetObj?.recipient || fe?.recipient || e?.recipient || undefined,
-      amount:
-        assetObj?.amount !== undefined && assetObj?.amount !== null
-          ? String(assetObj.amount)
-          : fe?.amount !== undefined && fe?.amount !== null
-          ? String(fe.amount)
-          : "0",
+      sender,
+      recipient,
+      amount,
       raw: e,
     };
   }
 
-  if (
-    eventType === "non_fungible_token_asset" ||
-    eventType === "nft_transfer_event" ||
-    e?.nft_transfer_event
-  ) {
-    const ne = e?.nft_transfer_event || e;
+  const nftWrapper = NFT_EVENT_WRAPPERS.find((key) => eventType === key || e?.[key]);
+
+  if (eventType === "non_fungible_token_asset" || nftWrapper) {
+    const ne = (nftWrapper && e?.[nftWrapper]) || e;
     const assetObj = ne?.asset || e?.asset || {};
     const assetIdentifier =
       assetObj?.asset_id ||
@@ -435,18 +864,31 @@ function parseEventLikeObject(e: any): ParsedEvent {
       e?.asset_identifier ||
       "NFT";
 
+    const sender = assetObj?.sender || ne?.sender || e?.sender || undefined;
+    const recipient = assetObj?.recipient || ne?.recipient || e?.recipient || undefined;
+    const tokenId =
+      assetObj?.value?.repr ||
+      assetObj?.value ||
+      ne?.value?.repr ||
+      ne?.value ||
+      ne?.token_id ||
+      undefined;
+    const action = nftWrapper ? wrapperAction(nftWrapper) : assetEventAction(e);
+
+    if (action === "mint") {
+      return { kind: "nft_mint", asset: String(assetIdentifier), recipient, tokenId, raw: e };
+    }
+
+    if (action === "burn") {
+      return { kind: "nft_burn", asset: String(assetIdentifier), sender, tokenId, raw: e };
+    }
+
     return {
       kind: "nft_transfer",
       asset: String(assetIdentifier),
-      sender: assetObj?.sender || ne?.sender || e?.sender || undefined,
-      recipient: assetObj?.recipient || ne?.recipient || e?.recipient || undefined,
-      tokenId:
-        assetObj?.value?.repr ||
-        assetObj?.value ||
-        ne?.value?.repr ||
-        ne?.value ||
-        ne?.token_id ||
-        undefined,
+      sender,
+      recipient,
+      tokenId,
       raw: e,
     };
   }
@@ -493,6 +935,7 @@ function inferTypeAndCoreFields(
   recipientOrTarget?: string;
   contractId?: string;
   functionName?: string;
+  functionArgs?: ParsedFunctionArg[];
   memo?: string;
   memoDecoded?: string;
   amountMicroStx?: string;
@@ -519,6 +962,7 @@ function inferTypeAndCoreFields(
         recipientOrTarget: contractBits.contractId,
         contractId: contractBits.contractId,
         functionName: contractBits.functionName,
+        functionArgs: contractBits.functionArgs,
       };
     }
 
@@ -530,11 +974,23 @@ function inferTypeAndCoreFields(
       };
     }
 
+    if (declared === "coinbase") {
+      return {
+        type: "coinbase",
+        recipientOrTarget: tx?.coinbase_payload?.alt_recipient || undefined,
+      };
+    }
+
+    if (declared === "tenure_change" || declared === "poison_microblock") {
+      return { type: declared };
+    }
+
     return {
       type: declared,
       recipientOrTarget: tokenBits.recipientOrTarget || contractBits.contractId,
       contractId: contractBits.contractId,
       functionName: contractBits.functionName,
+      functionArgs: contractBits.functionArgs,
       memo: tokenBits.memo,
       memoDecoded: tokenBits.memoDecoded,
       amountMicroStx: tokenBits.amountMicroStx,
@@ -579,6 +1035,7 @@ function inferTypeAndCoreFields(
       recipientOrTarget: contractBits.contractId,
       contractId: contractBits.contractId,
       functionName: contractBits.functionName,
+      functionArgs: contractBits.functionArgs,
     };
   }
 
@@ -590,15 +1047,37 @@ function inferTypeAndCoreFields(
     };
   }
 
+  if (tx?.coinbase_payload) {
+    return {
+      type: "coinbase",
+      recipientOrTarget: tx.coinbase_payload?.alt_recipient || undefined,
+    };
+  }
+
+  if (tx?.tenure_change_payload) {
+    return { type: "tenure_change" };
+  }
+
+  if (tx?.poison_microblock) {
+    return { type: "poison_microblock" };
+  }
+
   return {
     type: "unknown",
   };
 }
 
-function extractPrincipal(pc: any): string | undefined {
+function extractPrincipal(pc: any, sender?: string): string | undefined {
+  const p = pc?.principal;
+
+  if (p && typeof p === "object") {
+    if (p.type_id === "principal_origin" && !p.address) return sender;
+    if (p.address && p.contract_name) return `${p.address}.${p.contract_name}`;
+    if (p.address) return p.address;
+  }
+
   return (
-    pc?.principal ||
-    pc?.principal?.address ||
+    (typeof p === "string" ? p : undefined) ||
     pc?.principal?.origin ||
     pc?.contract_id ||
     pc?.address ||
@@ -607,6 +1086,12 @@ function extractPrincipal(pc: any): string | undefined {
 }
 
 function extractAsset(pc: any): string | undefined {
+  const a = pc?.asset;
+
+  if (a && typeof a === "object" && a.contract_address && a.contract_name) {
+    return `${a.contract_address}.${a.contract_name}${a.asset_name ? `::${a.asset_name}` : ""}`;
+  }
+
   return (
     pc?.asset ||
     pc?.asset_info ||
@@ -629,7 +1114,7 @@ function extractConditionCode(pc: any): string | undefined {
   return String(raw);
 }
 
-function parseSinglePostCondition(pc: any): ParsedPostCondition {
+function parseSinglePostCondition(pc: any, sender?: string): ParsedPostCondition {
   const typeRaw = String(
     pc?.type ??
       pc?.post_condition_type ??
@@ -637,7 +1122,7 @@ function parseSinglePostCondition(pc: any): ParsedPostCondition {
       "unknown"
   ).toLowerCase();
 
-  const principal = extractPrincipal(pc);
+  const principal = extractPrincipal(pc, sender);
   const conditionCode = extractConditionCode(pc);
   const conditionText = conditionCodeToText(conditionCode);
 
@@ -657,7 +1142,7 @@ function parseSinglePostCondition(pc: any): ParsedPostCondition {
     };
   }
 
-  if (typeRaw.includes("fungible")) {
+  if (typeRaw.includes("fungible") && !typeRaw.includes("non_fungible")) {
     const asset = extractAsset(pc);
     const amount =
       pc?.amount !== undefined && pc?.amount !== null ? String(pc.amount) : undefined;
@@ -704,7 +1189,7 @@ function parseSinglePostCondition(pc: any): ParsedPostCondition {
   };
 }
 
-function parsePostConditions(tx: any): ParsedPostCondition[] {
+function parsePostConditions(tx: any, sender?: string): ParsedPostCondition[] {
   const raw =
     tx?.post_conditions ||
     tx?.postConditions ||
@@ -713,7 +1198,111 @@ function parsePostConditions(tx: any): ParsedPostCondition[] {
 
   if (!Array.isArray(raw)) return [];
 
-  return raw.map(parseSinglePostCondition);
+  return raw.map((pc) => parseSinglePostCondition(pc, sender));
+}
+
+function sameId(a?: string, b?: string) {
+  return Boolean(a && b && a.toLowerCase() === b.toLowerCase());
+}
+
+function compareAmounts(conditionCode: string | undefined, observed: bigint, allowed: bigint): boolean | null {
+  const text = conditionCodeToText(conditionCode);
+
+  if (text === "equal to") return observed === allowed;
+  if (text === "greater than") return observed > allowed;
+  if (text === "greater than or equal to") return observed >= allowed;
+  if (text === "less than") return observed < allowed;
+  if (text === "less than or equal to") return observed <= allowed;
+
+  return null;
+}
+
+function sentAmount(pc: ParsedPostCondition, events: ParsedEvent[]): bigint {
+  let total = 0n;
+
+  for (const ev of events) {
+    if (pc.type === "stx" && (ev.kind === "stx_transfer" || ev.kind === "stx_burn")) {
+      if (sameId(ev.sender, pc.principal)) total += toBigIntSafe(ev.amountMicroStx) ?? 0n;
+    }
+
+    if (pc.type === "fungible_token" && (ev.kind === "ft_transfer" || ev.kind === "ft_burn")) {
+      if (sameId(ev.sender, pc.principal) && sameId(ev.asset, pc.asset)) {
+        total += toBigIntSafe(ev.amount) ?? 0n;
+      }
+    }
+  }
+
+  return total;
+}
+
+function nftWasSent(pc: ParsedPostCondition, events: ParsedEvent[]): boolean {
+  return events.some(
+    (ev) =>
+      (ev.kind === "nft_transfer" || ev.kind === "nft_burn") &&
+      sameId(ev.sender, pc.principal) &&
+      sameId(ev.asset, pc.asset) &&
+      (!pc.tokenId || String(ev.tokenId) === pc.tokenId)
+  );
+}
+
+function evaluatePostCondition(
+  pc: ParsedPostCondition,
+  events: ParsedEvent[],
+  eventsAvailable: boolean
+): ParsedPostCondition {
+  const notEvaluable = (reason: string): ParsedPostCondition => ({
+    ...pc,
+    result: "not_evaluable",
+    resultSummary: `Could not be checked: ${reason}.`,
+  });
+
+  if (!eventsAvailable) return notEvaluable("no on-chain events are available for this transaction");
+  if (!pc.principal) return notEvaluable("the rule does not name a principal");
+
+  if (pc.type === "non_fungible_token") {
+    const sent = nftWasSent(pc, events);
+    const code = conditionCodeToText(pc.conditionCode);
+    const label = `NFT${pc.tokenId ? ` ${pc.tokenId}` : ""}`;
+
+    if (code !== "sent" && code !== "not sent") return notEvaluable(`unknown condition "${code}"`);
+
+    const held = code === "sent" ? sent : !sent;
+    return {
+      ...pc,
+      result: held ? "satisfied" : "violated",
+      resultSummary: held
+        ? `${label} was ${sent ? "" : "not "}sent, as required.`
+        : `${label} was ${sent ? "" : "not "}sent, but the rule requires it ${code}.`,
+    };
+  }
+
+  if (pc.type === "stx" || pc.type === "fungible_token") {
+    const allowed = toBigIntSafe(pc.amount);
+    if (allowed === null) return notEvaluable("the rule has no amount");
+
+    const observed = sentAmount(pc, events);
+    const held = compareAmounts(pc.conditionCode, observed, allowed);
+    if (held === null) return notEvaluable(`unknown condition "${conditionCodeToText(pc.conditionCode)}"`);
+
+    const observedAmount = observed.toString();
+    const observedAmountStx = pc.type === "stx" ? microToStxString(observedAmount) : undefined;
+    const observedLabel =
+      pc.type === "stx" ? `${observedAmountStx} STX` : `${observedAmount} ${pc.asset || "tokens"}`;
+    const allowedLabel = pc.type === "stx" ? `${pc.amountStx} STX` : pc.amount;
+    const rule = `${conditionCodeToText(pc.conditionCode)} ${allowedLabel}`;
+
+    return {
+      ...pc,
+      result: held ? "satisfied" : "violated",
+      observedAmount,
+      observedAmountStx,
+      resultSummary: held
+        ? `${observedLabel} was sent (rule: ${rule}).`
+        : `${observedLabel} was sent, but the rule requires ${rule}.`,
+    };
+  }
+
+  return notEvaluable("the rule type is not recognized");
 }
 
 function parsePostConditionMode(tx: any): string | undefined {
@@ -741,31 +1330,60 @@ export function parseStacksTransaction(txJson: any, network: Network): ParsedSta
 
   const feeMicroStx = guessFeeMicro(tx);
   const feeStx = microToStxString(feeMicroStx);
+  const auth = parseAuthorization(tx, primary.sender, network);
+  const txResult = parseTxResult(tx);
 
   const amountMicroStx = inferred.amountMicroStx;
   const amountStx = microToStxString(amountMicroStx);
 
-  const postConditions = parsePostConditions(tx);
+  // Aborted transactions roll back their transfers and Hiro usually lists
+  // none, so an empty list there is missing evidence, not "nothing moved".
+  const aborted = String(primary.status || "").startsWith("abort");
+  const eventsAvailable =
+    Boolean(primary.status) && primary.status !== "pending" && (!aborted || (Array.isArray(tx?.events) && tx.events.length > 0));
+  const postConditions = parsePostConditions(tx, primary.sender).map((pc) =>
+    evaluatePostCondition(pc, events, eventsAvailable)
+  );
   const postConditionMode = parsePostConditionMode(tx);
 
   return {
     network,
     txid: primary.txid,
+    origin: "api",
     status: primary.status,
     type: inferred.type,
     sender: primary.sender,
+    nonce: primary.nonce,
     recipientOrTarget: inferred.recipientOrTarget,
     contractId: inferred.contractId,
     functionName: inferred.functionName,
+    functionArgs: inferred.functionArgs,
     memo: inferred.memo,
     memoDecoded: inferred.memoDecoded,
 
     feeMicroStx,
     feeStx,
+    feePayer: auth.feePayer,
+
+    sponsored: auth.sponsored,
+    sponsor: auth.sponsor,
+    sponsorNonce: auth.sponsorNonce,
+    spendingCondition: auth.spendingCondition,
+    sponsorSpendingCondition: auth.sponsorSpendingCondition,
 
     amountMicroStx,
     amountStx,
 
+    coinbase: parseCoinbase(tx),
+    tenureChange: parseTenureChange(tx),
+    poisonMicroblock: parsePoisonMicroblock(tx),
+
+    txResult,
+    failureReason:
+      txResult?.errorCode && inferred.contractId
+        ? resolveClarityError(inferred.contractId, txResult.errorCode) ?? undefined
+        : undefined,
+
     blockHeight: primary.blockHeight,
     timestamp: primary.timestamp,
     canonical: primary.canonical,
@@ -776,4 +1394,20 @@ export function parseStacksTransaction(txJson: any, network: Network): ParsedSta
     events,
     raw: txJson,
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Parses a serialized (signed or unsigned) transaction without calling Hiro.
+ * The result has no status, block or events, so it describes intent only.
+ */
+export function parseRawStacksTransaction(hex: string, network?: Network): ParsedStacksTx {
+  const decoded = decodeRawTransaction(hex, network);
+  const parsed = parseStacksTransaction(decoded.json, decoded.network);
+
+  return {
+    ...parsed,
+    origin: "raw_hex",
+    // Kept so size-based checks (fee per byte) work without the network.
+    raw: { ...parsed.raw, raw_tx: hex.trim() },
+  };
+}
@@ -0,0 +1,277 @@
+import fs from "node:fs";
+import bundledPrices from "@/data/daily-prices.json";
+
+/**
+ * Historical prices
+ *
+ * Fiat values are always taken from the UTC day of the block that confirmed
+ * the transaction, never from today's price. Providers are pluggable: the
+ * default reads a local JSON or CSV of daily closes so valuation works
+ * offline, and an HTTP provider can be chained behind it.
+ */
+
+export type PriceQuote = {
+  /** "STX" or a fungible token contract id. */
+  asset: string;
+  /** UTC day the price applies to, YYYY-MM-DD. */
+  date: string;
+  usd: number;
+  /** Decimals used to turn base units into whole tokens. */
+  decimals: number;
+  source: string;
+};
+
+export type PriceProvider = {
+  name: string;
+  getDailyPrice(asset: string, date: string): Promise<PriceQuote | null>;
+};
+
+/** Tokens other than STX need `decimals`; without them they get no quote. */
+type LocalAsset = { decimals?: number; prices: Record<string, number> };
+type LocalPriceData = { assets: Record<string, LocalAsset> };
+
+/** Price lookups key on the token contract, so `SP….token::name` and `SP….token` match. */
+export function priceAssetKey(asset: string): string {
+  if (!asset) return "";
+  return asset === "STX" ? "STX" : asset.split("::")[0];
+}
+
+export function utcDate(timestamp: string | number | Date): string | null {
+  const date = new Date(timestamp);
+  if (Number.isNaN(date.getTime())) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Parses `date,asset,usd[,decimals]` rows. A header row is skipped when its
+ * price column is not a number.
+ */
+export function parsePriceCsv(csv: string): LocalPriceData {
+  const assets: Record<string, LocalAsset> = {};
+
+  for (const line of csv.split(/\r?\n/)) {
+    const [date, asset, usd, decimals] = line.split(",").map((cell) => cell.trim());
+    const price = Number(usd);
+    if (!date || !asset || !usd || !Number.isFinite(price)) continue;
+
+    const key = priceAssetKey(asset);
+    const entry = (assets[key] ??= { prices: {} });
+    entry.prices[date] = price;
+    if (decimals && Number.isFinite(Number(decimals))) entry.decimals = Number(decimals);
+  }
+
+  return { assets };
+}
+
+export function createLocalPriceProvider(data: LocalPriceData, name = "local"): PriceProvider {
+  return {
+    name,
+    async getDailyPrice(asset, date) {
+      const key = priceAssetKey(asset);
+      const entry = data.assets?.[key];
+      const usd = entry?.prices?.[date];
+      const decimals = entry?.decimals ?? (key === "STX" ? 6 : null);
+      if (typeof usd !== "number" || decimals === null) return null;
+
+      return { asset: key, date, usd, decimals, source: name };
+    },
+  };
+}
+
+/** Reads a `.json` ({ assets }) or `.csv` price file from disk. */
+export function loadPriceFile(path: string): PriceProvider {
+  const text = fs.readFileSync(path, "utf8");
+  const data = path.toLowerCase().endsWith(".csv") ? parsePriceCsv(text) : (JSON.parse(text) as LocalPriceData);
+  return createLocalPriceProvider(data, `file:${path}`);
+}
+
+export type HttpPriceProviderOptions = {
+  name: string;
+  /** Return null for assets the service does not know. */
+  urlFor(asset: string, date: string): string | null;
+  extractUsd(json: any): number | null;
+  /** Null for tokens whose decimals are unknown; they get no quote. */
+  decimalsFor?(asset: string): number | null;
+  fetchJson?: (url: string) => Promise<any>;
+};
+
+export function createHttpPriceProvider(options: HttpPriceProviderOptions): PriceProvider {
+  const fetchJson =
+    options.fetchJson ??
+    (async (url: string) => {
+      const res = await fetch(url, { headers: { accept: "application/json" } });
+      if (!res.ok) throw new Error(`${options.name} returned ${res.status}`);
+      return res.json();
+    });
+
+  // Past days never change, so each (asset, day) is fetched at most once.
+  const memo = new Map<string, Promise<PriceQuote | null>>();
+
+  return {
+    name: options.name,
+    getDailyPrice(asset, date) {
+      const key = priceAssetKey(asset);
+      const cacheKey = `${key}|${date}`;
+
+      if (!memo.has(cacheKey)) {
+        const url = options.urlFor(key, date);
+        const pending: Promise<PriceQuote | null> = url
+          ? fetchJson(url)
+              .then((json) => {
+                const usd = options.extractUsd(json);
+                const decimals = options.decimalsFor?.(key) ?? (key === "STX" ? 6 : null);
+                return typeof usd === "number" && Number.isFinite(usd) && decimals !== null
+                  ? { asset: key, date, usd, decimals, source: options.name }
+                  : null;
+              })
+              .catch(() => {
+                memo.delete(cacheKey);
+                return null;
+              })
+          : Promise.resolve(null);
+        memo.set(cacheKey, pending);
+      }
+
+      return memo.get(cacheKey)!;
+    },
+  };
+}
+
+/** CoinGecko's daily history endpoint. Only assets with a known coin id are priced. */
+export function createCoinGeckoPriceProvider(
+  coinIds: Record<string, string> = { STX: "blockstack" },
+  fetchJson?: (url: string) => Promise<any>
+): PriceProvider {
+  return createHttpPriceProvider({
+    name: "coingecko",
+    fetchJson,
+    urlFor(asset, date) {
+      const id = coinIds[asset];
+      if (!id) return null;
+      const [y, m, d] = date.split("-");
+      return `https://api.coingecko.com/api/v3/coins/${id}/history?date=${d}-${m}-${y}&localization=false`;
+    },
+    extractUsd: (json) => json?.market_data?.current_price?.usd ?? null,
+  });
+}
+
+/** Asks each provider in order and returns the first price found. */
+export function chainPriceProviders(providers: PriceProvider[]): PriceProvider {
+  return {
+    name: providers.map((p) => p.name).join("+"),
+    async getDailyPrice(asset, date) {
+      for (const provider of providers) {
+        const quote = await provider.getDailyPrice(asset, date).catch(() => null);
+        if (quote) return quote;
+      }
+      return null;
+    },
+  };
+}
+
+let defaultProvider: PriceProvider | null = null;
+
+export const PRICE_DATA_MISSING =
+  "No price data is configured. Set PRICE_DATA_PATH to a daily-prices JSON or CSV file, or PRICE_HTTP_PROVIDER=coingecko.";
+
+/**
+ * Local prices from `PRICE_DATA_PATH` (JSON or CSV) or the bundled file,
+ * followed by CoinGecko when `PRICE_HTTP_PROVIDER=coingecko`. The bundled
+ * file ships without prices, so one of the two settings is required: this
+ * throws when neither gives any prices or the file cannot be read.
+ */
+export function getDefaultPriceProvider(): PriceProvider {
+  if (defaultProvider) return defaultProvider;
+
+  const providers: PriceProvider[] = [];
+  const path = process.env.PRICE_DATA_PATH;
+  const bundled = bundledPrices as LocalPriceData;
+
+  if (path) {
+    try {
+      providers.push(loadPriceFile(path));
+    } catch (error: any) {
+      throw new Error(`PRICE_DATA_PATH could not be read (${path}): ${error?.message || "unknown error"}`);
+    }
+  } else if (Object.keys(bundled.assets || {}).length > 0) {
+    providers.push(createLocalPriceProvider(bundled, "bundled"));
+  }
+
+  if (process.env.PRICE_HTTP_PROVIDER === "coingecko") {
+    providers.push(createCoinGeckoPriceProvider());
+  }
+
+  if (providers.length === 0) throw new Error(PRICE_DATA_MISSING);
+
+  defaultProvider = providers.length === 1 ? providers[0] : chainPriceProviders(providers);
+  return defaultProvider;
+}
+
+/**
+ * The default provider for views where USD values are an extra, such as
+ * explanations and activity cards, or null when no price data is configured.
+ * Those views then go without fiat values and carry `priceDataNote` instead.
+ */
+export function optionalDefaultPriceProvider(): PriceProvider | null {
+  try {
+    return getDefaultPriceProvider();
+  } catch {
+    return null;
+  }
+}
+
+/** Why a response has no USD values, or null when price data is configured. */
+export function priceDataNote(): string | null {
+  try {
+    getDefaultPriceProvider();
+    return null;
+  } catch (error: any) {
+    return `USD values are left out. ${error?.message || PRICE_DATA_MISSING}`;
+  }
+}
+
+/** Quotes for every asset on the given day; assets without a price are left out. */
+export async function quotePrices(
+  provider: PriceProvider,
+  assets: string[],
+  timestamp?: string | null
+): Promise<Record<string, PriceQuote>> {
+  const date = timestamp ? utcDate(timestamp) : null;
+  if (!date) return {};
+
+  const keys = Array.from(new Set(assets.map(priceAssetKey).filter(Boolean)));
+  const quotes = await Promise.all(keys.map((key) => provider.getDailyPrice(key, date).catch(() => null)));
+
+  const out: Record<string, PriceQuote> = {};
+  quotes.forEach((quote, i) => {
+    if (quote) out[keys[i]] = quote;
+  });
+  return out;
+}
+
+/** USD value of a base-unit amount, or null when the asset has no quote. */
+export function usdValue(
+  quotes: Record<string, PriceQuote> | null | undefined,
+  asset: string,
+  baseAmount: string | number | bigint | null | undefined
+): number | null {
+  const quote = quotes?.[priceAssetKey(asset)];
+  if (!quote || baseAmount === null || baseAmount === undefined || baseAmount === "") return null;
+
+  const amount = Number(baseAmount) / 10 ** quote.decimals;
+  if (!Number.isFinite(amount)) return null;
+  return Math.abs(amount) * quote.usd;
+}
+
+export function formatUsd(value: number | null | undefined): string | null {
+  if (value === null || value === undefined || !Number.isFinite(value)) return null;
+  if (value > 0 && value < 0.01) return "<$0.01";
+  return `$${value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+/** "(~$41.20 at the time)", or "" when there is no value. */
+export function fiatSuffix(value: number | null | undefined): string {
+  const formatted = formatUsd(value);
+  if (!formatted) return "";
+  return formatted.startsWith("<") ? ` (${formatted} at the time)` : ` (~${formatted} at the time)`;
+}
@@ -0,0 +1,281 @@
+/**
+ * Protocol registry
+ *
+ * Maps deployer addresses and exact contract ids to the protocol that owns
+ * them. Lookups try the exact contract id first, then the deployer, and only
+ * fall back to matching names inside the contract id when neither is known.
+ * Fallback matches are marked low confidence so callers can word them
+ * carefully.
+ */
+
+export type ProtocolNetwork = "mainnet" | "testnet";
+
+export type ProtocolCategory = "dex" | "lending" | "stacking" | "nft_marketplace" | "bridge";
+
+export type ProtocolInfo = {
+  id: string;
+  name: string;
+  category: ProtocolCategory;
+  website: string;
+  logo: string;
+};
+
+export type ProtocolMatch = ProtocolInfo & {
+  matchedBy: "contract_id" | "deployer" | "name_heuristic";
+  confidence: "high" | "low";
+  /** Human label for the contract, e.g. "ALEX router" or "swap helper". */
+  contractLabel?: string;
+};
+
+type RegistryEntry = ProtocolInfo & {
+  deployers: Partial<Record<ProtocolNetwork, string[]>>;
+  contracts: Partial<Record<ProtocolNetwork, Record<string, string>>>;
+  /** Lowercase fragments tried only by the low-confidence fallback. */
+  keywords: string[];
+};
+
+export const PROTOCOL_CATEGORY_LABELS: Record<ProtocolCategory, string> = {
+  dex: "DEX",
+  lending: "Lending",
+  stacking: "Stacking",
+  nft_marketplace: "NFT marketplace",
+  bridge: "Bridge",
+};
+
+const BOOT_MAINNET = "SP000000000000000000002Q6VF78";
+const BOOT_TESTNET = "ST000000000000000000002AMW42H";
+
+const REGISTRY: RegistryEntry[] = [
+  {
+    id: "alex",
+    name: "ALEX",
+    category: "dex",
+    website: "https://alexlab.co",
+    logo: "https://alexlab.co/favicon.ico",
+    deployers: {
+      mainnet: ["SP102V8P0F7JX67ARQ77WEA3D3CFB5XW39REDT0AM", "SP3K8BC0PPEVCV7NZ6QSRWPQ2JE9E5B6N3PA0KBR9"],
+    },
+    contracts: {
+      mainnet: {
+        "SP102V8P0F7JX67ARQ77WEA3D3CFB5XW39REDT0AM.amm-pool-v2-01": "ALEX AMM pool",
+        "SP3K8BC0PPEVCV7NZ6QSRWPQ2JE9E5B6N3PA0KBR9.amm-swap-pool-v1-1": "ALEX AMM pool",
+        "SP3K8BC0PPEVCV7NZ6QSRWPQ2JE9E5B6N3PA0KBR9.swap-helper-v1-03": "ALEX router",
+      },
+    },
+    keywords: ["alex"],
+  },
+  {
+    id: "velar",
+    name: "Velar",
+    category: "dex",
+    website: "https://velar.com",
+    logo: "https://velar.com/favicon.ico",
+    deployers: {
+      mainnet: ["SP1Y5YSTAHZ88XYK1VPDH24GY0HPX5J4JECTMY4A1"],
+    },
+    contracts: {
+      mainnet: {
+        "SP1Y5YSTAHZ88XYK1VPDH24GY0HPX5J4JECTMY4A1.univ2-router": "Velar router",
+        "SP1Y5YSTAHZ88XYK1VPDH24GY0HPX5J4JECTMY4A1.univ2-core": "Velar core",
+      },
+    },
+    keywords: ["velar"],
+  },
+  {
+    id: "bitflow",
+    name: "Bitflow",
+    category: "dex",
+    website: "https://bitflow.finance",
+    logo: "https://bitflow.finance/favicon.ico",
+    deployers: {
+      mainnet: ["SPQC38PW542EQJ5M11CR25P7BS1CA6QT4TBXGB3M", "SM1793C4R5PZ4NS4VQ4WMP7SKKYVH8JZEWSZ9HCCR"],
+    },
+    contracts: {
+      mainnet: {
+        "SM1793C4R5PZ4NS4VQ4WMP7SKKYVH8JZEWSZ9HCCR.xyk-core-v-1-2": "Bitflow XYK core",
+      },
+    },
+    keywords: ["bitflow"],
+  },
+  {
+    id: "arkadiko",
+    name: "Arkadiko",
+    category: "lending",
+    website: "https://arkadiko.finance",
+    logo: "https://arkadiko.finance/favicon.ico",
+    deployers: {
+      mainnet: ["SP2C2YFP12AJZB4MABJBAJ55XECVS7E4PMMZ89YZR"],
+    },
+    contracts: {
+      mainnet: {
+        "SP2C2YFP12AJZB4MABJBAJ55XECVS7E4PMMZ89YZR.arkadiko-swap-v2-1": "Arkadiko swap",
+      },
+    },
+    keywords: ["arkadiko"],
+  },
+  {
+    id: "zest",
+    name: "Zest",
+    category: "lending",
+    website: "https://zestprotocol.com",
+    logo: "https://zestprotocol.com/favicon.ico",
+    deployers: {
+      mainnet: ["SP2VCQJGH7PHP2DJK7Z0V48AGBHQAW3R3ZW1QF4N"],
+    },
+    contracts: {
+      mainnet: {
+        "SP2VCQJGH7PHP2DJK7Z0V48AGBHQAW3R3ZW1QF4N.pool-borrow": "Zest lending pool",
+      },
+    },
+    keywords: ["zest"],
+  },
+  {
+    id: "granite",
+    name: "Granite",
+    category: "lending",
+    website: "https://granite.world",
+    logo: "https://granite.world/favicon.ico",
+    deployers: {},
+    contracts: {},
+    keywords: ["granite"],
+  },
+  {
+    id: "stackingdao",
+    name: "StackingDAO",
+    category: "stacking",
+    website: "https://stackingdao.com",
+    logo: "https://stackingdao.com/favicon.ico",
+    deployers: {
+      mainnet: ["SP4SZE494VC2YC5JYG7AYFQ44F5Q4PYV7DVMDPBG"],
+    },
+    contracts: {},
+    keywords: ["stacking-dao", "stackingdao"],
+  },
+  {
+    id: "fast-pool",
+    name: "Fast Pool",
+    category: "stacking",
+    website: "https://fastpool.org",
+    logo: "https://fastpool.org/favicon.ico",
+    deployers: {},
+    contracts: {
+      mainnet: {
+        "SP21YTSM60CAY6D011EZVEVNKXVW8FVZE198XEFFP.pox4-fast-pool-v3": "Fast Pool delegation",
+      },
+    },
+    keywords: ["fast-pool"],
+  },
+  {
+    id: "pox",
+    name: "Stacks PoX",
+    category: "stacking",
+    website: "https://docs.stacks.co",
+    logo: "https://www.stacks.co/favicon.ico",
+    deployers: {},
+    contracts: {
+      mainnet: {
+        [`${BOOT_MAINNET}.pox-2`]: "PoX-2 stacking contract",
+        [`${BOOT_MAINNET}.pox-3`]: "PoX-3 stacking contract",
+        [`${BOOT_MAINNET}.pox-4`]: "PoX-4 stacking contract",
+      },
+      testnet: {
+        [`${BOOT_TESTNET}.pox-4`]: "PoX-4 stacking contract",
+      },
+    },
+    keywords: [],
+  },
+  {
+    id: "gamma",
+    name: "Gamma",
+    category: "nft_marketplace",
+    website: "https://gamma.io",
+    logo: "https://gamma.io/favicon.ico",
+    deployers: {
+      mainnet: ["SPNWZ5V2TPWGQGVDR6T7B6RQ4XMGZ4PXTEE0VQ0S"],
+    },
+    contracts: {},
+    keywords: ["gamma"],
+  },
+  {
+    id: "sbtc",
+    name: "sBTC",
+    category: "bridge",
+    website: "https://sbtc.tech",
+    logo: "https://sbtc.tech/favicon.ico",
+    deployers: {
+      mainnet: ["SM3VDXK3WZZSA84XXFKAFAF15NNZX32CTSG82JFQ4"],
+    },
+    contracts: {
+      mainnet: {
+        "SM3VDXK3WZZSA84XXFKAFAF15NNZX32CTSG82JFQ4.sbtc-deposit": "sBTC deposit",
+        "SM3VDXK3WZZSA84XXFKAFAF15NNZX32CTSG82JFQ4.sbtc-withdrawal": "sBTC withdrawal",
+        "SM3VDXK3WZZSA84XXFKAFAF15NNZX32CTSG82JFQ4.sbtc-token": "sBTC token",
+      },
+    },
+    keywords: [],
+  },
+];
+
+function toInfo(entry: RegistryEntry): ProtocolInfo {
+  return {
+    id: entry.id,
+    name: entry.name,
+    category: entry.category,
+    website: entry.website,
+    logo: entry.logo,
+  };
+}
+
+function networkFromAddress(address: string): ProtocolNetwork {
+  return address.startsWith("SP") || address.startsWith("SM") ? "mainnet" : "testnet";
+}
+
+/**
+ * Looks up the protocol behind a contract. The network defaults to the one
+ * implied by the deployer address prefix.
+ */
+export function lookupProtocol(
+  contractId?: string | null,
+  network?: ProtocolNetwork
+): ProtocolMatch | null {
+  if (!contractId) return null;
+
+  const [deployer, contractName] = contractId.split(".");
+  if (!deployer) return null;
+
+  const resolvedNetwork = network ?? networkFromAddress(deployer);
+
+  for (const entry of REGISTRY) {
+    const label = entry.contracts[resolvedNetwork]?.[contractId];
+    if (label) {
+      return { ...toInfo(entry), matchedBy: "contract_id", confidence: "high", contractLabel: label };
+    }
+  }
+
+  for (const entry of REGISTRY) {
+    if (entry.deployers[resolvedNetwork]?.includes(deployer)) {
+      return { ...toInfo(entry), matchedBy: "deployer", confidence: "high" };
+    }
+  }
+
+  const lowerName = String(contractName || "").toLowerCase();
+  if (!lowerName) return null;
+
+  for (const entry of REGISTRY) {
+    if (entry.keywords.some((keyword) => lowerName.includes(keyword))) {
+      return { ...toInfo(entry), matchedBy: "name_heuristic", confidence: "low" };
+    }
+  }
+
+  return null;
+}
+
+/** Display name for a match, hedged when it only came from the name heuristic. */
+export function protocolDisplayName(match: ProtocolMatch | null): string | null {
+  if (!match) return null;
+  return match.confidence === "low" ? `${match.name} (unverified)` : match.name;
+}
+
+export function listProtocols(): ProtocolInfo[] {
+  return REGISTRY.map(toInfo);
+}
@@ -0,0 +1,209 @@
+import type { ParsedEvent, ParsedStacksTx } from "@/utils/parseStacksTx";
+import { lookupProtocol } from "@/utils/protocolRegistry";
+import denylistFile from "@/data/contract-denylist.json";
+
+/**
+ * Risk analysis
+ *
+ * Turns a parsed transaction into warnings a support agent can act on.
+ * Every flag carries a severity and a sentence explaining why it fired;
+ * nothing here blocks or rewrites the explanation itself.
+ */
+
+export type RiskSeverity = "info" | "low" | "medium" | "high";
+
+export type RiskFlagCode =
+  | "allow_mode_outgoing_transfers"
+  | "uncovered_contract_transfer"
+  | "high_fee"
+  | "first_interaction_unknown_contract"
+  | "denylisted_contract";
+
+export type RiskFlag = {
+  code: RiskFlagCode;
+  severity: RiskSeverity;
+  title: string;
+  explanation: string;
+  /** Contract, principal or asset the flag is about. */
+  subject?: string;
+};
+
+export type DenylistEntry = {
+  /** Exact contract id, or a deployer address to cover all its contracts. */
+  principal: string;
+  reason: string;
+};
+
+export type RiskContext = {
+  /**
+   * Contracts the sender called before this transaction. Leave undefined
+   * when history is unknown; the first-interaction check is then skipped.
+   */
+  priorContracts?: string[] | null;
+  denylist?: DenylistEntry[];
+  /** Fee above which `high_fee` fires at medium severity (micro-STX). */
+  highFeeMicroStx?: bigint;
+};
+
+const DEFAULT_HIGH_FEE_MICRO = 1_000_000n; // 1 STX
+const VERY_HIGH_FEE_MULTIPLIER = 10n;
+
+const SEVERITY_ORDER: Record<RiskSeverity, number> = { high: 0, medium: 1, low: 2, info: 3 };
+
+const LOCAL_DENYLIST: DenylistEntry[] = Array.isArray((denylistFile as any)?.entries)
+  ? (denylistFile as any).entries
+  : [];
+
+function isContractPrincipal(principal?: string | null) {
+  return Boolean(principal && principal.includes("."));
+}
+
+function toBigInt(value: any): bigint {
+  try {
+    if (value === null || value === undefined || value === "") return 0n;
+    return BigInt(value);
+  } catch {
+    return 0n;
+  }
+}
+
+function formatStx(micro: bigint) {
+  const whole = micro / 1_000_000n;
+  const frac = (micro % 1_000_000n).toString().padStart(6, "0").replace(/0+$/, "");
+  return `${whole}${frac ? `.${frac}` : ""}`;
+}
+
+type Outgoing = { asset: string; recipient?: string };
+
+function outgoingTransfers(events: ParsedEvent[], sender?: string): Outgoing[] {
+  if (!sender) return [];
+
+  const out: Outgoing[] = [];
+  for (const ev of events) {
+    if (ev.kind === "stx_transfer" && ev.sender === sender) out.push({ asset: "STX", recipient: ev.recipient });
+    if (ev.kind === "ft_transfer" && ev.sender === sender) out.push({ asset: ev.asset, recipient: ev.recipient });
+    if (ev.kind === "nft_transfer" && ev.sender === sender) out.push({ asset: ev.asset, recipient: ev.recipient });
+  }
+  return out;
+}
+
+function isCovered(tx: ParsedStacksTx, transfer: Outgoing) {
+  return (tx.postConditions || []).some((pc) => {
+    if (pc.principal && pc.principal !== tx.sender) return false;
+    if (transfer.asset === "STX") return pc.type === "stx";
+    return pc.asset === transfer.asset;
+  });
+}
+
+function denylistMatch(principal: string | undefined, denylist: DenylistEntry[]) {
+  if (!principal) return null;
+  const deployer = principal.split(".")[0];
+  return denylist.find((entry) => entry.principal === principal || entry.principal === deployer) || null;
+}
+
+function shortAsset(asset: string) {
+  if (asset === "STX") return "STX";
+  const [contractId, name] = asset.split("::");
+  return name || contractId.split(".")[1] || contractId;
+}
+
+export function analyzeRisk(tx: ParsedStacksTx, context: RiskContext = {}): RiskFlag[] {
+  if (!tx) return [];
+
+  const flags: RiskFlag[] = [];
+  const events = Array.isArray(tx.events) ? tx.events : [];
+  const outgoing = outgoingTransfers(events, tx.sender);
+  const intentOnly = tx.origin === "raw_hex";
+  const denylist = context.denylist ?? LOCAL_DENYLIST;
+
+  if (String(tx.postConditionMode || "").toLowerCase() === "allow") {
+    if (outgoing.length > 0) {
+      const assets = Array.from(new Set(outgoing.map((t) => shortAsset(t.asset))));
+      flags.push({
+        code: "allow_mode_outgoing_transfers",
+        severity: "high",
+        title: "Allow mode with outgoing transfers",
+        explanation: `Post-condition mode was "allow" and ${assets.join(", ")} left the sender's wallet. Allow mode lets the contract move assets that no post condition mentions.`,
+      });
+    } else if (intentOnly && tx.type === "contract_call") {
+      flags.push({
+        code: "allow_mode_outgoing_transfers",
+        severity: "medium",
+        title: "Allow mode on an unsent contract call",
+        explanation: `Post-condition mode is "allow", so once broadcast the contract could move assets that no post condition mentions.`,
+      });
+    }
+  }
+
+  const uncoveredSeen = new Set<string>();
+  for (const transfer of outgoing) {
+    if (!isContractPrincipal(transfer.recipient) || isCovered(tx, transfer)) continue;
+
+    const key = `${transfer.recipient}|${transfer.asset}`;
+    if (uncoveredSeen.has(key)) continue;
+    uncoveredSeen.add(key);
+
+    flags.push({
+      code: "uncovered_contract_transfer",
+      severity: "medium",
+      title: "Transfer to a contract without a post condition",
+      explanation: `${shortAsset(transfer.asset)} was sent to ${transfer.recipient}, but no post condition limited how much could leave the sender's wallet.`,
+      subject: transfer.recipient,
+    });
+  }
+
+  const fee = toBigInt(tx.feeMicroStx);
+  const threshold = context.highFeeMicroStx ?? DEFAULT_HIGH_FEE_MICRO;
+  if (fee > threshold) {
+    flags.push({
+      code: "high_fee",
+      severity: fee > threshold * VERY_HIGH_FEE_MULTIPLIER ? "high" : "medium",
+      title: "Unusually high fee",
+      explanation: `The fee was ${formatStx(fee)} STX, above the ${formatStx(threshold)} STX most transactions stay under.`,
+    });
+  }
+
+  const contract = tx.type === "contract_call" ? tx.contractId : undefined;
+  if (contract && Array.isArray(context.priorContracts)) {
+    const known = lookupProtocol(contract, tx.network);
+    const isKnown = known && known.confidence === "high";
+    if (!isKnown && !context.priorContracts.includes(contract)) {
+      flags.push({
+        code: "first_interaction_unknown_contract",
+        severity: "low",
+        title: "First interaction with an unknown contract",
+        explanation: `${contract} is not a recognized protocol contract, and the sender has no earlier calls to it in recent history.`,
+        subject: contract,
+      });
+    }
+  }
+
+  const denySubjects = new Set<string>();
+  if (contract) denySubjects.add(contract);
+  for (const transfer of outgoing) {
+    if (transfer.recipient) denySubjects.add(transfer.recipient);
+  }
+
+  for (const subject of denySubjects) {
+    const match = denylistMatch(subject, denylist);
+    if (!match) continue;
+    flags.push({
+      code: "denylisted_contract",
+      severity: "high",
+      title: "Denylisted contract",
+      explanation: `${subject} is on the local denylist: ${match.reason}`,
+      subject,
+    });
+  }
+
+  return flags.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
+
+/** Highest severity among the flags, or null when there are none. */
+export function topRiskSeverity(flags: RiskFlag[]): RiskSeverity | null {
+  if (!flags.length) return null;
+  return flags.reduce<RiskSeverity>(
+    (top, flag) => (SEVERITY_ORDER[flag.severity] < SEVERITY_ORDER[top] ? flag.severity : top),
+    "info"
+  );
+}
@@ -0,0 +1,343 @@
+import type { ParsedEvent, ParsedFunctionArg, ParsedStacksTx } from "@/utils/parseStacksTx";
+
+/**
+ * Swap route decoding
+ *
+ * Router calls name their tokens (and often their pools) as principal
+ * arguments, while the asset events show what actually moved. This module
+ * rebuilds the hop-by-hop path from the events, lines it up with the token
+ * path and slippage guard in the arguments, and reports where the two
+ * disagree.
+ */
+
+export type SwapHop = {
+  /** Contract that took tokenIn and paid out tokenOut, when visible in events. */
+  pool?: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn?: string;
+  amountOut?: string;
+  /** False when the hop is only known from the arguments (e.g. inside a vault). */
+  observed: boolean;
+};
+
+export type SwapRoute = {
+  path: string[];
+  hops: SwapHop[];
+  amountIn?: string;
+  amountOut?: string;
+  /** Whole tokenOut per whole tokenIn; absent when either token's decimals are unknown. */
+  effectivePrice?: string;
+  /** In tokenOut base units. */
+  minimumReceived?: string;
+  /** How far above the minimum the swap settled, as a percentage of the minimum. */
+  slippageMarginPct?: number;
+  pools: string[];
+  source: "events" | "arguments" | "arguments_and_events";
+  mismatches: string[];
+};
+
+const AMOUNT_IN_ARGS = ["dx", "amt-in", "amount-in", "amount", "amt", "dx-amount", "in-amount"];
+const MIN_OUT_ARGS = [
+  "min-dy",
+  "min-dz",
+  "min-dw",
+  "min-dv",
+  "amt-out-min",
+  "min-amount-out",
+  "min-out",
+  "min-y",
+  "min-received",
+];
+
+/**
+ * Protocols whose router amounts are fixed-point rather than token base
+ * units, keyed by registry id. ALEX scales every token to 8 decimals.
+ */
+const FIXED_POINT_ARG_DECIMALS: Record<string, number> = { alex: 8 };
+
+export type SwapRouteOptions = {
+  /** SIP-010 decimals per token contract id. */
+  decimals?: Record<string, number | null | undefined>;
+  /** Registry id of the called protocol, for how its amount arguments are scaled. */
+  protocolId?: string | null;
+};
+
+const CONTRACT_ID_RE = /^S[PMTN][0-9A-Z]{28,40}\.[a-zA-Z][a-zA-Z0-9-_]*$/;
+
+type Leg = {
+  index: number;
+  asset: string;
+  sender?: string;
+  recipient?: string;
+  amount: bigint;
+};
+
+function toBigInt(value: any): bigint | null {
+  try {
+    if (value === null || value === undefined || value === "") return null;
+    return BigInt(value);
+  } catch {
+    return null;
+  }
+}
+
+/** Wrapped-STX token contracts stand in for STX in router arguments. */
+function isWrappedStx(contractId: string) {
+  const name = (contractId.split("::")[0].split(".")[1] || "").toLowerCase();
+  return name === "wstx" || name.startsWith("token-wstx") || name === "stx-token";
+}
+
+/** Maps an argument principal or event asset id to a comparable token key. */
+export function tokenKey(asset: string): string {
+  if (!asset) return "";
+  if (asset === "STX" || isWrappedStx(asset)) return "STX";
+  return asset.split("::")[0];
+}
+
+function legsFromEvents(events: ParsedEvent[]): Leg[] {
+  const legs: Leg[] = [];
+
+  events.forEach((ev, index) => {
+    if (ev.kind === "stx_transfer") {
+      const amount = toBigInt(ev.amountMicroStx);
+      if (amount !== null) {
+        legs.push({ index, asset: "STX", sender: ev.sender, recipient: ev.recipient, amount });
+      }
+    } else if (ev.kind === "ft_transfer") {
+      const amount = toBigInt(ev.amount);
+      if (amount !== null) {
+        legs.push({ index, asset: ev.asset, sender: ev.sender, recipient: ev.recipient, amount });
+      }
+    }
+  });
+
+  return legs;
+}
+
+/**
+ * A pool hop is any contract that received one token and paid out a
+ * different one. Routers that only forward the same token are skipped.
+ */
+function hopsFromLegs(legs: Leg[], viewer?: string): SwapHop[] {
+  const hops: Array<SwapHop & { order: number }> = [];
+  const principals = new Set<string>();
+
+  for (const leg of legs) {
+    if (leg.recipient && leg.recipient !== viewer) principals.add(leg.recipient);
+  }
+
+  for (const pool of principals) {
+    const incoming = legs.filter((leg) => leg.recipient === pool);
+    const outgoing = legs.filter((leg) => leg.sender === pool);
+
+    for (const inLeg of incoming) {
+      const outLeg = outgoing.find(
+        (leg) => tokenKey(leg.asset) !== tokenKey(inLeg.asset) && leg.index > inLeg.index
+      ) || outgoing.find((leg) => tokenKey(leg.asset) !== tokenKey(inLeg.asset));
+      if (!outLeg) continue;
+
+      hops.push({
+        order: inLeg.index,
+        pool,
+        tokenIn: inLeg.asset,
+        tokenOut: outLeg.asset,
+        amountIn: inLeg.amount.toString(),
+        amountOut: outLeg.amount.toString(),
+        observed: true,
+      });
+    }
+  }
+
+  // Chain hops so each one starts with the token the previous one paid out.
+  hops.sort((a, b) => a.order - b.order);
+  const chained: SwapHop[] = [];
+  const remaining = [...hops];
+
+  while (remaining.length > 0) {
+    const last = chained[chained.length - 1];
+    const nextIdx = last
+      ? remaining.findIndex((hop) => tokenKey(hop.tokenIn) === tokenKey(last.tokenOut))
+      : 0;
+    if (nextIdx < 0) break;
+
+    const [{ order, ...hop }] = remaining.splice(nextIdx, 1);
+    chained.push(hop);
+  }
+
+  return chained;
+}
+
+function findArg(args: ParsedFunctionArg[], names: string[]) {
+  return args.find((arg) => names.includes(String(arg?.name || "").toLowerCase())) || null;
+}
+
+function argNumber(arg: ParsedFunctionArg | null): string | undefined {
+  if (!arg) return undefined;
+  const value = arg.value;
+  if (typeof value === "string" && /^\d+$/.test(value)) return value;
+  return undefined;
+}
+
+/** Token principals in argument order, skipping pools and fee receivers. */
+function tokensFromArgs(args: ParsedFunctionArg[]): string[] {
+  const tokens: string[] = [];
+
+  for (const arg of args) {
+    const name = String(arg?.name || "").toLowerCase();
+    const value = typeof arg?.value === "string" ? arg.value : "";
+    if (!CONTRACT_ID_RE.test(value)) continue;
+    if (name.includes("pool") || name.includes("fee") || name.includes("share")) continue;
+
+    // Velar passes token0/token1 (pair order) and then token-in/token-out.
+    if (name === "token0" || name === "token1") continue;
+
+    if (!tokens.length || tokenKey(tokens[tokens.length - 1]) !== tokenKey(value)) tokens.push(value);
+  }
+
+  return tokens;
+}
+
+function poolsFromArgs(args: ParsedFunctionArg[]): string[] {
+  return args
+    .filter((arg) => String(arg?.name || "").toLowerCase().includes("pool"))
+    .map((arg) => (typeof arg.value === "string" ? arg.value : ""))
+    .filter((value) => CONTRACT_ID_RE.test(value));
+}
+
+function tokenDecimals(asset: string, decimals: SwapRouteOptions["decimals"]): number | null {
+  const key = tokenKey(asset);
+  if (key === "STX") return 6;
+  const value = decimals?.[key];
+  return typeof value === "number" ? value : null;
+}
+
+/** Base units of `asset` for an amount argument, or null when its scale cannot be resolved. */
+function argToBaseUnits(value: string, asset: string, options: SwapRouteOptions): bigint | null {
+  const argDecimals = options.protocolId ? FIXED_POINT_ARG_DECIMALS[options.protocolId] : undefined;
+  if (argDecimals === undefined) return BigInt(value);
+
+  const decimals = tokenDecimals(asset, options.decimals);
+  if (decimals === null) return null;
+  return decimals >= argDecimals
+    ? BigInt(value) * 10n ** BigInt(decimals - argDecimals)
+    : BigInt(value) / 10n ** BigInt(argDecimals - decimals);
+}
+
+function ratio(numerator: bigint, denominator: bigint, numDecimals: number | null, denDecimals: number | null) {
+  if (denominator === 0n || numDecimals === null || denDecimals === null) return undefined;
+  const num = Number(numerator) / 10 ** numDecimals;
+  const den = Number(denominator) / 10 ** denDecimals;
+  const value = num / den;
+  if (!Number.isFinite(value)) return undefined;
+  return value >= 1 ? value.toFixed(4).replace(/\.?0+$/, "") : value.toPrecision(6);
+}
+
+export function decodeSwapRoute(
+  tx: Pick<ParsedStacksTx, "events" | "functionArgs" | "sender">,
+  viewer?: string | null,
+  options: SwapRouteOptions = {}
+): SwapRoute | null {
+  const who = viewer || tx.sender;
+  const events = Array.isArray(tx.events) ? tx.events : [];
+  const args = Array.isArray(tx.functionArgs) ? tx.functionArgs : [];
+
+  const legs = legsFromEvents(events);
+  const eventHops = hopsFromLegs(legs, who);
+  const argTokens = tokensFromArgs(args);
+
+  if (eventHops.length === 0 && argTokens.length < 2) return null;
+
+  const sentLeg = legs.find((leg) => leg.sender === who);
+  const receivedLeg = [...legs].reverse().find((leg) => leg.recipient === who);
+
+  const eventPath = eventHops.length
+    ? [eventHops[0].tokenIn, ...eventHops.map((hop) => hop.tokenOut)]
+    : [];
+
+  const mismatches: string[] = [];
+  let path = eventPath;
+  let hops = eventHops;
+
+  if (argTokens.length >= 2) {
+    const argKeys = argTokens.map(tokenKey);
+    const eventKeys = eventPath.map(tokenKey);
+
+    if (eventKeys.length === 0) {
+      path = argTokens;
+      hops = argTokens.slice(1).map((token, i) => ({
+        tokenIn: argTokens[i],
+        tokenOut: token,
+        observed: false,
+      }));
+    } else if (argKeys.join(">") !== eventKeys.join(">")) {
+      if (argKeys[0] !== eventKeys[0]) {
+        mismatches.push(`Arguments start the route at ${argTokens[0]}, but events start at ${eventPath[0]}.`);
+      }
+      if (argKeys[argKeys.length - 1] !== eventKeys[eventKeys.length - 1]) {
+        mismatches.push(
+          `Arguments end the route at ${argTokens[argTokens.length - 1]}, but events end at ${eventPath[eventPath.length - 1]}.`
+        );
+      }
+
+      // A vault can settle several hops internally; the arguments then hold the full path.
+      if (!mismatches.length && argKeys.length > eventKeys.length) {
+        path = argTokens;
+        hops = argTokens.slice(1).map((token, i) => {
+          const observed = eventHops.find(
+            (hop) => tokenKey(hop.tokenIn) === argKeys[i] && tokenKey(hop.tokenOut) === tokenKey(token)
+          );
+          return observed ?? { tokenIn: argTokens[i], tokenOut: token, observed: false };
+        });
+      }
+    }
+  }
+
+  const amountIn = sentLeg?.amount ?? toBigInt(hops[0]?.amountIn);
+  const amountOut = receivedLeg?.amount ?? toBigInt(hops[hops.length - 1]?.amountOut);
+
+  const firstToken = path[0] || sentLeg?.asset || "";
+  const lastToken = path[path.length - 1] || receivedLeg?.asset || "";
+
+  const argAmountIn = argNumber(findArg(args, AMOUNT_IN_ARGS));
+  const requestedIn = argAmountIn ? argToBaseUnits(argAmountIn, firstToken, options) : null;
+  if (requestedIn !== null && amountIn !== null && requestedIn !== amountIn) {
+    mismatches.push(`The call asked to swap ${requestedIn.toString()}, but ${amountIn.toString()} left the wallet.`);
+  }
+
+  const minArg = argNumber(findArg(args, MIN_OUT_ARGS));
+  const min = minArg ? argToBaseUnits(minArg, lastToken, options) : null;
+  const minimumReceived = min?.toString();
+  let slippageMarginPct: number | undefined;
+
+  if (min !== null && amountOut !== null) {
+    if (amountOut < min) {
+      mismatches.push(`Received ${amountOut.toString()}, below the minimum of ${minimumReceived}.`);
+    } else if (min > 0n) {
+      slippageMarginPct = Number(((amountOut - min) * 10000n) / min) / 100;
+    }
+  }
+
+  return {
+    path,
+    hops,
+    amountIn: amountIn?.toString(),
+    amountOut: amountOut?.toString(),
+    effectivePrice:
+      amountIn !== null && amountOut !== null
+        ? ratio(amountOut, amountIn, tokenDecimals(lastToken, options.decimals), tokenDecimals(firstToken, options.decimals))
+        : undefined,
+    minimumReceived,
+    slippageMarginPct,
+    pools: Array.from(
+      new Set([...hops.map((hop) => hop.pool).filter((p): p is string => Boolean(p)), ...poolsFromArgs(args)])
+    ),
+    source:
+      argTokens.length >= 2 && eventHops.length
+        ? "arguments_and_events"
+        : eventHops.length
+        ? "events"
+        : "arguments",
+    mismatches,
+  };
+}
@@ -0,0 +1,380 @@
+import { PrincipalDelta, deltaForPrincipal, formatMicroStx, formatUnits } from "@/utils/balanceDeltas";
+import { parseStacksTransaction } from "@/utils/parseStacksTx";
+import { PriceProvider, PriceQuote, optionalDefaultPriceProvider, quotePrices, usdValue } from "@/utils/priceProvider";
+import { WalletTransferItem, mapWithConcurrency, stxFlows } from "@/utils/walletFilters";
+import { explainTransaction } from "@/features/explain-transaction/explainTx";
+import type { TransactionExplanation } from "@/features/explain-transaction/types";
+
+/**
+ * Wallet activity
+ *
+ * Fetches an address's transactions from Hiro and turns each one into a
+ * short activity card. Shared by the wallet explainer and `/api/ask`.
+ * Cards come from the same explainer as single transactions, so incoming
+ * tokens, NFT purchases and contract payouts read the same in both.
+ */
+
+export type WalletNetwork = "mainnet" | "testnet";
+
+export const HIRO_BASE: Record<WalletNetwork, string> = {
+  mainnet: "https://api.hiro.so",
+  testnet: "https://api.testnet.hiro.so",
+};
+
+export function shortAddr(addr?: string | null) {
+  if (!addr) return "";
+  if (addr.length <= 14) return addr;
+  return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
+}
+
+export function microToStx(value?: string | number | null) {
+  if (value === undefined || value === null || value === "") return null;
+  const num = Number(value);
+  if (!Number.isFinite(num)) return null;
+  return num / 1_000_000;
+}
+
+async function fetchWithTimeout(url: string, timeoutMs = 30000) {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    return await fetch(url, {
+      method: "GET",
+      headers: {
+        accept: "application/json",
+        "user-agent": "ExplainMyTransaction/1.0",
+      },
+      cache: "no-store",
+      signal: controller.signal,
+    });
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+export type PageOptions = { limit?: number; offset?: number };
+
+async function fetchHiroJson(url: string) {
+  let res: Response;
+  try {
+    res = await fetchWithTimeout(url, 30000);
+  } catch (error: any) {
+    const err: any = new Error(
+      error?.name === "AbortError"
+        ? "Request to Hiro API timed out. Try again or reduce the number of transactions fetched."
+        : "Failed to connect to Hiro API."
+    );
+    err.status = 500;
+    err.source = url;
+    err.note = error?.message || "fetch failed";
+    throw err;
+  }
+
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    const err: any = new Error(`Hiro API error: ${res.status}`);
+    err.status = res.status;
+    err.source = url;
+    err.raw = text;
+    throw err;
+  }
+
+  return {
+    json: await res.json(),
+    source: url,
+  };
+}
+
+/**
+ * Hiro's `/address/{a}/transactions_with_transfers`: each result holds the
+ * transaction plus the STX, token and NFT transfers that touched the address.
+ */
+export async function fetchAddressTransfers(
+  address: string,
+  network: WalletNetwork,
+  { limit = 50, offset = 0 }: PageOptions = {}
+) {
+  const base = HIRO_BASE[network];
+  return fetchHiroJson(
+    `${base}/extended/v1/address/${address}/transactions_with_transfers?limit=${limit}&offset=${offset}`
+  );
+}
+
+/** Hiro's `/address/{a}/balances`: STX (with locked), and every FT and NFT balance. */
+export async function fetchAddressBalances(address: string, network: WalletNetwork) {
+  const base = HIRO_BASE[network];
+  return fetchHiroJson(`${base}/extended/v1/address/${address}/balances`);
+}
+
+/** Hiro's NFT holdings: one result per token held, with the transaction that delivered it. */
+export async function fetchNftHoldings(address: string, network: WalletNetwork, { limit = 50, offset = 0 }: PageOptions = {}) {
+  const base = HIRO_BASE[network];
+  return fetchHiroJson(
+    `${base}/extended/v1/tokens/nft/holdings?principal=${address}&limit=${limit}&offset=${offset}&tx_metadata=false`
+  );
+}
+
+/** SIP-010 metadata (`name`, `symbol`, `decimals`) from Hiro's token metadata API. */
+export async function fetchTokenMetadata(contractId: string, network: WalletNetwork) {
+  const base = HIRO_BASE[network];
+  return fetchHiroJson(`${base}/metadata/v1/ft/${contractId}`);
+}
+
+export type TokenMetadata = { name?: string; symbol?: string; decimals?: number };
+
+/** Metadata per token contract id; tokens whose metadata cannot be read map to null. */
+export async function loadTokenMetadata(
+  contractIds: string[],
+  network: WalletNetwork,
+  fetchMetadata: typeof fetchTokenMetadata = fetchTokenMetadata
+): Promise<Record<string, TokenMetadata | null>> {
+  const ids = Array.from(new Set(contractIds));
+  const metadata = await mapWithConcurrency(ids, 4, (contractId) =>
+    fetchMetadata(contractId, network).then(({ json }) => json as TokenMetadata, () => null)
+  );
+  return Object.fromEntries(ids.map((id, i) => [id, metadata[i]]));
+}
+
+/** BNS names owned by a standard address, from Hiro's `/v1/addresses/stacks/{a}`. */
+export async function fetchBnsNames(address: string, network: WalletNetwork) {
+  const base = HIRO_BASE[network];
+  return fetchHiroJson(`${base}/v1/addresses/stacks/${address}`);
+}
+
+/**
+ * Contracts the wallet called in the older transactions of the same page,
+ * or null when the page does not reach back before this one.
+ */
+function priorContractsFor(tx: any, olderTxs: any[], wallet: string): string[] | null {
+  if (tx?.sender_address !== wallet || typeof tx?.nonce !== "number") return null;
+
+  const earlier = olderTxs.filter(
+    (older) => older?.sender_address === wallet && typeof older?.nonce === "number" && older.nonce < tx.nonce
+  );
+  if (earlier.length === 0) return tx.nonce === 0 ? [] : null;
+
+  return earlier
+    .filter((older) => older?.tx_type === "contract_call" && older?.contract_call?.contract_id)
+    .map((older) => older.contract_call.contract_id);
+}
+
+/** Hiro asset event for one transfer, in the shape `/extended/v1/tx/{id}` returns. */
+function transferEvent(eventType: string, transfer: any, extra: Record<string, any>) {
+  const sender = transfer?.sender || undefined;
+  const recipient = transfer?.recipient || undefined;
+  return {
+    event_type: eventType,
+    asset: {
+      asset_event_type: !sender ? "mint" : !recipient ? "burn" : "transfer",
+      sender,
+      recipient,
+      ...extra,
+    },
+  };
+}
+
+/**
+ * The item's transaction with asset events attached. Address listings leave
+ * `events` empty, so the transfers Hiro lists next to the transaction stand
+ * in for them; they cover every movement that touched the wallet.
+ */
+export function withTransferEvents(item: WalletTransferItem, wallet: string) {
+  const tx = item?.tx || {};
+  if (Array.isArray(tx.events) && tx.events.length > 0) return tx;
+
+  const events: any[] = [];
+
+  if (Array.isArray(item.stx_transfers)) {
+    for (const t of item.stx_transfers) events.push(transferEvent("stx_asset", t, { amount: t.amount }));
+  } else if (tx.tx_status !== "success") {
+    // Failed and pending transactions moved nothing.
+  } else if (tx.tx_type === "token_transfer" && tx.token_transfer) {
+    events.push(
+      transferEvent(
+        "stx_asset",
+        { sender: tx.sender_address, recipient: tx.token_transfer.recipient_address },
+        { amount: tx.token_transfer.amount }
+      )
+    );
+  } else {
+    // Older responses only carry totals; the other side is the called contract.
+    const counterparty = tx.contract_call?.contract_id || tx.sender_address;
+    const { sent, received } = stxFlows(item, wallet);
+    if (sent > 0n) events.push(transferEvent("stx_asset", { sender: wallet, recipient: counterparty }, { amount: sent.toString() }));
+    if (received > 0n) {
+      events.push(transferEvent("stx_asset", { sender: counterparty, recipient: wallet }, { amount: received.toString() }));
+    }
+  }
+
+  for (const t of item.ft_transfers || []) {
+    events.push(transferEvent("fungible_token_asset", t, { asset_id: t.asset_identifier, amount: t.amount }));
+  }
+  for (const t of item.nft_transfers || []) {
+    events.push(transferEvent("non_fungible_token_asset", t, { asset_id: t.asset_identifier, value: t.value }));
+  }
+
+  return { ...tx, events };
+}
+
+function assetName(asset: string) {
+  const [contractId, name] = String(asset).split("::");
+  return name || contractId.split(".")[1] || contractId;
+}
+
+/**
+ * What left and reached the wallet, from its net balance change. Each
+ * movement's `formattedAmount` is in whole units, or null for tokens whose
+ * decimals are unknown.
+ */
+function walletMovements(
+  delta: PrincipalDelta | null,
+  prices: Record<string, PriceQuote> | null,
+  tokens: Record<string, TokenMetadata | null> | null
+) {
+  const sent: any[] = [];
+  const received: any[] = [];
+  if (!delta) return { sent, received, nftsGained: [], nftsLost: [] };
+
+  const stxMicro = BigInt(delta.stxMicro);
+  if (stxMicro !== 0n) {
+    const abs = stxMicro < 0n ? -stxMicro : stxMicro;
+    (stxMicro < 0n ? sent : received).push({
+      asset: "STX",
+      symbol: "STX",
+      amount: abs.toString(),
+      amountStx: formatMicroStx(abs),
+      formattedAmount: formatMicroStx(abs),
+      usd: usdValue(prices, "STX", abs),
+    });
+  }
+
+  for (const ft of delta.fts) {
+    const negative = ft.amount.startsWith("-");
+    const amount = negative ? ft.amount.slice(1) : ft.amount;
+    const meta = tokens?.[ft.asset.split("::")[0]];
+    (negative ? sent : received).push({
+      asset: ft.asset,
+      symbol: meta?.symbol || assetName(ft.asset),
+      amount,
+      amountStx: null,
+      formattedAmount: typeof meta?.decimals === "number" ? formatUnits(BigInt(amount), meta.decimals) : null,
+      usd: usdValue(prices, ft.asset, amount),
+    });
+  }
+
+  return { sent, received, nftsGained: delta.nftsGained, nftsLost: delta.nftsLost };
+}
+
+function symbols(movements: any[]) {
+  return Array.from(new Set(movements.map((m) => m.symbol || assetName(m.asset)))).join(" + ");
+}
+
+function walletAction(explanation: TransactionExplanation, movements: ReturnType<typeof walletMovements>) {
+  const { sent, received, nftsGained, nftsLost } = movements;
+  const type = explanation.type;
+
+  if (type === "token_transfer") return received.length ? "Received STX" : "Sent STX";
+  if (type === "smart_contract") return "Contract Deploy";
+  if (type === "coinbase") return "Mined block";
+  if (type === "tenure_change") {
+    return explanation.tenureChange?.cause === "block_found" ? "New tenure" : "Tenure extended";
+  }
+  if (type === "poison_microblock") return "Poison microblock";
+  if (type !== "contract_call") return "Unknown activity";
+
+  const protocol = explanation.protocol;
+  if (explanation.swapSummary) return protocol ? `Swap on ${protocol}` : "Swap";
+  if (nftsGained.length) return sent.length ? "Bought NFT" : "Received NFT";
+  if (nftsLost.length) return received.length ? "Sold NFT" : "Sent NFT";
+  if (received.length && !sent.length) return `Received ${symbols(received)}`;
+  if (sent.length && !received.length) return `Sent ${symbols(sent)}`;
+  return "Contract Call";
+}
+
+/**
+ * Activity card for one `/transactions_with_transfers` item. It is cut from
+ * the same `explainTransaction` output as the full explanation, viewed from
+ * the wallet, so the card's summary, direction and amounts match it.
+ */
+export function explainWalletItem(
+  item: WalletTransferItem,
+  wallet: string,
+  network: WalletNetwork,
+  priorContracts: string[] | null,
+  prices: Record<string, PriceQuote> | null,
+  tokens: Record<string, TokenMetadata | null> | null = null
+) {
+  const tx = item?.tx;
+  const parsed = parseStacksTransaction(withTransferEvents(item, wallet), network);
+  const explanation = explainTransaction(parsed, { viewer: wallet, risk: { priorContracts }, prices, tokens });
+
+  const movements = walletMovements(deltaForPrincipal(explanation.balanceDeltas, wallet), prices, tokens);
+  const gained = movements.received.length > 0 || movements.nftsGained.length > 0;
+  const lost = movements.sent.length > 0 || movements.nftsLost.length > 0;
+  const mined = explanation.type === "coinbase" && explanation.sender === wallet;
+  const direction = gained && lost ? "both" : gained || mined ? "in" : lost ? "out" : "neutral";
+
+  const stx = [...movements.sent, ...movements.received].find((m) => m.asset === "STX") || null;
+
+  return {
+    txid: explanation.txid || tx?.tx_id || "",
+    type: explanation.type,
+    status: explanation.status || "",
+    action: walletAction(explanation, movements),
+    summary: explanation.summary,
+    direction,
+    sender: explanation.sender || "",
+    recipient:
+      explanation.type === "coinbase"
+        ? explanation.coinbase?.altRecipient || null
+        : explanation.type === "token_transfer"
+        ? explanation.recipientOrTarget
+        : null,
+    contract: explanation.contract,
+    functionName: explanation.functionName,
+    protocol: explanation.protocol,
+    protocolInfo: explanation.protocolInfo,
+    riskFlags: explanation.riskFlags,
+    riskLevel: explanation.riskLevel,
+    amountStx: stx ? Number(stx.amountStx) : null,
+    amountUsd: stx ? stx.usd : null,
+    sent: movements.sent,
+    received: movements.received,
+    nftsGained: movements.nftsGained,
+    nftsLost: movements.nftsLost,
+    feeStx: explanation.feeStx,
+    blockHeight: explanation.blockHeight,
+    timeIso: explanation.timeIso,
+  };
+}
+
+/**
+ * Activity cards for a page of items, newest first. Each one gets prices for
+ * the assets it moved on its block day; fiat values never use today's price.
+ * Token metadata is read once per page so amounts read in whole units.
+ */
+export async function explainWalletTransactions(
+  items: WalletTransferItem[],
+  wallet: string,
+  network: WalletNetwork,
+  priceProvider: PriceProvider | null = optionalDefaultPriceProvider(),
+  fetchMetadata: typeof fetchTokenMetadata = fetchTokenMetadata
+) {
+  const pricesByItem = await Promise.all(
+    items.map((item) => {
+      const tx = item?.tx;
+      if (!priceProvider || typeof tx?.block_height !== "number") return null;
+      const assets = ["STX", ...(item.ft_transfers || []).map((t) => t.asset_identifier)];
+      return quotePrices(priceProvider, assets, tx?.burn_block_time_iso || tx?.block_time_iso).catch(() => null);
+    })
+  );
+
+  const tokenContracts = items.flatMap((item) => (item.ft_transfers || []).map((t) => t.asset_identifier.split("::")[0]));
+  const tokens = tokenContracts.length ? await loadTokenMetadata(tokenContracts, network, fetchMetadata) : {};
+
+  const txs = items.map((item) => item?.tx);
+  return items.map((item, i) =>
+    explainWalletItem(item, wallet, network, priorContractsFor(txs[i], txs.slice(i + 1), wallet), pricesByItem[i], tokens)
+  );
+}
@@ -0,0 +1,412 @@
+import {
+  WalletNetwork,
+  explainWalletTransactions,
+  fetchAddressTransfers,
+  fetchTokenMetadata,
+} from "@/utils/walletActivity";
+import type { PriceProvider } from "@/utils/priceProvider";
+
+/**
+ * Filtering and paging wallet activity
+ *
+ * Works on Hiro's `/transactions_with_transfers` results, which list the
+ * STX, token and NFT transfers that touched the address next to each
+ * transaction, so direction and asset filters see more than `tx_type`.
+ *
+ * Pages are addressed by an opaque cursor rather than a raw offset: it also
+ * remembers the last item returned, so transactions confirmed while the
+ * user scrolls do not make items repeat.
+ */
+
+export type WalletTransferItem = {
+  tx: any;
+  stx_sent?: string;
+  stx_received?: string;
+  stx_transfers?: Array<{ amount: string; sender?: string; recipient?: string }>;
+  ft_transfers?: Array<{ asset_identifier: string; amount: string; sender?: string; recipient?: string }>;
+  nft_transfers?: Array<{ asset_identifier: string; value?: any; sender?: string; recipient?: string }>;
+};
+
+export type WalletDirection = "in" | "out";
+
+/** "failed" covers every `abort_*` status. */
+export type WalletStatusFilter = "success" | "failed" | "pending";
+
+export type WalletFilters = {
+  /** Inclusive ISO start. */
+  from?: string | null;
+  /** Exclusive ISO end. */
+  to?: string | null;
+  /** Hiro `tx_type` values, e.g. "token_transfer", "contract_call". */
+  types?: string[];
+  direction?: WalletDirection | null;
+  /** Protocol registry ids. */
+  protocols?: string[];
+  /** "STX", token symbols ("sbtc") or full asset identifiers. */
+  assets?: string[];
+  statuses?: WalletStatusFilter[];
+};
+
+/** Fetches one page of `/transactions_with_transfers`; injectable so recorded pages can stand in. */
+export type FetchTransfersPage = (
+  address: string,
+  network: WalletNetwork,
+  page: { limit: number; offset: number }
+) => Promise<{ json: any; source: string }>;
+
+export const HIRO_PAGE_SIZE = 50;
+
+/** Hiro pages as they were read, so a report can be rebuilt from them offline. */
+export type TransfersRecording = {
+  pages: Array<{ offset: number; limit: number; json: any }>;
+};
+
+/** Wraps a fetcher so every page it reads is appended to `recording`. */
+export function recordFetchPage(fetchPage: FetchTransfersPage, recording: TransfersRecording): FetchTransfersPage {
+  return async (address, network, page) => {
+    const result = await fetchPage(address, network, page);
+    recording.pages.push({ offset: page.offset, limit: page.limit, json: result.json });
+    return result;
+  };
+}
+
+/** Serves pages from a recording; offsets it does not hold read as empty. */
+export function replayFetchPage(recording: TransfersRecording): FetchTransfersPage {
+  const pages = Array.isArray(recording?.pages) ? recording.pages : [];
+  const total = pages.find((p) => typeof p?.json?.total === "number")?.json.total ?? null;
+
+  return async (_address, _network, page) => {
+    const hit = pages.find((p) => p?.offset === page.offset);
+    return {
+      json: hit?.json ?? { limit: page.limit, offset: page.offset, total, results: [] },
+      source: `recording#offset=${page.offset}`,
+    };
+  };
+}
+
+export function txTime(tx: any): number | null {
+  const value = tx?.burn_block_time_iso || tx?.block_time_iso || tx?.receipt_time_iso;
+  const ms = value ? Date.parse(value) : NaN;
+  return Number.isNaN(ms) ? null : ms;
+}
+
+function toBigInt(value: any): bigint {
+  try {
+    if (value === null || value === undefined || value === "") return 0n;
+    return BigInt(value);
+  } catch {
+    return 0n;
+  }
+}
+
+/** STX that left or reached the wallet, not counting the fee it paid. */
+export function stxFlows(item: WalletTransferItem, wallet: string) {
+  const paidFee = item.tx?.sender_address === wallet && !item.tx?.sponsored ? toBigInt(item.tx?.fee_rate) : 0n;
+  const sent = toBigInt(item.stx_sent) - paidFee;
+  return { sent: sent > 0n ? sent : 0n, received: toBigInt(item.stx_received), fee: paidFee };
+}
+
+export function tokenFlows(item: WalletTransferItem, wallet: string, direction: WalletDirection) {
+  return (item.ft_transfers || []).filter((t) => (direction === "out" ? t.sender === wallet : t.recipient === wallet));
+}
+
+function nftFlows(item: WalletTransferItem, wallet: string, direction: WalletDirection) {
+  return (item.nft_transfers || []).filter((t) => (direction === "out" ? t.sender === wallet : t.recipient === wallet));
+}
+
+/** Matches a full asset identifier, or a symbol against the contract or asset name. */
+export function assetMatches(assetId: string, wanted: string) {
+  const want = String(wanted || "").toLowerCase();
+  const id = String(assetId || "").toLowerCase();
+  if (id === want || id.split("::")[0] === want) return true;
+
+  const [contractId, name] = id.split("::");
+  const contractName = contractId.split(".")[1] || "";
+  return name === want || contractName === want || contractName.startsWith(`${want}-`) || contractName.includes(`-${want}`);
+}
+
+export function hasDirection(item: WalletTransferItem, wallet: string, direction: WalletDirection) {
+  const { sent, received } = stxFlows(item, wallet);
+  if (direction === "out" ? sent > 0n : received > 0n) return true;
+  return tokenFlows(item, wallet, direction).length > 0 || nftFlows(item, wallet, direction).length > 0;
+}
+
+export function movesAsset(item: WalletTransferItem, wallet: string, asset: string, direction: WalletDirection | null) {
+  const directions: WalletDirection[] = direction ? [direction] : ["in", "out"];
+
+  if (asset.toLowerCase() === "stx") {
+    const { sent, received } = stxFlows(item, wallet);
+    return directions.some((d) => (d === "out" ? sent > 0n : received > 0n));
+  }
+
+  return directions.some((d) =>
+    [...tokenFlows(item, wallet, d), ...nftFlows(item, wallet, d)].some((t) => assetMatches(t.asset_identifier, asset))
+  );
+}
+
+function statusMatches(status: string, wanted: WalletStatusFilter) {
+  const s = String(status || "").toLowerCase();
+  if (wanted === "failed") return s.startsWith("abort") || s.startsWith("dropped");
+  return s === wanted;
+}
+
+/** `card` is the item's activity card; protocol filters read its registry match. */
+export function matchesWalletFilters(item: WalletTransferItem, card: any, filters: WalletFilters, wallet: string) {
+  const time = txTime(item.tx);
+  if (filters.from && (time === null || time < Date.parse(filters.from))) return false;
+  if (filters.to && (time === null || time >= Date.parse(filters.to))) return false;
+
+  if (filters.types?.length && !filters.types.includes(item.tx?.tx_type)) return false;
+  if (filters.statuses?.length && !filters.statuses.some((s) => statusMatches(item.tx?.tx_status, s))) return false;
+  if (filters.direction && !hasDirection(item, wallet, filters.direction)) return false;
+  if (filters.protocols?.length && !filters.protocols.includes(card?.protocolInfo?.id)) return false;
+  if (filters.assets?.length && !filters.assets.some((a) => movesAsset(item, wallet, a, filters.direction ?? null))) {
+    return false;
+  }
+
+  return true;
+}
+
+type Cursor = { offset: number; after: string | null };
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify({ o: cursor.offset, a: cursor.after }), "utf8").toString("base64url");
+}
+
+/** Null for a malformed cursor. */
+export function decodeCursor(value: string): Cursor | null {
+  try {
+    const json = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (!Number.isInteger(json?.o) || json.o < 0) return null;
+    return { offset: json.o, after: typeof json?.a === "string" ? json.a : null };
+  } catch {
+    return null;
+  }
+}
+
+/** Runs `task` over `items` with at most `limit` in flight; results keep input order. */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+export type ListActivityOptions = {
+  filters?: WalletFilters;
+  /** Matching items per page. */
+  limit?: number;
+  cursor?: string | null;
+  /** Walk every Hiro page (up to `maxPages`) instead of returning one page. */
+  all?: boolean;
+  /** Hiro pages fetched at once in "all" mode. */
+  concurrency?: number;
+  /** Hiro pages scanned at most per call. */
+  maxPages?: number;
+  fetchPage?: FetchTransfersPage;
+  /** Prices for the cards' fiat values; the default provider otherwise. */
+  priceProvider?: PriceProvider;
+  /** Token metadata for the cards' whole-unit amounts; Hiro otherwise. */
+  fetchMetadata?: typeof fetchTokenMetadata;
+};
+
+export type WalletActivityPage = {
+  activities: any[];
+  items: WalletTransferItem[];
+  nextCursor: string | null;
+  hasMore: boolean;
+  /** Transactions read from Hiro to build this page. */
+  scanned: number;
+  /** Transactions Hiro reports for the address. */
+  total: number | null;
+  sources: string[];
+};
+
+const DEFAULT_LIMIT = 20;
+const DEFAULT_SCAN_PAGES = 10;
+const DEFAULT_ALL_PAGES = 100;
+const DEFAULT_CONCURRENCY = 4;
+
+function pageResults(json: any): WalletTransferItem[] {
+  return Array.isArray(json?.results) ? json.results.filter((r: any) => r?.tx) : [];
+}
+
+/** True once newest-first results are older than the range start. */
+function beforeRange(item: WalletTransferItem, filters: WalletFilters) {
+  const time = txTime(item.tx);
+  return Boolean(filters.from && time !== null && time < Date.parse(filters.from));
+}
+
+export type TransferHistory = {
+  /** Newest first, without duplicates. */
+  items: WalletTransferItem[];
+  total: number | null;
+  /** True when older history exists that was not read. */
+  hasMore: boolean;
+  sources: string[];
+};
+
+/**
+ * The address's history, newest first, up to `maxPages` Hiro pages or until
+ * `filters.from` is passed. Nothing is explained or priced, so callers that
+ * only aggregate transfers should page through this rather than
+ * `listWalletActivity`.
+ */
+export async function fetchTransferHistory(
+  address: string,
+  network: WalletNetwork,
+  options: Pick<ListActivityOptions, "filters" | "maxPages" | "concurrency" | "fetchPage"> = {}
+): Promise<TransferHistory> {
+  const filters = options.filters ?? {};
+  const fetchPage = options.fetchPage ?? fetchAddressTransfers;
+  const maxPages = options.maxPages ?? DEFAULT_ALL_PAGES;
+  const first = await fetchPage(address, network, { limit: HIRO_PAGE_SIZE, offset: 0 });
+  const total = typeof first.json?.total === "number" ? first.json.total : null;
+  const pages = [pageResults(first.json)];
+  const sources = [first.source];
+
+  const firstPage = pages[0];
+  const reachedStart = firstPage.length > 0 && beforeRange(firstPage[firstPage.length - 1], filters);
+
+  if (total !== null && !reachedStart) {
+    const offsets: number[] = [];
+    for (let offset = HIRO_PAGE_SIZE; offset < total && offsets.length < maxPages - 1; offset += HIRO_PAGE_SIZE) {
+      offsets.push(offset);
+    }
+
+    const rest = await mapWithConcurrency(offsets, options.concurrency ?? DEFAULT_CONCURRENCY, (offset) =>
+      fetchPage(address, network, { limit: HIRO_PAGE_SIZE, offset })
+    );
+    for (const page of rest) {
+      pages.push(pageResults(page.json));
+      sources.push(page.source);
+    }
+  }
+
+  // Pages fetched side by side can overlap when new transactions land.
+  const seen = new Set<string>();
+  const items = pages.flat().filter((item) => {
+    const id = item.tx?.tx_id;
+    if (!id || seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+
+  const oldest = items[items.length - 1];
+  const scannedAll = total === null || items.length >= total || Boolean(oldest && beforeRange(oldest, filters));
+
+  return { items, total, hasMore: !scannedAll, sources };
+}
+
+async function listAll(
+  address: string,
+  network: WalletNetwork,
+  filters: WalletFilters,
+  options: ListActivityOptions,
+  fetchPage: FetchTransfersPage
+): Promise<WalletActivityPage> {
+  const history = await fetchTransferHistory(address, network, { ...options, filters, fetchPage });
+
+  const cards = await explainWalletTransactions(history.items, address, network, options.priceProvider, options.fetchMetadata);
+  const matched = history.items
+    .map((item, i) => ({ item, card: cards[i] }))
+    .filter(({ item, card }) => matchesWalletFilters(item, card, filters, address));
+
+  return {
+    activities: matched.map(({ card }) => card),
+    items: matched.map(({ item }) => item),
+    nextCursor: null,
+    hasMore: history.hasMore,
+    scanned: history.items.length,
+    total: history.total,
+    sources: history.sources,
+  };
+}
+
+/**
+ * One page of matching activity, newest first. Hiro pages are scanned until
+ * `limit` items match, the range start is passed, or `maxPages` were read;
+ * `nextCursor` resumes right after the last item scanned.
+ */
+export async function listWalletActivity(
+  address: string,
+  network: WalletNetwork,
+  options: ListActivityOptions = {}
+): Promise<WalletActivityPage> {
+  const filters = options.filters ?? {};
+  const fetchPage = options.fetchPage ?? fetchAddressTransfers;
+  if (options.all) return listAll(address, network, filters, options, fetchPage);
+
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const maxPages = options.maxPages ?? DEFAULT_SCAN_PAGES;
+  const start = options.cursor ? decodeCursor(options.cursor) : { offset: 0, after: null };
+  if (!start) throw Object.assign(new Error("Invalid cursor"), { status: 400 });
+
+  const matched: Array<{ item: WalletTransferItem; card: any }> = [];
+  const sources: string[] = [];
+  let offset = start.offset;
+  let skipThrough = start.after;
+  let lastTxid = start.after;
+  let total: number | null = null;
+  let scanned = 0;
+  let exhausted = false;
+
+  for (let page = 0; page < maxPages && matched.length < limit && !exhausted; page++) {
+    const { json, source } = await fetchPage(address, network, { limit: HIRO_PAGE_SIZE, offset });
+    sources.push(source);
+    if (typeof json?.total === "number") total = json.total;
+
+    let results = pageResults(json);
+    const fetched = results.length;
+
+    // New transactions shift offsets; skip what the previous page already returned.
+    if (skipThrough) {
+      const seenAt = results.findIndex((item) => item.tx?.tx_id === skipThrough);
+      if (seenAt !== -1) {
+        results = results.slice(seenAt + 1);
+        offset += seenAt + 1;
+      }
+      skipThrough = null;
+    }
+
+    const cards = await explainWalletTransactions(results, address, network, options.priceProvider, options.fetchMetadata);
+    let used = 0;
+
+    for (let i = 0; i < results.length; i++) {
+      const item = results[i];
+      if (beforeRange(item, filters)) {
+        exhausted = true;
+        break;
+      }
+
+      scanned++;
+      used++;
+      offset++;
+      lastTxid = item.tx?.tx_id ?? lastTxid;
+      if (matchesWalletFilters(item, cards[i], filters, address)) matched.push({ item, card: cards[i] });
+      if (matched.length >= limit) break;
+    }
+
+    // A short page is the last one only once every result on it was used.
+    const lastPage = fetched < HIRO_PAGE_SIZE && used === results.length;
+    if (lastPage || (total !== null && offset >= total)) exhausted = true;
+  }
+
+  return {
+    activities: matched.map(({ card }) => card),
+    items: matched.map(({ item }) => item),
+    nextCursor: exhausted ? null : encodeCursor({ offset, after: lastTxid }),
+    hasMore: !exhausted,
+    scanned,
+    total,
+    sources,
+  };
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import { makeUnsignedSTXTokenTransfer } from "@stacks/transactions";
+import { createFeeAnalyzer, createFixtureFetcher } from "@/utils/feeAnalysis";
+import { parseRawStacksTransaction, parseStacksTransaction } from "@/utils/parseStacksTx";
+import fixtures from "./fixtures/hiro-fees.json";
+
+const SENDER = "SP2C2YFP12AJZB4MABJBAJ55XECVS7E4PMMZ89YZR";
+const TXID = `0x${"ab".repeat(32)}`;
+
+function confirmedCall(fee: number, blockHeight = 150000) {
+  return parseStacksTransaction(
+    {
+      tx_id: TXID,
+      tx_type: "contract_call",
+      tx_status: "success",
+      fee_rate: String(fee),
+      block_height: blockHeight,
+      sender_address: SENDER,
+      nonce: 7,
+      contract_call: { contract_id: `${SENDER}.router`, function_name: "swap", function_args: [] },
+      events: [],
+    },
+    "mainnet"
+  );
+}
+
+function pendingCall(fee: number) {
+  return parseStacksTransaction(
+    {
+      tx_id: `0x${"cd".repeat(32)}`,
+      tx_type: "contract_call",
+      tx_status: "pending",
+      fee_rate: String(fee),
+      sender_address: SENDER,
+      nonce: 8,
+      raw_tx: `0x${"00".repeat(200)}`,
+      contract_call: { contract_id: `${SENDER}.router`, function_name: "swap", function_args: [] },
+    },
+    "mainnet"
+  );
+}
+
+function analyzer() {
+  return createFeeAnalyzer({ fetchJson: createFixtureFetcher(fixtures) });
+}
+
+describe("confirmed transactions", () => {
+  it("compares the fee with same-type peers in its block", async () => {
+    const analysis = await analyzer().analyze(confirmedCall(12000));
+
+    expect(analysis.basis).toBe("block");
+    expect(analysis.blocks).toEqual([150000]);
+    // Six contract-call peers; the transaction itself and the STX transfers are left out.
+    expect(analysis.sampleSize).toBe(6);
+    expect(analysis.medianMicroStx).toBe("4000");
+    expect(analysis.p25MicroStx).toBe("3000");
+    expect(analysis.p90MicroStx).toBe("6000");
+    expect(analysis.ratioToTypical).toBe(3);
+    expect(analysis.percentile).toBe(100);
+    expect(analysis.label).toBe("about 3× the typical fee for a contract call at that time");
+  });
+
+  it("labels an underpaid fee with its ratio and percentile", async () => {
+    const analysis = await analyzer().analyze(confirmedCall(2000));
+
+    expect(analysis.ratioToTypical).toBe(0.5);
+    expect(analysis.percentile).toBe(17);
+    expect(analysis.label).toBe("about 0.5× the typical fee for a contract call at that time");
+  });
+
+  it("calls a fee near the median typical", async () => {
+    const analysis = await analyzer().analyze(confirmedCall(3000));
+
+    expect(analysis.ratioToTypical).toBe(0.75);
+    expect(analysis.percentile).toBe(50);
+    expect(analysis.label).toBe("about the typical fee for a contract call at that time");
+  });
+
+  it("widens to neighbouring blocks until the sample is large enough", async () => {
+    const analysis = await analyzer().analyze(confirmedCall(5000, 150100));
+
+    expect(analysis.blocks).toEqual([150099, 150100, 150101]);
+    expect(analysis.sampleSize).toBe(6);
+    expect(analysis.medianMicroStx).toBe("2500");
+    expect(analysis.ratioToTypical).toBe(2);
+  });
+
+  it("reads the fee per byte from the raw transaction", async () => {
+    const analysis = await analyzer().analyze(confirmedCall(12000));
+
+    expect(analysis.sizeBytes).toBe(240);
+    expect(analysis.feePerByteMicroStx).toBe(50);
+  });
+});
+
+describe("pending transactions", () => {
+  it("compares the fee with the mempool medium-priority estimate", async () => {
+    const analysis = await analyzer().analyze(pendingCall(15000));
+
+    expect(analysis.basis).toBe("mempool");
+    expect(analysis.medianMicroStx).toBe("5000");
+    expect(analysis.ratioToTypical).toBe(3);
+    expect(analysis.percentile).toBeNull();
+    expect(analysis.label).toBe("about 3× the current medium-priority fee for a contract call");
+  });
+
+  it("labels a fee below the estimate", async () => {
+    const analysis = await analyzer().analyze(pendingCall(2500));
+
+    expect(analysis.ratioToTypical).toBe(0.5);
+    expect(analysis.label).toBe("about 0.5× the current medium-priority fee for a contract call");
+    expect(analysis.feePerByteMicroStx).toBe(12.5);
+  });
+});
+
+describe("raw transactions", () => {
+  it("never calls Hiro and reports only the fee per byte", async () => {
+    const tx = await makeUnsignedSTXTokenTransfer({
+      recipient: SENDER,
+      amount: 1000n,
+      fee: 2000n,
+      nonce: 0n,
+      publicKey: "03ef788b3830c00abe8f64f62dc32fc863bc0b2cafeb073b6c8e1c7657d9c2c3ab",
+      network: "mainnet",
+    });
+    const hex = tx.serialize();
+    const urls: string[] = [];
+    const offline = createFeeAnalyzer({
+      fetchJson: async (url) => {
+        urls.push(url);
+        throw new Error("no network in this test");
+      },
+    });
+
+    const analysis = await offline.analyze(parseRawStacksTransaction(hex, "mainnet"));
+
+    expect(urls).toEqual([]);
+    expect(analysis.basis).toBe("none");
+    expect(analysis.sizeBytes).toBe(hex.length / 2);
+    expect(analysis.feePerByteMicroStx).toBe(Math.round((2000 / (hex.length / 2)) * 100) / 100);
+    expect(analysis.ratioToTypical).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { Cl, serializeCV } from "@stacks/transactions";
+import { explainTransaction } from "@/features/explain-transaction";
+import { collectKnownNumbers, createNarrator, findUnsupportedNumbers } from "@/features/explain-transaction/narrative";
+import { parseStacksTransaction } from "@/utils/parseStacksTx";
+
+const SENDER = "SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7";
+const RECIPIENT = "SP3K8BC0PPEVCV7NZ6QSRWPQ2JE9E5B6N3PA0KBR9";
+const ALEX = "SP102V8P0F7JX67ARQ77WEA3D3CFB5XW39REDT0AM.token-alex";
+const TOKENS = { [ALEX]: { name: "ALEX Token", symbol: "ALEX", decimals: 8 } };
+
+function hex(cv: Parameters<typeof serializeCV>[0]) {
+  const value = serializeCV(cv);
+  return value.startsWith("0x") ? value : `0x${value}`;
+}
+
+/** 1.5 ALEX (150000000 base units) sent with a 0.003 STX fee. */
+const parsed = parseStacksTransaction(
+  {
+    tx_id: `0x${"12".repeat(32)}`,
+    tx_type: "contract_call",
+    tx_status: "success",
+    sender_address: SENDER,
+    fee_rate: "3000",
+    nonce: 42,
+    block_height: 180000,
+    contract_call: {
+      contract_id: ALEX,
+      function_name: "transfer",
+      function_args: [
+        { name: "amount", type: "uint", hex: hex(Cl.uint(150000000)), repr: "u150000000" },
+        { name: "sender", type: "principal", hex: hex(Cl.principal(SENDER)), repr: `'${SENDER}` },
+        { name: "recipient", type: "principal", hex: hex(Cl.principal(RECIPIENT)), repr: `'${RECIPIENT}` },
+        { name: "memo", type: "(optional (buff 34))", hex: hex(Cl.none()), repr: "none" },
+      ],
+    },
+    events: [
+      {
+        event_index: 0,
+        event_type: "fungible_token_asset",
+        asset: { asset_event_type: "transfer", asset_id: `${ALEX}::alex`, sender: SENDER, recipient: RECIPIENT, amount: "150000000" },
+      },
+    ],
+  },
+  "mainnet"
+);
+
+const explanation = explainTransaction(parsed, { viewer: SENDER, tokens: TOKENS });
+
+function narratorReplying(text: string) {
+  return createNarrator({ model: "test-model", complete: async () => text });
+}
+
+describe("narrative number check", () => {
+  it("knows token amounts in the whole units the summary prints", () => {
+    expect(explanation.summary).toContain("1.5 ALEX");
+    expect(collectKnownNumbers(explanation, TOKENS).has(1.5)).toBe(true);
+    expect(collectKnownNumbers(explanation).has(1.5)).toBe(false);
+  });
+
+  it("accepts a paragraph that repeats the summary's amounts", async () => {
+    const text = "You sent 1.5 ALEX to another wallet and paid a network fee of 0.003 STX. Nothing else changed hands.";
+    const narrative = await narratorReplying(text).narrate(parsed, explanation, TOKENS);
+
+    expect(narrative).toEqual({ text, source: "llm", model: "test-model", fallbackReason: null });
+  });
+
+  it("falls back to the rule-based summary when a number is invented", async () => {
+    const narrative = await narratorReplying("You sent 2.5 ALEX, paying 0.003 STX in fees.").narrate(parsed, explanation, TOKENS);
+
+    expect(narrative.source).toBe("rules");
+    expect(narrative.text).toBe(explanation.summary);
+    expect(narrative.fallbackReason).toBe("numbers not in the transaction data: 2.5");
+  });
+
+  it("does not accept the nonce or block height as amounts", () => {
+    expect(findUnsupportedNumbers("Nonce 42 in block 180000.", collectKnownNumbers(explanation, TOKENS))).toEqual([42, 180000]);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import { exportWalletActivity } from "@/features/wallet-export";
+import type { FetchTransfersPage } from "@/utils/walletFilters";
+
+const WALLET = "SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7";
+const PAYER = "SP3K8BC0PPEVCV7NZ6QSRWPQ2JE9E5B6N3PA0KBR9";
+const POOL = "SP102V8P0F7JX67ARQ77WEA3D3CFB5XW39REDT0AM.amm-pool-v2-01";
+const ALEX = "SP102V8P0F7JX67ARQ77WEA3D3CFB5XW39REDT0AM.token-alex";
+const LP = "SP102V8P0F7JX67ARQ77WEA3D3CFB5XW39REDT0AM.token-amm-pool-v2-01";
+
+const txid = (n: number) => `0x${String(n).padStart(2, "0").repeat(32)}`;
+
+function item(
+  n: number,
+  options: {
+    sender?: string;
+    fee?: number;
+    status?: string;
+    stx?: Array<{ amount: string; sender: string; recipient: string }>;
+    /** [asset, amount, sender, recipient]; a null sender is a mint. */
+    fts?: Array<[string, string, string | null, string | null]>;
+    functionName?: string;
+  }
+) {
+  const time = `2024-03-0${n}T10:00:00.000Z`;
+  const sender = options.sender ?? WALLET;
+  const fee = options.fee ?? 0;
+  const stx = options.stx ?? [];
+  const stxSent = stx.filter((t) => t.sender === WALLET).reduce((a, t) => a + Number(t.amount), 0);
+  const stxReceived = stx.filter((t) => t.recipient === WALLET).reduce((a, t) => a + Number(t.amount), 0);
+
+  return {
+    tx: {
+      tx_id: txid(n),
+      tx_type: options.functionName ? "contract_call" : "token_transfer",
+      tx_status: options.status ?? "success",
+      sender_address: sender,
+      fee_rate: String(fee),
+      nonce: n,
+      block_height: 150000 + n,
+      block_time_iso: time,
+      burn_block_time_iso: time,
+      ...(options.functionName
+        ? { contract_call: { contract_id: POOL, function_name: options.functionName, function_args: [] } }
+        : { token_transfer: { recipient_address: WALLET, amount: String(stxReceived), memo: "0x" } }),
+      events: [],
+    },
+    stx_sent: String(stxSent + (sender === WALLET ? fee : 0)),
+    stx_received: String(stxReceived),
+    stx_transfers: stx,
+    ft_transfers: (options.fts ?? []).map(([asset, amount, from, to]) => ({
+      asset_identifier: asset,
+      amount,
+      ...(from ? { sender: from } : {}),
+      recipient: to,
+    })),
+    nft_transfers: [],
+  };
+}
+
+// Newest first, as Hiro returns them.
+const HISTORY = [
+  item(5, { fee: 1000, status: "abort_by_response", functionName: "swap-helper" }),
+  item(4, {
+    fee: 2000,
+    functionName: "reduce-position",
+    stx: [{ amount: "40000000", sender: POOL, recipient: WALLET }],
+    fts: [
+      [`${LP}::amm-pool`, "500000000", WALLET, null],
+      [`${ALEX}::alex`, "2000000000", POOL, WALLET],
+    ],
+  }),
+  item(3, {
+    fee: 2000,
+    functionName: "add-to-position",
+    stx: [{ amount: "50000000", sender: WALLET, recipient: POOL }],
+    fts: [
+      [`${ALEX}::alex`, "2500000000", WALLET, POOL],
+      [`${LP}::amm-pool`, "1000000000", null, WALLET],
+    ],
+  }),
+  item(2, {
+    fee: 3000,
+    functionName: "swap-helper",
+    stx: [{ amount: "100000000", sender: WALLET, recipient: POOL }],
+    fts: [[`${ALEX}::alex`, "15000000000", POOL, WALLET]],
+  }),
+  item(1, { sender: PAYER, fee: 180, stx: [{ amount: "250000000", sender: PAYER, recipient: WALLET }] }),
+];
+
+const fetchPage: FetchTransfersPage = async (_address, _network, page) => ({
+  json: { limit: page.limit, offset: page.offset, total: HISTORY.length, results: HISTORY.slice(page.offset, page.offset + page.limit) },
+  source: `fixture#offset=${page.offset}`,
+});
+
+// The LP token has no metadata, so it stays in base units.
+const fetchMetadata = async (contractId: string) => {
+  if (contractId !== ALEX) throw new Error("not found");
+  return { json: { symbol: "ALEX", decimals: 8 }, source: contractId };
+};
+
+function exportAs(format: "generic" | "koinly" | "cointracker") {
+  return exportWalletActivity(WALLET, "mainnet", { format, fetchPage, fetchMetadata });
+}
+
+describe("wallet export", () => {
+  it("makes a trade only of one asset out and one in, and splits other legs into transfers", async () => {
+    const { rows } = await exportAs("generic");
+
+    expect(rows.map((r) => [r.txid, r.label, r.sentAmount, r.sentAsset, r.receivedAmount, r.receivedAsset, r.fee])).toEqual([
+      [txid(1), "transfer", null, null, "250", "STX", null],
+      [txid(2), "swap", "100", "STX", "150", "ALEX", "0.003"],
+      [txid(3), "transfer", "50", "STX", null, null, "0.002"],
+      [txid(3), "transfer", "25", "ALEX", null, null, null],
+      [txid(3), "mint", null, null, "1000000000", "amm-pool", null],
+      [txid(4), "transfer", "500000000", "amm-pool", null, null, "0.002"],
+      [txid(4), "transfer", null, null, "40", "STX", null],
+      [txid(4), "transfer", null, null, "20", "ALEX", null],
+      [txid(5), "fee", null, null, null, null, "0.001"],
+    ]);
+  });
+
+  it("writes the generic layout", async () => {
+    const lines = (await exportAs("generic")).csv.split("\r\n");
+
+    expect(lines[0]).toBe("Date,Sent Amount,Sent Asset,Received Amount,Received Asset,Fee,Fee Currency,Label,TxID,Description");
+    expect(lines[2]).toMatch(new RegExp(`^2024-03-02T10:00:00.000Z,100,STX,150,ALEX,0.003,STX,swap,${txid(2)},`));
+    expect(lines[4]).toMatch(new RegExp(`^2024-03-03T10:00:00.000Z,25,ALEX,,,,,transfer,${txid(3)},`));
+    expect(lines).toHaveLength(11);
+  });
+
+  it("writes Koinly's universal layout with the fee-only row as a cost", async () => {
+    const lines = (await exportAs("koinly")).csv.split("\r\n");
+
+    expect(lines[0]).toBe(
+      "Date,Sent Amount,Sent Currency,Received Amount,Received Currency,Fee Amount,Fee Currency,Net Worth Amount,Net Worth Currency,Label,Description,TxHash"
+    );
+    expect(lines[2]).toMatch(/^2024-03-02 10:00:00 UTC,100,STX,150,ALEX,0.003,STX,,,,/);
+    expect(lines[9]).toMatch(new RegExp(`^2024-03-05 10:00:00 UTC,0.001,STX,,,,,,,cost,.*,${txid(5)}$`));
+  });
+
+  it("writes CoinTracker's layout with received columns first", async () => {
+    const lines = (await exportAs("cointracker")).csv.split("\r\n");
+
+    expect(lines[0]).toBe("Date,Received Quantity,Received Currency,Sent Quantity,Sent Currency,Fee Amount,Fee Currency,Tag");
+    expect(lines[2]).toBe("03/02/2024 10:00:00,150,ALEX,100,STX,0.003,STX,");
+    expect(lines[7]).toBe("03/04/2024 10:00:00,40,STX,,,,,");
+    expect(lines[9]).toBe("03/05/2024 10:00:00,,,0.001,STX,,,");
+  });
+});
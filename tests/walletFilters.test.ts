@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { FetchTransfersPage, listWalletActivity } from "@/utils/walletFilters";
+
+const WALLET = "SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7";
+const PAYER = "SP3K8BC0PPEVCV7NZ6QSRWPQ2JE9E5B6N3PA0KBR9";
+
+/** `count` STX deposits, newest first, one block and one day apart. */
+function history(count: number) {
+  return Array.from({ length: count }, (_, i) => {
+    const n = count - i;
+    const time = new Date(Date.UTC(2024, 0, 1) + n * 86_400_000).toISOString();
+    return {
+      tx: {
+        tx_id: `0x${n.toString(16).padStart(64, "0")}`,
+        tx_type: "token_transfer",
+        tx_status: "success",
+        sender_address: PAYER,
+        fee_rate: "180",
+        nonce: n,
+        block_height: 140000 + n,
+        block_time_iso: time,
+        burn_block_time_iso: time,
+        token_transfer: { recipient_address: WALLET, amount: "1000000", memo: "0x" },
+        events: [],
+      },
+      stx_sent: "0",
+      stx_received: "1000000",
+      stx_transfers: [{ amount: "1000000", sender: PAYER, recipient: WALLET }],
+      ft_transfers: [],
+      nft_transfers: [],
+    };
+  });
+}
+
+function pagesOf(results: any[]): FetchTransfersPage {
+  return async (_address, _network, page) => ({
+    json: { limit: page.limit, offset: page.offset, total: results.length, results: results.slice(page.offset, page.offset + page.limit) },
+    source: `fixture#offset=${page.offset}`,
+  });
+}
+
+describe("listWalletActivity", () => {
+  it("keeps a cursor when the limit stops it partway through a short page", async () => {
+    const results = history(30);
+    const fetchPage = pagesOf(results);
+
+    const first = await listWalletActivity(WALLET, "mainnet", { fetchPage, priceProvider: null });
+    expect(first.items.map((i) => i.tx.tx_id)).toEqual(results.slice(0, 20).map((r) => r.tx.tx_id));
+    expect(first.hasMore).toBe(true);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = await listWalletActivity(WALLET, "mainnet", { fetchPage, priceProvider: null, cursor: first.nextCursor! });
+    expect(second.items.map((i) => i.tx.tx_id)).toEqual(results.slice(20).map((r) => r.tx.tx_id));
+    expect(second.hasMore).toBe(false);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it("states token amounts on the cards in whole units", async () => {
+    const aeusdc = "SP3Y2ZSH8P7D50B0VBTSX11S7XSG24M1VB9YFQA4K.token-aeusdc";
+    const [item] = history(1);
+    item.ft_transfers.push({ asset_identifier: `${aeusdc}::aeUSDC`, amount: "123456789", sender: PAYER, recipient: WALLET } as never);
+    const fetchMetadata = async (contractId: string) => ({ json: { symbol: "aeUSDC", decimals: 6 }, source: contractId });
+
+    const page = await listWalletActivity(WALLET, "mainnet", { fetchPage: pagesOf([item]), fetchMetadata, priceProvider: null });
+    const received = page.activities[0].received.map((m: any) => [m.symbol, m.formattedAmount]);
+
+    expect(received).toEqual([
+      ["STX", "1"],
+      ["aeUSDC", "123.456789"],
+    ]);
+  });
+
+  it("ends on a short page once every result has been used", async () => {
+    const page = await listWalletActivity(WALLET, "mainnet", { fetchPage: pagesOf(history(12)), priceProvider: null });
+
+    expect(page.items).toHaveLength(12);
+    expect(page.hasMore).toBe(false);
+    expect(page.nextCursor).toBeNull();
+  });
+});
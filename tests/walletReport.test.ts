@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import { CostBasisMethod, loadWalletReport } from "@/features/wallet-report";
+import { createLocalPriceProvider } from "@/utils/priceProvider";
+import { TransfersRecording, replayFetchPage } from "@/utils/walletFilters";
+import recording from "./fixtures/wallet-report-recording.json";
+import prices from "./fixtures/wallet-report-prices.json";
+
+// Three STX deposits (1000 at $1, 500 at $2, 500 at $1.50), a swap of 600
+// STX for 300 ALEX with a 1 STX fee, then 100 ALEX sent on with a 0.5 STX fee.
+const WALLET = "SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7";
+const ALEX = "SP102V8P0F7JX67ARQ77WEA3D3CFB5XW39REDT0AM.token-alex::alex";
+const fetchMetadata = async (contractId: string) => ({ json: { symbol: "ALEX", decimals: 8 }, source: contractId });
+const tx = (n: number) => `0x${String(n).padStart(2, "0").repeat(32)}`;
+
+function report(method: CostBasisMethod) {
+  return loadWalletReport(WALLET, "mainnet", {
+    method,
+    asOf: "2024-01-10",
+    fetchPage: replayFetchPage(recording as TransfersRecording),
+    fetchMetadata,
+    priceProvider: createLocalPriceProvider(prices, "fixture"),
+  });
+}
+
+function disposalRows(disposals: Awaited<ReturnType<typeof report>>["disposals"]) {
+  return disposals.map((d) => ({
+    kind: d.kind,
+    asset: d.asset,
+    amount: d.formattedAmount,
+    proceeds: d.proceedsUsd,
+    cost: d.costBasisUsd,
+    gain: d.gainUsd,
+    lots: d.lots.map((l) => [l.acquiredTxid, l.amount]),
+  }));
+}
+
+describe("wallet report from a recorded history", () => {
+  it("closes the oldest lots first under FIFO", async () => {
+    const result = await report("fifo");
+
+    expect(disposalRows(result.disposals)).toEqual([
+      { kind: "fee", asset: "STX", amount: "0.5", proceeds: 1.5, cost: 0.5, gain: 1, lots: [[tx(1), "500000"]] },
+      { kind: "transfer", asset: ALEX, amount: "100", proceeds: 600, cost: 500, gain: 100, lots: [[tx(4), "10000000000"]] },
+      { kind: "fee", asset: "STX", amount: "1", proceeds: 2.5, cost: 1, gain: 1.5, lots: [[tx(1), "1000000"]] },
+      { kind: "trade", asset: "STX", amount: "600", proceeds: 1500, cost: 600, gain: 900, lots: [[tx(1), "600000000"]] },
+    ]);
+    expect(result.totals).toEqual({
+      realizedUsd: 1002.5,
+      unrealizedUsd: 448.5,
+      feesStx: "1.5",
+      feesUsd: 4,
+      unresolvedDisposals: 0,
+    });
+  });
+
+  it("closes the newest lots first under LIFO", async () => {
+    const result = await report("lifo");
+
+    expect(disposalRows(result.disposals)).toEqual([
+      { kind: "fee", asset: "STX", amount: "0.5", proceeds: 1.5, cost: 1, gain: 0.5, lots: [[tx(2), "500000"]] },
+      { kind: "transfer", asset: ALEX, amount: "100", proceeds: 600, cost: 500, gain: 100, lots: [[tx(4), "10000000000"]] },
+      { kind: "fee", asset: "STX", amount: "1", proceeds: 2.5, cost: 2, gain: 0.5, lots: [[tx(2), "1000000"]] },
+      {
+        kind: "trade",
+        asset: "STX",
+        amount: "600",
+        proceeds: 1500,
+        cost: 950,
+        gain: 550,
+        lots: [
+          [tx(3), "500000000"],
+          [tx(2), "100000000"],
+        ],
+      },
+    ]);
+    expect(result.totals.realizedUsd).toBe(651);
+    expect(result.totals.unrealizedUsd).toBe(800);
+  });
+
+  it("closes the costliest lots first under HIFO", async () => {
+    const result = await report("hifo");
+
+    expect(disposalRows(result.disposals)).toEqual([
+      { kind: "fee", asset: "STX", amount: "0.5", proceeds: 1.5, cost: 0.75, gain: 0.75, lots: [[tx(3), "500000"]] },
+      { kind: "transfer", asset: ALEX, amount: "100", proceeds: 600, cost: 500, gain: 100, lots: [[tx(4), "10000000000"]] },
+      { kind: "fee", asset: "STX", amount: "1", proceeds: 2.5, cost: 1.5, gain: 1, lots: [[tx(3), "1000000"]] },
+      {
+        kind: "trade",
+        asset: "STX",
+        amount: "600",
+        proceeds: 1500,
+        cost: 1150,
+        gain: 350,
+        lots: [
+          [tx(2), "500000000"],
+          [tx(3), "100000000"],
+        ],
+      },
+    ]);
+    expect(result.totals.realizedUsd).toBe(451.75);
+    expect(result.totals.unrealizedUsd).toBe(999.25);
+  });
+
+  it("values what is still held at the closing price", async () => {
+    const rows = async (method: CostBasisMethod) =>
+      (await report(method)).positions.map((p) => [p.asset, p.formattedAmount, p.costBasisUsd, p.valueUsd, p.unrealizedUsd]);
+
+    expect(await rows("fifo")).toEqual([
+      ["STX", "1398.5", 2148.5, 2797, 648.5],
+      [ALEX, "200", 1000, 800, -200],
+    ]);
+    expect(await rows("lifo")).toEqual([
+      ["STX", "1398.5", 1797, 2797, 1000],
+      [ALEX, "200", 1000, 800, -200],
+    ]);
+    expect(await rows("hifo")).toEqual([
+      ["STX", "1398.5", 1597.75, 2797, 1199.25],
+      [ALEX, "200", 1000, 800, -200],
+    ]);
+  });
+
+  it("gives the same total gain whichever method closes the lots", async () => {
+    for (const method of ["fifo", "lifo", "hifo"] as const) {
+      const { totals } = await report(method);
+      expect(totals.realizedUsd + totals.unrealizedUsd).toBe(1451);
+      expect(totals.feesStx).toBe("1.5");
+      expect(totals.feesUsd).toBe(4);
+    }
+  });
+
+  it("rebuilds the same report from the pages it recorded", async () => {
+    const fetchPage = replayFetchPage(recording as TransfersRecording);
+    const priceProvider = createLocalPriceProvider(prices, "fixture");
+    const first = await loadWalletReport(WALLET, "mainnet", { asOf: "2024-01-10", fetchPage, fetchMetadata, priceProvider, record: true });
+    const { recording: captured, ...original } = first;
+
+    const replayed = await loadWalletReport(WALLET, "mainnet", {
+      asOf: "2024-01-10",
+      fetchPage: replayFetchPage(captured!),
+      fetchMetadata,
+      priceProvider,
+    });
+
+    expect(captured!.pages).toHaveLength(1);
+    expect(replayed).toEqual(original);
+    expect(replayed.transactionCount).toBe(5);
+    expect(replayed.truncated).toBe(false);
+  });
+});